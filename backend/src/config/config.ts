@@ -4,21 +4,156 @@ dotenv.config();
 
 export const config = {
   port: process.env.PORT || 3001,
+  llmProvider: process.env.LLM_PROVIDER || "gemini",
+  // Empty selects the provider's default model
+  llmModel: process.env.LLM_MODEL || "",
+  llmTemperature: parseFloat(process.env.LLM_TEMPERATURE || "0.7"),
+  llmTopP: parseFloat(process.env.LLM_TOP_P || "0.95"),
+  llmTopK: parseInt(process.env.LLM_TOP_K || "40", 10),
+  llmMaxOutputTokens: parseInt(process.env.LLM_MAX_OUTPUT_TOKENS || "8192", 10),
+  llmTimeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || "60000", 10),
+  // GEMINI_MAX_REPAIR_ATTEMPTS is the name used before other LLMs were supported
+  llmMaxRepairAttempts: parseInt(
+    process.env.LLM_MAX_REPAIR_ATTEMPTS ||
+      process.env.GEMINI_MAX_REPAIR_ATTEMPTS ||
+      "2",
+    10
+  ),
+  // Serve a rule-based, degraded report when the LLM call fails
+  llmFallbackToDataOnly: process.env.LLM_FALLBACK_TO_DATA_ONLY !== "false",
+  promptsDir: process.env.PROMPTS_DIR || "prompts",
+  promptVersion: process.env.PROMPT_VERSION || "v1",
   geminiApiKey: process.env.GEMINI_API_KEY || "",
+  openaiBaseUrl: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+  openaiApiKey: process.env.OPENAI_API_KEY || "",
+  openaiResponseFormat: (process.env.OPENAI_RESPONSE_FORMAT ||
+    "json_schema") as "json_schema" | "json_object",
   visualCrossingApiKey: process.env.VISUAL_CROSSING_API_KEY || "",
   allowedOrigins: process.env.ALLOWED_ORIGINS?.split(",") || [
     "http://localhost:5173",
   ],
   nodeEnv: process.env.NODE_ENV || "development",
+  weatherProvider: process.env.WEATHER_PROVIDER || "visualcrossing",
+  nasaPowerBaseUrl:
+    process.env.NASA_POWER_BASE_URL || "https://power.larc.nasa.gov",
+  nasaPowerCommunity: process.env.NASA_POWER_COMMUNITY || "RE",
+  localGridDir: process.env.LOCAL_GRID_DIR || "data/grid",
+  localGridInterpolation: (process.env.LOCAL_GRID_INTERPOLATION ||
+    "bilinear") as "nearest" | "bilinear",
+  cacheDriver: (process.env.CACHE_DRIVER || "memory") as
+    | "memory"
+    | "file"
+    | "none",
+  cacheDir: process.env.CACHE_DIR || ".cache/weather",
+  cacheMaxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || "500", 10),
+  cacheCoordinatePrecision: parseInt(
+    process.env.CACHE_COORDINATE_PRECISION || "2",
+    10
+  ),
+  climatologyYears: parseInt(process.env.CLIMATOLOGY_YEARS || "10", 10),
+  climatologyWindowDays: parseInt(
+    process.env.CLIMATOLOGY_WINDOW_DAYS || "3",
+    10
+  ),
+  maxClimatologyYears: parseInt(process.env.MAX_CLIMATOLOGY_YEARS || "40", 10),
+  maxClimatologyWindowDays: parseInt(
+    process.env.MAX_CLIMATOLOGY_WINDOW_DAYS || "15",
+    10
+  ),
+  veryHotThresholdC: parseFloat(process.env.VERY_HOT_THRESHOLD_C || "32"),
+  veryColdThresholdC: parseFloat(process.env.VERY_COLD_THRESHOLD_C || "0"),
+  veryWindyThresholdKph: parseFloat(
+    process.env.VERY_WINDY_THRESHOLD_KPH || "30"
+  ),
+  veryWetThresholdMm: parseFloat(process.env.VERY_WET_THRESHOLD_MM || "10"),
+  confidenceHighMinSamples: parseInt(
+    process.env.CONFIDENCE_HIGH_MIN_SAMPLES || "100",
+    10
+  ),
+  confidenceMediumMinSamples: parseInt(
+    process.env.CONFIDENCE_MEDIUM_MIN_SAMPLES || "30",
+    10
+  ),
+  graphGranularity: (process.env.GRAPH_GRANULARITY || "quarterly") as
+    | "quarterly"
+    | "monthly",
+  maxGraphYears: parseInt(process.env.MAX_GRAPH_YEARS || "5", 10),
+  graphHistory: (process.env.GRAPH_HISTORY || "window") as
+    | "window"
+    | "full_year",
+  forecastHorizonDays: parseInt(process.env.FORECAST_HORIZON_DAYS || "15", 10),
+  maxRangeDays: parseInt(process.env.MAX_RANGE_DAYS || "14", 10),
+  maxBestDatesWindowDays: parseInt(
+    process.env.MAX_BEST_DATES_WINDOW_DAYS || "92",
+    10
+  ),
+  areaGridSize: parseInt(process.env.AREA_GRID_SIZE || "3", 10),
+  maxAreaVertices: parseInt(process.env.MAX_AREA_VERTICES || "50", 10),
+  maxCompareVenues: parseInt(process.env.MAX_COMPARE_VENUES || "5", 10),
+  eventSetupHours: parseInt(process.env.EVENT_SETUP_HOURS || "2", 10),
+  historicalFetchConcurrency: parseInt(
+    process.env.HISTORICAL_FETCH_CONCURRENCY || "3",
+    10
+  ),
+  upstreamMode: (process.env.UPSTREAM_MODE || "live") as
+    | "live"
+    | "record"
+    | "replay",
+  fixturesDir: process.env.FIXTURES_DIR || "fixtures",
+  upstreamMaxRetries: parseInt(process.env.UPSTREAM_MAX_RETRIES || "3", 10),
+  upstreamRetryBaseMs: parseInt(
+    process.env.UPSTREAM_RETRY_BASE_MS || "500",
+    10
+  ),
+  upstreamRetryMaxMs: parseInt(
+    process.env.UPSTREAM_RETRY_MAX_MS || "10000",
+    10
+  ),
+  upstreamRetryBudgetMs: parseInt(
+    process.env.UPSTREAM_RETRY_BUDGET_MS || "60000",
+    10
+  ),
+  circuitBreakerFailureThreshold: parseInt(
+    process.env.CIRCUIT_BREAKER_FAILURE_THRESHOLD || "5",
+    10
+  ),
+  circuitBreakerResetMs: parseInt(
+    process.env.CIRCUIT_BREAKER_RESET_MS || "30000",
+    10
+  ),
+  analysisJobConcurrency: parseInt(
+    process.env.ANALYSIS_JOB_CONCURRENCY || "2",
+    10
+  ),
+  analysisJobMaxQueued: parseInt(
+    process.env.ANALYSIS_JOB_MAX_QUEUED || "50",
+    10
+  ),
+  analysisJobTtlMs:
+    parseInt(process.env.ANALYSIS_JOB_TTL_MINUTES || "30", 10) * 60 * 1000,
+  forecastCacheTtlMs:
+    parseInt(process.env.FORECAST_CACHE_TTL_MINUTES || "60", 10) * 60 * 1000,
+  recentDataLagDays: parseInt(process.env.RECENT_DATA_LAG_DAYS || "7", 10),
 };
 
-if (!config.geminiApiKey) {
+// Replayed fixtures never reach the upstream APIs, so no keys are needed
+const requiresApiKeys = config.upstreamMode !== "replay";
+
+if (
+  requiresApiKeys &&
+  config.llmProvider === "gemini" &&
+  !config.geminiApiKey
+) {
   console.error("ERROR: GEMINI_API_KEY is not set in environment variables");
   console.error("Please create a .env file based on .env.example");
   process.exit(1);
 }
 
-if (!config.visualCrossingApiKey) {
+if (
+  requiresApiKeys &&
+  config.weatherProvider === "visualcrossing" &&
+  !config.visualCrossingApiKey
+) {
   console.error(
     "ERROR: VISUAL_CROSSING_API_KEY is not set in environment variables"
   );
@@ -1,125 +1,785 @@
 import { Request, Response } from "express";
-import { geminiService } from "../services/gemini.service";
-import { visualCrossingService } from "../services/visualcrossing.service";
-import { WeatherQuery } from "../types/weather.types";
+import { analysisService } from "../services/analysis.service";
+import { analysisJobService } from "../services/analysisJob.service";
+import { areaAnalysisService } from "../services/areaAnalysis.service";
+import { comparisonService } from "../services/comparison.service";
+import { forecastService } from "../services/forecast.service";
+import { rangeAnalysisService } from "../services/rangeAnalysis.service";
+import { upstreamResilience } from "../services/resilience.service";
+import { config } from "../config/config";
+import {
+  AnalysisMode,
+  AreaQuery,
+  BestDatesQuery,
+  ComparisonQuery,
+  ForecastQuery,
+  RangeQuery,
+  UnitSystem,
+  VenueQuery,
+  Weekday,
+  WeatherQuery,
+} from "../types/weather.types";
+import { toIsoDate } from "../utils/dates";
+import { describeAnalysisError } from "../utils/errors";
+
+const ANALYSIS_MODES: AnalysisMode[] = ["full", "data-only"];
+
+const UNIT_SYSTEMS: UnitSystem[] = ["metric", "imperial"];
+
+// Indexed by Weekday
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
 
 export class WeatherController {
-  async getWeatherAnalysis(req: Request, res: Response): Promise<void> {
-    try {
-      const { latitude, longitude, date } = req.query;
+  // undefined when absent, null when present but not a whole number
+  private parseOptionalInteger(value: unknown): number | undefined | null {
+    if (value === undefined) return undefined;
+    if (typeof value !== "string" || !/^\d+$/.test(value)) return null;
+    return parseInt(value, 10);
+  }
 
-      if (!latitude || !longitude || !date) {
-        res.status(400).json({
-          error: "Missing required parameters",
-          message:
-            "Please provide latitude, longitude, and date as query parameters",
-          example:
-            "/api/weather?latitude=10.726563&longitude=76.290312&date=30-09-2026",
-        });
-        return;
-      }
+  // JSON bodies may carry numbers; validate them in their query-string form
+  private toQueryParams(body: unknown): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(body || {}).map(([key, value]) => [
+        key,
+        typeof value === "number" ? String(value) : value,
+      ])
+    );
+  }
+
+  private isDateString(value: unknown): value is string {
+    return typeof value === "string" && /^\d{2}-\d{2}-\d{4}$/.test(value);
+  }
+
+  /**
+   * Validates the coordinates, climatology options and unit system shared by
+   * every weather endpoint. Sends a 400 and returns undefined when they are
+   * invalid.
+   */
+  private parseLocationParams(
+    params: Record<string, unknown>,
+    res: Response
+  ):
+    | Pick<
+        WeatherQuery,
+        "latitude" | "longitude" | "years" | "window" | "units"
+      >
+    | undefined {
+    const { latitude, longitude } = params;
+
+    if (typeof latitude !== "string" || typeof longitude !== "string") {
+      res.status(400).json({
+        error: "Invalid parameter types",
+        message: "All parameters must be strings",
+      });
+      return;
+    }
+
+    const lat = parseFloat(latitude);
+    const lon = parseFloat(longitude);
+
+    if (isNaN(lat) || lat < -90 || lat > 90) {
+      res.status(400).json({
+        error: "Invalid latitude",
+        message: "Latitude must be a number between -90 and 90",
+      });
+      return;
+    }
+
+    if (isNaN(lon) || lon < -180 || lon > 180) {
+      res.status(400).json({
+        error: "Invalid longitude",
+        message: "Longitude must be a number between -180 and 180",
+      });
+      return;
+    }
+
+    const years = this.parseOptionalInteger(params.years);
+    if (
+      years === null ||
+      (years !== undefined && (years < 1 || years > config.maxClimatologyYears))
+    ) {
+      res.status(400).json({
+        error: "Invalid years",
+        message: `years must be a whole number between 1 and ${config.maxClimatologyYears}`,
+      });
+      return;
+    }
+
+    const window = this.parseOptionalInteger(params.window);
+    if (
+      window === null ||
+      (window !== undefined &&
+        (window < 0 || window > config.maxClimatologyWindowDays))
+    ) {
+      res.status(400).json({
+        error: "Invalid window",
+        message: `window must be a whole number of days between 0 and ${config.maxClimatologyWindowDays}`,
+      });
+      return;
+    }
+
+    const { units } = params;
+    if (units !== undefined && !UNIT_SYSTEMS.includes(units as UnitSystem)) {
+      res.status(400).json({
+        error: "Invalid units",
+        message: `units must be one of: ${UNIT_SYSTEMS.join(", ")}`,
+      });
+      return;
+    }
+
+    return {
+      latitude,
+      longitude,
+      years,
+      window,
+      units: units as UnitSystem | undefined,
+    };
+  }
+
+  /**
+   * Validates the parameters of the single-date weather endpoints (query
+   * string, or JSON body for POST /api/analyses). Sends a 400 and returns
+   * undefined when they are invalid.
+   */
+  private parseWeatherQuery(
+    params: Record<string, unknown>,
+    res: Response
+  ): WeatherQuery | undefined {
+    const { latitude, longitude, date } = params;
+
+    if (!latitude || !longitude || !date) {
+      res.status(400).json({
+        error: "Missing required parameters",
+        message:
+          "Please provide latitude, longitude, and date as query parameters",
+        example:
+          "/api/weather?latitude=10.726563&longitude=76.290312&date=30-09-2026",
+      });
+      return;
+    }
+
+    if (!this.isDateString(date)) {
+      res.status(400).json({
+        error: "Invalid date format",
+        message: "Date must be in DD-MM-YYYY format",
+        example: "30-09-2026",
+      });
+      return;
+    }
+
+    const location = this.parseLocationParams(params, res);
+    if (!location) return;
+
+    const { mode } = params;
+    if (mode !== undefined && !ANALYSIS_MODES.includes(mode as AnalysisMode)) {
+      res.status(400).json({
+        error: "Invalid mode",
+        message: `mode must be one of: ${ANALYSIS_MODES.join(", ")}`,
+      });
+      return;
+    }
+
+    const eventTimes = this.parseEventTimes(params, res);
+    if (!eventTimes) return;
+
+    return {
+      ...location,
+      date,
+      mode: mode as AnalysisMode | undefined,
+      ...eventTimes,
+    };
+  }
+
+  /**
+   * Optional HH:MM start and end of the event, both or neither, ending later
+   * the same day. Sends a 400 and returns undefined when they are invalid.
+   */
+  private parseEventTimes(
+    params: Record<string, unknown>,
+    res: Response
+  ): Pick<WeatherQuery, "startTime" | "endTime"> | undefined {
+    const { startTime, endTime } = params;
+    if (startTime === undefined && endTime === undefined) return {};
+
+    const toMinutes = (value: unknown): number | null => {
+      const match =
+        typeof value === "string" && /^(\d{2}):(\d{2})$/.exec(value);
+      if (!match) return null;
+      const minutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+      return parseInt(match[2], 10) < 60 && minutes <= 24 * 60 ? minutes : null;
+    };
+    const start = toMinutes(startTime);
+    const end = toMinutes(endTime);
+
+    if (start === null || end === null) {
+      res.status(400).json({
+        error: "Invalid event times",
+        message:
+          "startTime and endTime must be given together, in HH:MM format",
+        example: "startTime=18:00&endTime=22:30",
+      });
+      return;
+    }
+
+    if (end <= start) {
+      res.status(400).json({
+        error: "Invalid event times",
+        message:
+          "endTime must be after startTime on the same day (use 24:00 for midnight)",
+      });
+      return;
+    }
+
+    return { startTime: startTime as string, endTime: endTime as string };
+  }
+
+  /** Day number of a DD-MM-YYYY date, or null if it is not a calendar date */
+  private toDayNumber(date: string): number | null {
+    const [day, month, year] = date.split("-").map(Number);
+    const time = Date.UTC(year, month - 1, day);
+    const parsed = new Date(time);
+    if (parsed.getUTCDate() !== day || parsed.getUTCMonth() !== month - 1) {
+      return null;
+    }
+    return time / 86_400_000;
+  }
+
+  /**
+   * Validates a start/end window of at most maxDays days plus the location
+   * parameters. Sends a 400 and returns undefined when they are invalid.
+   */
+  private parseDateWindow(
+    params: Record<string, unknown>,
+    res: Response,
+    maxDays: number,
+    example: string
+  ): RangeQuery | undefined {
+    const { latitude, longitude, start, end } = params;
+
+    if (!latitude || !longitude || !start || !end) {
+      res.status(400).json({
+        error: "Missing required parameters",
+        message:
+          "Please provide latitude, longitude, start and end as query parameters",
+        example,
+      });
+      return;
+    }
+
+    if (!this.isDateString(start) || !this.isDateString(end)) {
+      res.status(400).json({
+        error: "Invalid date format",
+        message: "start and end must be in DD-MM-YYYY format",
+        example: "30-09-2026",
+      });
+      return;
+    }
+
+    const startDay = this.toDayNumber(start);
+    const endDay = this.toDayNumber(end);
+    if (startDay === null || endDay === null) {
+      res.status(400).json({
+        error: "Invalid date",
+        message: "start and end must be real calendar dates",
+      });
+      return;
+    }
+
+    const dayCount = endDay - startDay + 1;
+    if (dayCount < 1 || dayCount > maxDays) {
+      res.status(400).json({
+        error: "Invalid range",
+        message: `end must be on or after start, and the range at most ${maxDays} days long`,
+      });
+      return;
+    }
+
+    const location = this.parseLocationParams(params, res);
+    if (!location) return;
+
+    return { ...location, startDate: start, endDate: end };
+  }
+
+  private parseRangeQuery(
+    params: Record<string, unknown>,
+    res: Response
+  ): RangeQuery | undefined {
+    return this.parseDateWindow(
+      params,
+      res,
+      config.maxRangeDays,
+      "/api/weather/range?latitude=10.726563&longitude=76.290312&start=28-09-2026&end=02-10-2026"
+    );
+  }
+
+  private parseBestDatesQuery(
+    params: Record<string, unknown>,
+    res: Response
+  ): BestDatesQuery | undefined {
+    const window = this.parseDateWindow(
+      params,
+      res,
+      config.maxBestDatesWindowDays,
+      "/api/weather/best-dates?latitude=10.726563&longitude=76.290312&start=01-06-2026&end=30-06-2026&weekdays=sat"
+    );
+    if (!window) return;
+
+    const { weekdays } = params;
+    if (weekdays === undefined) return window;
+
+    const parsed =
+      typeof weekdays === "string"
+        ? weekdays
+            .split(",")
+            .map((name) => WEEKDAYS.indexOf(name.trim().toLowerCase()))
+        : [];
+    if (parsed.length === 0 || parsed.includes(-1)) {
+      res.status(400).json({
+        error: "Invalid weekdays",
+        message: `weekdays must be a comma-separated list of: ${WEEKDAYS.join(
+          ", "
+        )}`,
+        example: "sat,sun",
+      });
+      return;
+    }
+
+    // Windows shorter than a week may not contain the requested weekdays
+    const startDay = this.toDayNumber(window.startDate) as number;
+    const endDay = this.toDayNumber(window.endDate) as number;
+    const hasCandidate = Array.from(
+      { length: Math.min(7, endDay - startDay + 1) },
+      // Day 0 of the epoch (1 January 1970) was a Thursday
+      (_, i) => (startDay + i + 4) % 7
+    ).some((weekday) => parsed.includes(weekday));
+    if (!hasCandidate) {
+      res.status(400).json({
+        error: "No candidate dates",
+        message: "None of the days between start and end fall on the weekdays",
+      });
+      return;
+    }
+
+    return {
+      ...window,
+      weekdays: [...new Set(parsed)].sort() as Weekday[],
+    };
+  }
+
+  private parseForecastQuery(
+    params: Record<string, unknown>,
+    res: Response
+  ): ForecastQuery | undefined {
+    const { latitude, longitude, date } = params;
+
+    if (!latitude || !longitude || !date) {
+      res.status(400).json({
+        error: "Missing required parameters",
+        message:
+          "Please provide latitude, longitude, and date as query parameters",
+        example:
+          "/api/weather/forecast?latitude=10.726563&longitude=76.290312&date=30-09-2026",
+      });
+      return;
+    }
+
+    if (!this.isDateString(date) || this.toDayNumber(date) === null) {
+      res.status(400).json({
+        error: "Invalid date format",
+        message: "Date must be a real calendar date in DD-MM-YYYY format",
+        example: "30-09-2026",
+      });
+      return;
+    }
+
+    const horizon = forecastService.getHorizon();
+    const isoDate = toIsoDate(date);
+    if (isoDate < horizon.start || isoDate > horizon.end) {
+      res.status(400).json({
+        error: "Date outside forecast horizon",
+        message: `Forecasts cover today and the following ${
+          config.forecastHorizonDays - 1
+        } days`,
+      });
+      return;
+    }
+
+    const days = this.parseOptionalInteger(params.days);
+    if (
+      days === null ||
+      (days !== undefined && (days < 1 || days > config.forecastHorizonDays))
+    ) {
+      res.status(400).json({
+        error: "Invalid days",
+        message: `days must be a whole number between 1 and ${config.forecastHorizonDays}`,
+      });
+      return;
+    }
+
+    const location = this.parseLocationParams(params, res);
+    if (!location) return;
+
+    return {
+      latitude: location.latitude,
+      longitude: location.longitude,
+      date,
+      days,
+      units: location.units,
+    };
+  }
+
+  private parseComparisonQuery(
+    body: unknown,
+    res: Response
+  ): ComparisonQuery | undefined {
+    const params = this.toQueryParams(body);
+    const { date, venues } = params;
+
+    if (!date || !Array.isArray(venues)) {
+      res.status(400).json({
+        error: "Missing required parameters",
+        message: "Please provide date and a venues array in the JSON body",
+        example: {
+          date: "30-09-2026",
+          venues: [
+            {
+              name: "Riverside Park",
+              latitude: 10.726563,
+              longitude: 76.290312,
+            },
+            { name: "Town Hall", latitude: 10.5276, longitude: 76.2144 },
+          ],
+        },
+      });
+      return;
+    }
+
+    if (!this.isDateString(date)) {
+      res.status(400).json({
+        error: "Invalid date format",
+        message: "Date must be in DD-MM-YYYY format",
+        example: "30-09-2026",
+      });
+      return;
+    }
+
+    if (venues.length < 2 || venues.length > config.maxCompareVenues) {
+      res.status(400).json({
+        error: "Invalid venues",
+        message: `Provide between 2 and ${config.maxCompareVenues} venues to compare`,
+      });
+      return;
+    }
 
+    const parsedVenues: VenueQuery[] = [];
+    let years: number | undefined;
+    let window: number | undefined;
+    let units: UnitSystem | undefined;
+    for (const venue of venues) {
+      const venueParams = this.toQueryParams(venue);
       if (
-        typeof latitude !== "string" ||
-        typeof longitude !== "string" ||
-        typeof date !== "string"
+        venueParams.name !== undefined &&
+        typeof venueParams.name !== "string"
       ) {
         res.status(400).json({
-          error: "Invalid parameter types",
-          message: "All parameters must be strings",
+          error: "Invalid venue name",
+          message: "Venue names must be strings",
         });
         return;
       }
 
-      const dateRegex = /^\d{2}-\d{2}-\d{4}$/;
-      if (!dateRegex.test(date)) {
-        res.status(400).json({
-          error: "Invalid date format",
-          message: "Date must be in DD-MM-YYYY format",
-          example: "30-09-2026",
-        });
-        return;
-      }
+      const location = this.parseLocationParams(
+        {
+          ...venueParams,
+          years: params.years,
+          window: params.window,
+          units: params.units,
+        },
+        res
+      );
+      if (!location) return;
 
-      const lat = parseFloat(latitude);
-      const lon = parseFloat(longitude);
+      ({ years, window, units } = location);
+      parsedVenues.push({
+        latitude: location.latitude,
+        longitude: location.longitude,
+        name: venueParams.name,
+      });
+    }
 
-      if (isNaN(lat) || lat < -90 || lat > 90) {
-        res.status(400).json({
-          error: "Invalid latitude",
-          message: "Latitude must be a number between -90 and 90",
-        });
-        return;
-      }
+    return { date, venues: parsedVenues, years, window, units };
+  }
 
-      if (isNaN(lon) || lon < -180 || lon > 180) {
-        res.status(400).json({
-          error: "Invalid longitude",
-          message: "Longitude must be a number between -180 and 180",
-        });
-        return;
-      }
+  private parseAreaQuery(body: unknown, res: Response): AreaQuery | undefined {
+    const params = this.toQueryParams(body);
+    const { date, polygon } = params;
+
+    if (!date || !Array.isArray(polygon)) {
+      res.status(400).json({
+        error: "Missing required parameters",
+        message: "Please provide date and a polygon array in the JSON body",
+        example: {
+          date: "30-09-2026",
+          polygon: [
+            { latitude: 10.73, longitude: 76.28 },
+            { latitude: 10.73, longitude: 76.31 },
+            { latitude: 10.71, longitude: 76.31 },
+            { latitude: 10.71, longitude: 76.28 },
+          ],
+        },
+      });
+      return;
+    }
 
-      const weatherQuery: WeatherQuery = {
-        latitude,
-        longitude,
-        date,
-      };
+    if (!this.isDateString(date)) {
+      res.status(400).json({
+        error: "Invalid date format",
+        message: "Date must be in DD-MM-YYYY format",
+        example: "30-09-2026",
+      });
+      return;
+    }
 
-      console.log(
-        "[Controller] Fetching Visual Crossing statistical forecast..."
-      );
-      let vcForecast;
-      try {
-        vcForecast = await visualCrossingService.getStatisticalForecast(
-          latitude,
-          longitude,
-          date
-        );
-        console.log("[Controller] Visual Crossing data retrieved successfully");
-      } catch (vcError) {
-        console.warn(
-          "[Controller] Visual Crossing API failed, proceeding without it:",
-          vcError instanceof Error ? vcError.message : "Unknown error"
-        );
-        // Continue without Visual Crossing data
-      }
+    if (polygon.length < 3 || polygon.length > config.maxAreaVertices) {
+      res.status(400).json({
+        error: "Invalid polygon",
+        message: `The polygon needs between 3 and ${config.maxAreaVertices} vertices`,
+      });
+      return;
+    }
 
-      console.log("[Controller] Calling Gemini service...");
-      const weatherData = await geminiService.getWeatherAnalysis(
-        weatherQuery,
-        vcForecast
+    const vertices: AreaQuery["polygon"] = [];
+    let years: number | undefined;
+    let window: number | undefined;
+    let units: UnitSystem | undefined;
+    for (const vertex of polygon) {
+      const location = this.parseLocationParams(
+        {
+          ...this.toQueryParams(vertex),
+          years: params.years,
+          window: params.window,
+          units: params.units,
+        },
+        res
       );
-      console.log("[Controller] Gemini service completed successfully");
+      if (!location) return;
+
+      ({ years, window, units } = location);
+      vertices.push({
+        latitude: parseFloat(location.latitude),
+        longitude: parseFloat(location.longitude),
+      });
+    }
+
+    return { date, polygon: vertices, years, window, units };
+  }
+
+  async getWeatherAnalysis(req: Request, res: Response): Promise<void> {
+    try {
+      const weatherQuery = this.parseWeatherQuery(req.query, res);
+      if (!weatherQuery) return;
+
+      const weatherData = await analysisService.analyze(weatherQuery);
 
       res.status(200).json(weatherData);
     } catch (error) {
       console.error("Error in weather controller:", error);
 
-      if (error instanceof Error && error.message.includes("timeout")) {
-        res.status(504).json({
-          error: "Gateway Timeout",
-          message:
-            "The AI service took too long to respond. Please try again with a different date or location.",
-          details: error.message,
-        });
-        return;
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  async getRangeAnalysis(req: Request, res: Response): Promise<void> {
+    try {
+      const rangeQuery = this.parseRangeQuery(req.query, res);
+      if (!rangeQuery) return;
+
+      const rangeData = await rangeAnalysisService.analyzeRange(rangeQuery);
+
+      res.status(200).json(rangeData);
+    } catch (error) {
+      console.error("Error in weather range controller:", error);
+
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  async getBestDates(req: Request, res: Response): Promise<void> {
+    try {
+      const bestDatesQuery = this.parseBestDatesQuery(req.query, res);
+      if (!bestDatesQuery) return;
+
+      const bestDates = await rangeAnalysisService.findBestDates(
+        bestDatesQuery
+      );
+
+      res.status(200).json(bestDates);
+    } catch (error) {
+      console.error("Error in best dates controller:", error);
+
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  async getForecast(req: Request, res: Response): Promise<void> {
+    try {
+      const forecastQuery = this.parseForecastQuery(req.query, res);
+      if (!forecastQuery) return;
+
+      const forecastData = await forecastService.getForecast(forecastQuery);
+
+      res.status(200).json(forecastData);
+    } catch (error) {
+      console.error("Error in forecast controller:", error);
+
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  async getAreaAnalysis(req: Request, res: Response): Promise<void> {
+    try {
+      const areaQuery = this.parseAreaQuery(req.body, res);
+      if (!areaQuery) return;
+
+      const areaData = await areaAnalysisService.analyzeArea(areaQuery);
+
+      res.status(200).json(areaData);
+    } catch (error) {
+      console.error("Error in area analysis controller:", error);
+
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  async compareVenues(req: Request, res: Response): Promise<void> {
+    try {
+      const comparisonQuery = this.parseComparisonQuery(req.body, res);
+      if (!comparisonQuery) return;
+
+      const comparison = await comparisonService.compareVenues(comparisonQuery);
+
+      res.status(200).json(comparison);
+    } catch (error) {
+      console.error("Error in venue comparison controller:", error);
+
+      const { status, ...body } = describeAnalysisError(error);
+      res.status(status).json(body);
+    }
+  }
+
+  /**
+   * Server-Sent Events variant of getWeatherAnalysis: emits `progress` and
+   * `data` events while the analysis runs, then a single `report` (or
+   * `error`) event before closing the stream.
+   */
+  async streamWeatherAnalysis(req: Request, res: Response): Promise<void> {
+    const weatherQuery = this.parseWeatherQuery(req.query, res);
+    if (!weatherQuery) return;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.flushHeaders();
+
+    // A client that disconnects aborts the provider and model calls still in
+    // flight, as cancelling a job does
+    const controller = new AbortController();
+    res.on("close", () => controller.abort());
+
+    const send = (event: string, data: unknown) => {
+      if (controller.signal.aborted) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    try {
+      const weatherData = await analysisService.analyze(weatherQuery, {
+        onProgress: (progress) => send("progress", progress),
+        onData: (data) => send("data", data),
+        signal: controller.signal,
+      });
+      send("report", weatherData);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.log("Weather stream closed by client, analysis cancelled");
+      } else {
+        console.error("Error in weather stream:", error);
+
+        send("error", describeAnalysisError(error));
       }
+    }
 
-      res.status(500).json({
-        error: "Internal server error",
-        message: "Failed to process weather analysis request",
+    res.end();
+  }
+
+  async createAnalysisJob(req: Request, res: Response): Promise<void> {
+    const weatherQuery = this.parseWeatherQuery(
+      this.toQueryParams(req.body),
+      res
+    );
+    if (!weatherQuery) return;
+
+    try {
+      const job = analysisJobService.create(weatherQuery);
+      res.status(202).location(`/api/analyses/${job.id}`).json(job);
+    } catch (error) {
+      res.status(503).json({
+        error: "Service Unavailable",
+        message: "Too many analyses are waiting. Please try again shortly.",
         details: error instanceof Error ? error.message : "Unknown error",
       });
     }
   }
 
+  async getAnalysisJob(req: Request, res: Response): Promise<void> {
+    const job = analysisJobService.get(req.params.id);
+    if (!job) {
+      res.status(404).json({
+        error: "Not Found",
+        message: `Analysis job ${req.params.id} does not exist or has expired`,
+      });
+      return;
+    }
+
+    res.status(200).json(job);
+  }
+
+  async cancelAnalysisJob(req: Request, res: Response): Promise<void> {
+    const job = analysisJobService.cancel(req.params.id);
+    if (!job) {
+      res.status(404).json({
+        error: "Not Found",
+        message: `Analysis job ${req.params.id} does not exist or has expired`,
+      });
+      return;
+    }
+
+    if (job.status !== "cancelled") {
+      res.status(409).json({
+        error: "Conflict",
+        message: `Analysis job ${job.id} already ${job.status}`,
+      });
+      return;
+    }
+
+    res.status(200).json(job);
+  }
+
   async healthCheck(req: Request, res: Response): Promise<void> {
     res.status(200).json({
       status: "healthy",
       timestamp: new Date().toISOString(),
       service: "Weather Analysis API",
       version: "1.0.0",
+      upstreams: upstreamResilience.getStatus(),
+      jobs: analysisJobService.getStats(),
     });
   }
 }
@@ -7,6 +7,42 @@ router.get("/weather", (req, res) =>
   weatherController.getWeatherAnalysis(req, res)
 );
 
+router.get("/weather/range", (req, res) =>
+  weatherController.getRangeAnalysis(req, res)
+);
+
+router.get("/weather/forecast", (req, res) =>
+  weatherController.getForecast(req, res)
+);
+
+router.get("/weather/best-dates", (req, res) =>
+  weatherController.getBestDates(req, res)
+);
+
+router.post("/weather/area", (req, res) =>
+  weatherController.getAreaAnalysis(req, res)
+);
+
+router.post("/weather/compare", (req, res) =>
+  weatherController.compareVenues(req, res)
+);
+
+router.get("/weather/stream", (req, res) =>
+  weatherController.streamWeatherAnalysis(req, res)
+);
+
+router.post("/analyses", (req, res) =>
+  weatherController.createAnalysisJob(req, res)
+);
+
+router.get("/analyses/:id", (req, res) =>
+  weatherController.getAnalysisJob(req, res)
+);
+
+router.delete("/analyses/:id", (req, res) =>
+  weatherController.cancelAnalysisJob(req, res)
+);
+
 router.get("/health", (req, res) => weatherController.healthCheck(req, res));
 
 export default router;
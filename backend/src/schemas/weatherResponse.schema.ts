@@ -0,0 +1,161 @@
+import { UnitSystem, WeatherResponse } from "../types/weather.types";
+import {
+  ArraySchema,
+  NumberSchema,
+  ObjectSchema,
+  SchemaFor,
+  StringSchema,
+} from "../utils/schema";
+import { formatQuantity, unitLabel, unitName } from "../utils/units";
+
+const object = <P extends ObjectSchema["properties"]>(
+  properties: P,
+  description?: string
+): ObjectSchema & { properties: P } => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties),
+  description,
+});
+
+const number = (description?: string): NumberSchema => ({
+  type: "number",
+  description,
+});
+
+const percentage = (description?: string): NumberSchema => ({
+  type: "number",
+  minimum: 0,
+  maximum: 100,
+  description,
+});
+
+const string = (description?: string): StringSchema => ({
+  type: "string",
+  description,
+});
+
+const stringArray = (
+  description?: string
+): ArraySchema & { items: StringSchema } => ({
+  type: "array",
+  items: string(),
+  description,
+});
+
+const quarterly = (): ArraySchema & { items: NumberSchema } => ({
+  type: "array",
+  items: number(),
+  minItems: 4,
+  maxItems: 4,
+  description:
+    "Exactly four quarterly values: [Q1 (Jan-Mar), Q2 (Apr-Jun), Q3 (Jul-Sep), Q4 (Oct-Dec)]",
+});
+
+const graphData = (description: string) =>
+  object({
+    description: string(description),
+    year_minus_5: quarterly(),
+    year_minus_4: quarterly(),
+    year_minus_3: quarterly(),
+    year_minus_2: quarterly(),
+    year_minus_1: quarterly(),
+  });
+
+/**
+ * Runtime contract for the model-generated part of `WeatherResponse`, checked
+ * against the type at compile time. Optional fields the backend adds
+ * afterwards (`visual_crossing_data`, `metadata`, computed condition sources,
+ * observed graph series) are not part of it. Also sent to Gemini as the
+ * structured output schema. Unit-suffixed fields are metric whatever the
+ * request asked for; the descriptions give the requested `units` for graph
+ * values and long-term means, which carry no unit in their names.
+ */
+export const buildWeatherResponseSchema = (
+  units: UnitSystem
+): SchemaFor<WeatherResponse> =>
+  object({
+    request_parameters: object({
+      latitude: string(),
+      longitude: string(),
+      date: string(),
+    }),
+    overall_comfortability_score: object({
+      score: percentage(
+        "0 (Extremely Uncomfortable) to 100 (Extremely Comfortable)"
+      ),
+      summary: string("A brief summary like 'Pleasant', 'Very Hot'"),
+    }),
+    activities: object({
+      suggestions: stringArray(),
+      warnings: stringArray(),
+      reminders: stringArray(),
+    }),
+    weather_conditions: object({
+      general_conditions: object({
+        is_very_hot_percentage: percentage(),
+        is_very_cold_percentage: percentage(),
+        is_very_windy_percentage: percentage(),
+        is_very_wet_percentage: percentage(),
+      }),
+      specific_variables: object({
+        temperature_celsius: number(),
+        rainfall_mm: number(),
+        windspeed_kph: number(),
+        dust_concentration_ug_m3: number(),
+        snowfall_cm: number(),
+        snow_depth_cm: number(),
+        cloud_cover_percent: percentage(),
+        air_quality_index: number(),
+        humidity_percent: percentage(),
+      }),
+    }),
+    statistical_analysis: object({
+      threshold_probabilities: {
+        type: "array",
+        items: object({
+          description: string(
+            `Example: Chance of temperature exceeding ${formatQuantity(
+              35,
+              "temperature",
+              units
+            )}`
+          ),
+          percentage: percentage(),
+        }),
+      },
+      long_term_mean_comparison: {
+        type: "array",
+        items: object({
+          variable: string(
+            `Example: Temperature (${unitLabel("temperature", units)})`
+          ),
+          mean_value: number(
+            "Historical mean for this time of year, in the unit named in variable"
+          ),
+          deviation_from_mean: string(
+            "The deviation of the current/predicted value from the mean"
+          ),
+        }),
+      },
+      trend_estimation: object({
+        heavy_rain_trend: string("Increasing, Decreasing, or Stable"),
+        high_temperature_trend: string("Increasing, Decreasing, or Stable"),
+      }),
+    }),
+    temperature_graph_data: graphData(
+      `Quarterly average temperatures in ${unitName(
+        "temperature",
+        units
+      )} for the past 5 years`
+    ),
+    rain_graph_data: graphData(
+      `Quarterly total rainfall in ${unitName(
+        "precipitation",
+        units
+      )} for the past 5 years`
+    ),
+    snow_graph_data: graphData(
+      `Quarterly total snowfall in ${unitName("snow", units)} for the past 5 years`
+    ),
+  });
@@ -37,6 +37,17 @@ app.get("/", (req: Request, res: Response) => {
     endpoints: {
       health: "/api/health",
       weather: "/api/weather?latitude={lat}&longitude={lon}&date={DD-MM-YYYY}",
+      weatherRange:
+        "/api/weather/range?latitude={lat}&longitude={lon}&start={DD-MM-YYYY}&end={DD-MM-YYYY}",
+      weatherBestDates:
+        "/api/weather/best-dates?latitude={lat}&longitude={lon}&start={DD-MM-YYYY}&end={DD-MM-YYYY}&weekdays={sat,sun}",
+      weatherForecast:
+        "/api/weather/forecast?latitude={lat}&longitude={lon}&date={DD-MM-YYYY}&days={7}",
+      weatherArea: "POST /api/weather/area",
+      weatherCompare: "POST /api/weather/compare",
+      weatherStream:
+        "/api/weather/stream?latitude={lat}&longitude={lon}&date={DD-MM-YYYY}",
+      analyses: "POST /api/analyses, GET|DELETE /api/analyses/{id}",
     },
     documentation: "See README.md for full API documentation",
   });
@@ -73,6 +84,13 @@ app.listen(PORT, () => {
 ║   Endpoints:                                                   ║
 ║   - GET /api/health                                            ║
 ║   - GET /api/weather?latitude=X&longitude=Y&date=DD-MM-YYYY    ║
+║   - GET /api/weather/range?...&start=DD-MM-YYYY&end=DD-MM-YYYY ║
+║   - GET /api/weather/best-dates (range parameters + weekdays)  ║
+║   - GET /api/weather/forecast (near-term day-by-day forecast)  ║
+║   - POST /api/weather/area (date and polygon in JSON body)     ║
+║   - POST /api/weather/compare (date and venues in JSON body)   ║
+║   - GET /api/weather/stream (same parameters, SSE progress)    ║
+║   - POST /api/analyses, GET|DELETE /api/analyses/:id           ║
 ║                                                                ║
 ╚════════════════════════════════════════════════════════════════╝
   `);
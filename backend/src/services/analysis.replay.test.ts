@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import path from "node:path";
+import { before, describe, it } from "node:test";
+import { WeatherQuery } from "../types/weather.types";
+
+// Settings are read once when the config module loads, so they are pinned
+// here (over anything in .env) before the services are imported. Any change
+// to these, to the query below or to the prompt templates changes the
+// upstream requests and needs the fixtures re-recorded.
+Object.assign(process.env, {
+  UPSTREAM_MODE: "replay",
+  FIXTURES_DIR: path.join(__dirname, "__fixtures__"),
+  WEATHER_PROVIDER: "visualcrossing",
+  LLM_PROVIDER: "gemini",
+  LLM_MODEL: "gemini-flash-latest",
+  PROMPT_VERSION: "v1",
+  CACHE_DRIVER: "none",
+  GRAPH_GRANULARITY: "monthly",
+  GRAPH_HISTORY: "window",
+  MAX_GRAPH_YEARS: "5",
+});
+
+const query: WeatherQuery = {
+  latitude: "40.71",
+  longitude: "-74.01",
+  date: "15-07-2024",
+  years: 3,
+  window: 3,
+};
+
+describe("analysis replay", () => {
+  let analysisService: typeof import("./analysis.service").analysisService;
+
+  before(async () => {
+    ({ analysisService } = await import("./analysis.service"));
+  });
+
+  it("runs the full analysis from recorded fixtures", async () => {
+    const report = await analysisService.analyze(query);
+
+    assert.deepEqual(report.metadata?.analysis, {
+      mode: "full",
+      degraded: false,
+    });
+    assert.equal(report.metadata?.provider?.name, "visualcrossing");
+    assert.equal(report.metadata?.llm?.model, "gemini-flash-latest");
+    assert.deepEqual(
+      report.metadata?.historical?.yearsRequested,
+      [2021, 2022, 2023]
+    );
+    assert.equal(report.metadata?.historical?.sampleSize, 21);
+    assert.equal(report.overall_comfortability_score.score, 78);
+    assert.equal(report.visual_crossing_data?.actualData.temperature, 22.5);
+    assert.equal(report.temperature_graph_data.source, "observed");
+    assert.equal(report.temperature_graph_data.series?.length, 3);
+  });
+
+  it("returns the same report on every replay", async () => {
+    const first = await analysisService.analyze(query);
+    const second = await analysisService.analyze(query);
+
+    assert.deepEqual(second, first);
+  });
+
+  it("builds a data-only report from the same fixtures", async () => {
+    const report = await analysisService.analyze({
+      ...query,
+      mode: "data-only",
+    });
+
+    assert.deepEqual(report.metadata?.analysis, {
+      mode: "data-only",
+      degraded: true,
+    });
+    assert.equal(report.metadata?.llm, undefined);
+    assert.equal(report.temperature_graph_data.source, "observed");
+  });
+
+  it("fails with the expected fixture path for an unrecorded request", async () => {
+    await assert.rejects(
+      analysisService.analyze({ ...query, date: "16-07-2024" }),
+      /No recorded gemini fixture .*__fixtures__/
+    );
+  });
+});
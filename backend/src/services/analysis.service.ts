@@ -0,0 +1,353 @@
+import { config } from "../config/config";
+import { LlmProvider, PromptInfo } from "../types/llm.types";
+import {
+  AnalysisInfo,
+  EventWindowAnalysis,
+  PreliminaryReport,
+  ProgressListener,
+  ResponseMetadata,
+  VisualCrossingData,
+  WeatherQuery,
+  WeatherResponse,
+} from "../types/weather.types";
+import { toIsoDate } from "../utils/dates";
+import { climatologyService, StatisticalForecast } from "./climatology.service";
+import { conditionsService } from "./conditions.service";
+import { eventWindowService } from "./eventWindow.service";
+import { graphService, ObservedGraphs } from "./graph.service";
+import { llmAnalysisService } from "./llmAnalysis.service";
+import { getLlmProvider } from "./llmprovider.service";
+import { ruleBasedAnalysisService } from "./ruleBased.service";
+import { unitsService } from "./units.service";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+export interface AnalysisOptions {
+  onProgress?: ProgressListener;
+  /** Receives the data-driven parts of the report as soon as they exist */
+  onData?: (data: PreliminaryReport) => void;
+  /**
+   * Cancels the provider and model calls in flight and stops the analysis
+   * with an error
+   */
+  signal?: AbortSignal;
+}
+
+interface NarrativeResult {
+  response: WeatherResponse;
+  analysis: AnalysisInfo;
+  llm?: LlmProvider;
+  prompt?: PromptInfo;
+}
+
+export class AnalysisService {
+  private async getForecast(
+    query: WeatherQuery,
+    onProgress?: ProgressListener,
+    signal?: AbortSignal
+  ): Promise<StatisticalForecast | undefined> {
+    console.log("[Analysis] Fetching statistical forecast...");
+    try {
+      const forecast = await climatologyService.getStatisticalForecast(
+        query.latitude,
+        query.longitude,
+        query.date,
+        {
+          years: query.years ?? config.climatologyYears,
+          windowDays: query.window ?? config.climatologyWindowDays,
+          onProgress,
+          signal,
+        }
+      );
+      console.log(
+        `[Analysis] ${forecast.provider.displayName} data retrieved successfully`
+      );
+      return forecast;
+    } catch (error) {
+      console.warn(
+        "[Analysis] Weather data provider failed, proceeding without it:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      onProgress?.({
+        stage: "statistics",
+        message: "Historical data unavailable; continuing without it",
+        ok: false,
+      });
+      // Continue without provider data
+      return undefined;
+    }
+  }
+
+  private async getGraphs(
+    query: WeatherQuery,
+    forecast?: StatisticalForecast,
+    signal?: AbortSignal
+  ): Promise<ObservedGraphs | undefined> {
+    // Without a working provider the graphs fall back to the model's output
+    if (!forecast) return undefined;
+
+    try {
+      return await graphService.getObservedGraphs(
+        getWeatherDataProvider(forecast.provider.name),
+        query.latitude,
+        query.longitude,
+        toIsoDate(query.date),
+        query.years ?? config.climatologyYears,
+        forecast.cache,
+        query.units,
+        signal
+      );
+    } catch (error) {
+      console.warn(
+        "[Analysis] Observed graph data unavailable, using model output:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      return undefined;
+    }
+  }
+
+  private async getEventWindow(
+    query: WeatherQuery,
+    forecast?: StatisticalForecast,
+    signal?: AbortSignal
+  ): Promise<
+    Omit<EventWindowAnalysis, "day_comfortability_score"> | undefined
+  > {
+    if (!forecast || !query.startTime) return undefined;
+
+    try {
+      return await eventWindowService.getEventWindow(query, forecast, signal);
+    } catch (error) {
+      console.warn(
+        "[Analysis] Event window unavailable, scoring the whole day:",
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      return undefined;
+    }
+  }
+
+  private toProviderData(
+    forecast: StatisticalForecast
+  ): VisualCrossingData | undefined {
+    const targetDay = forecast.current || forecast.forecast;
+    if (!targetDay) return undefined;
+
+    return {
+      source: forecast.provider.displayName,
+      location: forecast.location,
+      actualData: {
+        temperature: targetDay.temp,
+        temperatureMax: targetDay.tempMax,
+        temperatureMin: targetDay.tempMin,
+        feelsLike: targetDay.feelsLike,
+        humidity: targetDay.humidity,
+        precipitation: targetDay.precip,
+        precipitationProbability: targetDay.precipProb,
+        snow: targetDay.snow,
+        snowDepth: targetDay.snowDepth,
+        windSpeed: targetDay.windSpeed,
+        windGust: targetDay.windGust,
+        cloudCover: targetDay.cloudCover,
+        uvIndex: targetDay.uvIndex,
+        visibility: targetDay.visibility,
+        pressure: targetDay.pressure,
+        conditions: targetDay.conditions,
+        description: targetDay.description,
+      },
+      historicalAverages: forecast.historicalData.monthlyAverages,
+      statistics: forecast.statistics,
+    };
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new Error("Analysis cancelled");
+    }
+  }
+
+  private toMetadata(
+    query: WeatherQuery,
+    forecast?: StatisticalForecast,
+    narrative?: NarrativeResult
+  ): ResponseMetadata {
+    const llm = narrative?.llm;
+    return {
+      analysis: narrative?.analysis,
+      units: query.units ?? "metric",
+      provider: forecast?.provider,
+      llm: llm && {
+        provider: llm.name,
+        displayName: llm.displayName,
+        model: llm.model,
+      },
+      prompt: narrative?.prompt,
+      cache: forecast?.cache,
+      historical: forecast && {
+        yearsRequested: forecast.historicalData.yearsRequested,
+        missingYears: forecast.historicalData.missingYears,
+        windowDays: forecast.historicalData.windowDays,
+        sampleSize: forecast.statistics.sampleSize,
+      },
+    };
+  }
+
+  /**
+   * Produces the narrative parts of the report: the LLM analysis, or the
+   * rule-based one for data-only requests and (when enabled) for failed LLM
+   * calls that still have provider data to work from.
+   */
+  private async getNarrative(
+    query: WeatherQuery,
+    forecast: StatisticalForecast | undefined,
+    onProgress?: ProgressListener,
+    signal?: AbortSignal
+  ): Promise<NarrativeResult> {
+    if (query.mode === "data-only") {
+      if (!forecast) {
+        throw new Error(
+          "Data-only analysis unavailable: no weather data could be retrieved"
+        );
+      }
+      return {
+        response: ruleBasedAnalysisService.buildResponse(query, forecast),
+        analysis: { mode: "data-only", degraded: true },
+      };
+    }
+
+    const llm = getLlmProvider();
+    console.log(`[Analysis] Calling ${llm.displayName} (${llm.model})...`);
+    onProgress?.({
+      stage: "gemini_started",
+      message: "Generating AI analysis",
+    });
+
+    try {
+      const { response, prompt } = await llmAnalysisService.getWeatherAnalysis(
+        query,
+        forecast,
+        llm,
+        signal
+      );
+      console.log(`[Analysis] ${llm.displayName} completed successfully`);
+      onProgress?.({
+        stage: "gemini_finished",
+        message: "AI analysis complete",
+        ok: true,
+      });
+      return {
+        response: unitsService.normalizeModelOutput(
+          response,
+          query.units ?? "metric"
+        ),
+        analysis: { mode: "full", degraded: false },
+        llm,
+        prompt,
+      };
+    } catch (error) {
+      // A cancelled analysis has no use for a fallback report
+      if (!forecast || !config.llmFallbackToDataOnly || signal?.aborted) {
+        throw error;
+      }
+
+      const fallbackReason =
+        error instanceof Error ? error.message : "Unknown error";
+      console.warn(
+        `[Analysis] ${llm.displayName} failed, falling back to rule-based analysis:`,
+        fallbackReason
+      );
+      onProgress?.({
+        stage: "gemini_finished",
+        message: "AI analysis unavailable; using rule-based analysis",
+        ok: false,
+      });
+      return {
+        response: ruleBasedAnalysisService.buildResponse(query, forecast),
+        analysis: { mode: "data-only", degraded: true, fallbackReason },
+      };
+    }
+  }
+
+  /**
+   * Data-only report from a forecast fetched by the caller. Graph data is
+   * left empty, since each graph year costs another provider request.
+   */
+  buildDataOnlyReport(
+    query: WeatherQuery,
+    forecast: StatisticalForecast
+  ): WeatherResponse {
+    const narrative: NarrativeResult = {
+      response: ruleBasedAnalysisService.buildResponse(query, forecast),
+      analysis: { mode: "data-only", degraded: true },
+    };
+
+    const weatherData = narrative.response;
+    conditionsService.applyComputedConditions(weatherData, forecast);
+    weatherData.visual_crossing_data = this.toProviderData(forecast);
+    weatherData.metadata = this.toMetadata(query, forecast, narrative);
+
+    return unitsService.convertReport(weatherData, query.units ?? "metric");
+  }
+
+  async analyze(
+    query: WeatherQuery,
+    { onProgress, onData, signal }: AnalysisOptions = {}
+  ): Promise<WeatherResponse> {
+    const units = query.units ?? "metric";
+    const forecast = await this.getForecast(query, onProgress, signal);
+    this.throwIfCancelled(signal);
+    const sendData = (data: PreliminaryReport) =>
+      onData?.(unitsService.convertReport(data, units));
+
+    if (forecast) {
+      sendData({
+        weather_conditions: {
+          general_conditions: conditionsService.computeGeneralConditions(
+            forecast.historicalData.samples
+          ),
+          thresholds: conditionsService.getThresholds(),
+        },
+        visual_crossing_data: this.toProviderData(forecast),
+        metadata: this.toMetadata(query, forecast),
+      });
+    }
+
+    const [narrative, graphs, eventWindow] = await Promise.all([
+      this.getNarrative(query, forecast, onProgress, signal),
+      this.getGraphs(query, forecast, signal).then((observed) => {
+        if (observed) {
+          sendData({
+            temperature_graph_data: observed.temperature || undefined,
+            rain_graph_data: observed.rain || undefined,
+            snow_graph_data: observed.snow || undefined,
+          });
+        }
+        return observed;
+      }),
+      this.getEventWindow(query, forecast, signal),
+    ]);
+    this.throwIfCancelled(signal);
+
+    const weatherData = narrative.response;
+    conditionsService.applyComputedConditions(weatherData, forecast);
+    graphService.applyObservedGraphs(weatherData, graphs);
+
+    // The narrative describes the whole day, but the headline score covers
+    // only the hours the event runs
+    if (eventWindow) {
+      weatherData.event_window = {
+        ...eventWindow,
+        day_comfortability_score: weatherData.overall_comfortability_score,
+      };
+      weatherData.overall_comfortability_score =
+        eventWindow.comfortability_score;
+    }
+
+    if (forecast) {
+      weatherData.visual_crossing_data = this.toProviderData(forecast);
+    }
+    weatherData.metadata = this.toMetadata(query, forecast, narrative);
+
+    return unitsService.convertReport(weatherData, units);
+  }
+}
+
+export const analysisService = new AnalysisService();
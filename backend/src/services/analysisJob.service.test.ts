@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { WeatherQuery, WeatherResponse } from "../types/weather.types";
+import { analysisService } from "./analysis.service";
+import { AnalysisJobService } from "./analysisJob.service";
+
+interface PendingAnalysis {
+  signal?: AbortSignal;
+  resolve: (report: WeatherResponse) => void;
+  reject: (error: Error) => void;
+}
+
+const query: WeatherQuery = {
+  latitude: "40.71",
+  longitude: "-74.01",
+  date: "15-07-2024",
+};
+
+// Lets the queue react to an analysis that just settled
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("AnalysisJobService", () => {
+  let pending: PendingAnalysis[];
+
+  beforeEach(() => {
+    pending = [];
+    // Analyses stay in flight until the test settles them, like slow
+    // provider or model calls
+    mock.method(
+      analysisService,
+      "analyze",
+      (_query: WeatherQuery, { signal }: { signal?: AbortSignal } = {}) =>
+        new Promise<WeatherResponse>((resolve, reject) =>
+          pending.push({ signal, resolve, reject })
+        )
+    );
+  });
+
+  afterEach(() => mock.restoreAll());
+
+  const jobs = (concurrency: number) =>
+    new AnalysisJobService({ concurrency, maxQueued: 10, ttlMs: 60000 });
+
+  it("aborts the analysis of a cancelled job", () => {
+    const service = jobs(1);
+    const job = service.create(query);
+
+    const cancelled = service.cancel(job.id);
+
+    assert.equal(cancelled?.status, "cancelled");
+    assert.equal(pending[0].signal?.aborted, true);
+  });
+
+  it("keeps a cancelled job's slot until its analysis stops", async () => {
+    const service = jobs(1);
+    const first = service.create(query);
+    service.cancel(first.id);
+
+    const second = service.create(query);
+    assert.equal(service.get(second.id)?.status, "queued");
+    assert.equal(service.getStats().running, 1);
+    assert.equal(pending.length, 1);
+
+    pending[0].reject(new Error("Analysis cancelled"));
+    await settle();
+
+    assert.equal(service.get(second.id)?.status, "running");
+    assert.equal(service.get(first.id)?.status, "cancelled");
+    assert.equal(service.getStats().running, 1);
+    assert.equal(pending.length, 2);
+  });
+
+  it("never runs more analyses than the concurrency limit", async () => {
+    const service = jobs(2);
+    for (let i = 0; i < 5; i++) {
+      service.cancel(service.create(query).id);
+    }
+
+    assert.equal(pending.length, 2);
+    assert.equal(service.getStats().running, 2);
+
+    pending.forEach((analysis) =>
+      analysis.reject(new Error("Analysis cancelled"))
+    );
+    await settle();
+
+    // The other three were cancelled while still queued and never start
+    assert.equal(pending.length, 2);
+    assert.equal(service.getStats().running, 0);
+  });
+
+  it("never starts a job cancelled while queued", async () => {
+    const service = jobs(1);
+    service.create(query);
+    const queued = service.create(query);
+    service.cancel(queued.id);
+
+    pending[0].resolve({} as WeatherResponse);
+    await settle();
+
+    assert.equal(pending.length, 1);
+    assert.equal(service.get(queued.id)?.status, "cancelled");
+  });
+});
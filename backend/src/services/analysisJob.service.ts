@@ -0,0 +1,201 @@
+import crypto from "crypto";
+import { config } from "../config/config";
+import {
+  AnalysisError,
+  AnalysisJobStatus,
+  AnalysisJobView,
+  AnalysisProgress,
+  PreliminaryReport,
+  WeatherQuery,
+  WeatherResponse,
+} from "../types/weather.types";
+import { describeAnalysisError } from "../utils/errors";
+import { analysisService } from "./analysis.service";
+
+export interface AnalysisJobQueueOptions {
+  concurrency: number;
+  maxQueued: number;
+  ttlMs: number;
+}
+
+interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  query: WeatherQuery;
+  createdAt: number;
+  startedAt: number | null;
+  finishedAt: number | null;
+  progress: AnalysisProgress[];
+  preliminary: PreliminaryReport;
+  result: WeatherResponse | null;
+  error: AnalysisError | null;
+  controller: AbortController;
+}
+
+const isFinished = (job: AnalysisJob) =>
+  job.status === "completed" ||
+  job.status === "failed" ||
+  job.status === "cancelled";
+
+const toIso = (time: number | null) =>
+  time === null ? null : new Date(time).toISOString();
+
+/**
+ * In-process queue of analysis jobs. At most `concurrency` analyses run at
+ * once; the rest wait in FIFO order. Finished jobs are kept for `ttlMs` so
+ * clients can collect the result, then dropped.
+ */
+export class AnalysisJobService {
+  private jobs = new Map<string, AnalysisJob>();
+  private queue: AnalysisJob[] = [];
+  private running = 0;
+
+  constructor(private options: AnalysisJobQueueOptions) {}
+
+  private prune(): void {
+    const cutoff = Date.now() - this.options.ttlMs;
+    this.jobs.forEach((job, id) => {
+      if (isFinished(job) && (job.finishedAt || 0) < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+
+  private toView(job: AnalysisJob): AnalysisJobView {
+    const queueIndex = this.queue.indexOf(job);
+    return {
+      id: job.id,
+      status: job.status,
+      query: job.query,
+      createdAt: new Date(job.createdAt).toISOString(),
+      startedAt: toIso(job.startedAt),
+      finishedAt: toIso(job.finishedAt),
+      queuePosition: queueIndex === -1 ? null : queueIndex + 1,
+      progress: job.progress,
+      preliminary: job.preliminary,
+      result: job.result,
+      error: job.error,
+    };
+  }
+
+  private pump(): void {
+    while (this.running < this.options.concurrency && this.queue.length > 0) {
+      const job = this.queue.shift() as AnalysisJob;
+      this.running++;
+      // The slot is held until the analysis settles, cancelled or not, so
+      // cancelled work still counts against the concurrency limit
+      this.execute(job).finally(() => {
+        this.running--;
+        this.pump();
+      });
+    }
+  }
+
+  private async execute(job: AnalysisJob): Promise<void> {
+    job.status = "running";
+    job.startedAt = Date.now();
+    console.log(`[Jobs] Running analysis job ${job.id}`);
+
+    try {
+      const result = await analysisService.analyze(job.query, {
+        onProgress: (progress) => job.progress.push(progress),
+        onData: (data) => {
+          job.preliminary = { ...job.preliminary, ...data };
+        },
+        signal: job.controller.signal,
+      });
+      // A cancelled job keeps its cancelled status and drops the result
+      if (job.status !== "running") return;
+      job.result = result;
+      job.status = "completed";
+      job.finishedAt = Date.now();
+      console.log(`[Jobs] Analysis job ${job.id} completed`);
+    } catch (error) {
+      if (job.status !== "running") return;
+      job.error = describeAnalysisError(error);
+      job.status = "failed";
+      job.finishedAt = Date.now();
+      console.warn(
+        `[Jobs] Analysis job ${job.id} failed:`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+
+  /**
+   * Queues an analysis and returns immediately. Throws when the queue is
+   * already holding `maxQueued` jobs.
+   */
+  create(query: WeatherQuery): AnalysisJobView {
+    this.prune();
+
+    if (this.queue.length >= this.options.maxQueued) {
+      throw new Error(
+        `Analysis queue is full (${this.options.maxQueued} jobs waiting)`
+      );
+    }
+
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      status: "queued",
+      query,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+      progress: [],
+      preliminary: {},
+      result: null,
+      error: null,
+      controller: new AbortController(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.queue.push(job);
+    console.log(
+      `[Jobs] Queued analysis job ${job.id} (${this.queue.length} waiting, ${this.running} running)`
+    );
+    this.pump();
+
+    return this.toView(job);
+  }
+
+  get(id: string): AnalysisJobView | undefined {
+    this.prune();
+    const job = this.jobs.get(id);
+    return job && this.toView(job);
+  }
+
+  /**
+   * Cancels a queued or running job. A running analysis aborts its provider
+   * and model calls; its slot is freed once they have stopped, which lets
+   * the next queued job start. Finished jobs are returned unchanged.
+   */
+  cancel(id: string): AnalysisJobView | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (!isFinished(job)) {
+      this.queue = this.queue.filter((queued) => queued !== job);
+      job.controller.abort();
+      job.status = "cancelled";
+      job.finishedAt = Date.now();
+      console.log(`[Jobs] Cancelled analysis job ${job.id}`);
+    }
+
+    return this.toView(job);
+  }
+
+  getStats(): { queued: number; running: number; maxQueued: number } {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      maxQueued: this.options.maxQueued,
+    };
+  }
+}
+
+export const analysisJobService = new AnalysisJobService({
+  concurrency: config.analysisJobConcurrency,
+  maxQueued: config.analysisJobMaxQueued,
+  ttlMs: config.analysisJobTtlMs,
+});
@@ -0,0 +1,213 @@
+import { config } from "../config/config";
+import { DailyObservation } from "../types/provider.types";
+import {
+  AreaAnalysisResponse,
+  AreaCell,
+  AreaQuery,
+  AreaVariable,
+  CacheMetadata,
+  GeoPoint,
+  SpatialSpread,
+  UnitSystem,
+} from "../types/weather.types";
+import { createLimiter, mapWithConcurrency } from "../utils/concurrency";
+import { polygonAreaSqKm, sampleGrid } from "../utils/geometry";
+import { mean, round2, standardDeviation } from "../utils/statistics";
+import { addUnitNeutralFields } from "../utils/units";
+import {
+  climatologyService,
+  createCacheMetadata,
+  StatisticalForecast,
+} from "./climatology.service";
+import { conditionsService } from "./conditions.service";
+import { ruleBasedAnalysisService } from "./ruleBased.service";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+const AREA_VARIABLES: Record<AreaVariable, (cell: AreaCell) => number | null> =
+  {
+    comfort_score: (cell) => cell.comfortability_score.score,
+    temperature_celsius: (cell) => cell.expected_conditions.temperature_celsius,
+    rainfall_mm: (cell) => cell.expected_conditions.rainfall_mm,
+    windspeed_kph: (cell) => cell.expected_conditions.windspeed_kph,
+  };
+
+interface SampledCell {
+  cell: AreaCell;
+  samples: DailyObservation[];
+  cache: CacheMetadata;
+  yearsRequested: number[];
+  missingYears: number[];
+}
+
+/**
+ * Area mode: runs the statistical pipeline at a grid of points inside a
+ * polygon and aggregates them into the area mean, the worst point and the
+ * spread between points.
+ */
+export class AreaAnalysisService {
+  private toCell(
+    point: GeoPoint,
+    forecast: StatisticalForecast,
+    units: UnitSystem
+  ): AreaCell {
+    const expected = ruleBasedAnalysisService.getExpectedConditions(forecast);
+    return {
+      ...point,
+      comfortability_score: ruleBasedAnalysisService.getComfortScore(
+        expected,
+        units
+      ),
+      basis: expected.basis,
+      expected_conditions: ruleBasedAnalysisService.toDayConditions(expected),
+      general_conditions: conditionsService.computeGeneralConditions(
+        forecast.historicalData.samples
+      ),
+      sample_size: forecast.statistics.sampleSize,
+    };
+  }
+
+  private getSpread(values: number[]): SpatialSpread {
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    return {
+      min: round2(min),
+      max: round2(max),
+      range: round2(max - min),
+      standard_deviation: round2(standardDeviation(values)),
+    };
+  }
+
+  private mergeCaches(caches: CacheMetadata[]): CacheMetadata {
+    return caches.reduce(
+      (total, cache) => ({
+        hits: total.hits + cache.hits,
+        misses: total.misses + cache.misses,
+        queryCost: total.queryCost + cache.queryCost,
+        queryCostSaved: total.queryCostSaved + cache.queryCostSaved,
+      }),
+      createCacheMetadata()
+    );
+  }
+
+  async analyzeArea(query: AreaQuery): Promise<AreaAnalysisResponse> {
+    const provider = getWeatherDataProvider();
+    const years = query.years ?? config.climatologyYears;
+    const windowDays = query.window ?? config.climatologyWindowDays;
+    const units = query.units ?? "metric";
+    const points = sampleGrid(query.polygon, config.areaGridSize);
+
+    console.log(
+      `[Area] Sampling ${points.length} points inside a ${query.polygon.length}-vertex polygon for ${query.date}`
+    );
+
+    // All points share one HISTORICAL_FETCH_CONCURRENCY budget
+    const limiter = createLimiter(config.historicalFetchConcurrency);
+    const results = await mapWithConcurrency(
+      points,
+      points.length,
+      async (point): Promise<SampledCell> => {
+        const forecast = await climatologyService.getStatisticalForecast(
+          String(point.latitude),
+          String(point.longitude),
+          query.date,
+          { years, windowDays, limiter }
+        );
+        return {
+          cell: this.toCell(point, forecast, units),
+          samples: forecast.historicalData.samples,
+          cache: forecast.cache,
+          yearsRequested: forecast.historicalData.yearsRequested,
+          missingYears: forecast.historicalData.missingYears,
+        };
+      }
+    );
+
+    const sampled: SampledCell[] = [];
+    const failedPoints: AreaAnalysisResponse["failed_points"] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        sampled.push(result.value);
+        return;
+      }
+      const error =
+        result.reason instanceof Error
+          ? result.reason.message
+          : "Unknown error";
+      console.warn(
+        `[Area] Could not analyse ${points[index].latitude}, ${points[index].longitude}:`,
+        error
+      );
+      failedPoints.push({ ...points[index], error });
+    });
+
+    if (sampled.length === 0) {
+      throw new Error(
+        "Area analysis unavailable: no weather data could be retrieved for any sample point"
+      );
+    }
+
+    const cells = sampled.map(({ cell }) => cell);
+    const areaMean: AreaAnalysisResponse["aggregate"]["area_mean"] = {};
+    const spread: AreaAnalysisResponse["aggregate"]["spatial_spread"] = {};
+    (Object.keys(AREA_VARIABLES) as AreaVariable[]).forEach((variable) => {
+      const values = cells
+        .map(AREA_VARIABLES[variable])
+        .filter((value): value is number => value !== null);
+      if (values.length === 0) return;
+      areaMean[variable] = round2(mean(values));
+      spread[variable] = this.getSpread(values);
+    });
+
+    const worst = cells.reduce((lowest, cell) =>
+      cell.comfortability_score.score < lowest.comfortability_score.score
+        ? cell
+        : lowest
+    );
+
+    const response: AreaAnalysisResponse = {
+      request_parameters: {
+        date: query.date,
+        polygon: query.polygon,
+        area_sq_km: round2(polygonAreaSqKm(query.polygon)),
+      },
+      sample_points: cells.map(({ latitude, longitude }) => ({
+        latitude,
+        longitude,
+      })),
+      failed_points: failedPoints,
+      cells,
+      aggregate: {
+        area_mean: areaMean,
+        area_general_conditions: conditionsService.computeGeneralConditions(
+          sampled.flatMap(({ samples }) => samples)
+        ),
+        worst_cell: {
+          latitude: worst.latitude,
+          longitude: worst.longitude,
+          score: worst.comfortability_score.score,
+          summary: worst.comfortability_score.summary,
+        },
+        spatial_spread: spread,
+      },
+      thresholds: conditionsService.getThresholds(),
+      metadata: {
+        provider: { name: provider.name, displayName: provider.displayName },
+        cache: this.mergeCaches(sampled.map(({ cache }) => cache)),
+        historical: {
+          yearsRequested: sampled[0].yearsRequested,
+          // Years missing at any of the points
+          missingYears: [
+            ...new Set(sampled.flatMap(({ missingYears }) => missingYears)),
+          ].sort((a, b) => a - b),
+          windowDays,
+          sampleSize: cells.reduce((sum, cell) => sum + cell.sample_size, 0),
+        },
+        units,
+      },
+    };
+
+    return addUnitNeutralFields(response, units);
+  }
+}
+
+export const areaAnalysisService = new AreaAnalysisService();
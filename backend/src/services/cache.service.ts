@@ -0,0 +1,235 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { config } from "../config/config";
+import { CacheMetadata } from "../types/weather.types";
+
+export interface CacheEntry<T> {
+  value: T;
+  expiresAt: number | null;
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, value: T, ttlMs: number | null): Promise<void>;
+}
+
+const toExpiry = (ttlMs: number | null): number | null =>
+  ttlMs === null ? null : Date.now() + ttlMs;
+
+const isExpired = (entry: CacheEntry<unknown>): boolean =>
+  entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+export class MemoryLruCache implements CacheStore {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  constructor(private maxEntries: number) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (isExpired(entry)) return undefined;
+
+    // Re-insert so the Map's insertion order tracks recency of use
+    this.entries.set(key, entry);
+    return entry as CacheEntry<T>;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number | null): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: toExpiry(ttlMs) });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+}
+
+export class FileCache implements CacheStore {
+  constructor(private directory: string) {}
+
+  private filePath(key: string): string {
+    const hash = crypto.createHash("sha1").update(key).digest("hex");
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      const raw = await fs.readFile(this.filePath(key), "utf-8");
+      const entry = JSON.parse(raw) as CacheEntry<T>;
+      return isExpired(entry) ? undefined : entry;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(
+          `[Cache] Could not read cache file for ${key}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+      return undefined;
+    }
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number | null): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: toExpiry(ttlMs) };
+    const target = this.filePath(key);
+    const temp = `${target}.${process.pid}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(entry), "utf-8");
+    await fs.rename(temp, target);
+  }
+}
+
+/**
+ * Memory LRU in front of a persistent store. Entries found only in the
+ * persistent store are promoted into memory with their remaining lifetime.
+ */
+export class TieredCache implements CacheStore {
+  constructor(private front: CacheStore, private back: CacheStore) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const cached = await this.front.get<T>(key);
+    if (cached) return cached;
+
+    const stored = await this.back.get<T>(key);
+    if (stored) {
+      const remaining =
+        stored.expiresAt === null ? null : stored.expiresAt - Date.now();
+      await this.front.set(key, stored.value, remaining);
+    }
+    return stored;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number | null): Promise<void> {
+    await this.front.set(key, value, ttlMs);
+    await this.back.set(key, value, ttlMs);
+  }
+}
+
+export class NoopCache implements CacheStore {
+  async get<T>(): Promise<CacheEntry<T> | undefined> {
+    return undefined;
+  }
+
+  async set(): Promise<void> {}
+}
+
+export function createCacheStore(): CacheStore {
+  switch (config.cacheDriver) {
+    case "none":
+      return new NoopCache();
+    case "file":
+      return new TieredCache(
+        new MemoryLruCache(config.cacheMaxEntries),
+        new FileCache(path.resolve(config.cacheDir))
+      );
+    default:
+      return new MemoryLruCache(config.cacheMaxEntries);
+  }
+}
+
+export const weatherCache = createCacheStore();
+
+interface CacheRange {
+  source: string;
+  latitude: string;
+  longitude: string;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface CachedRangeFetchOptions<T> extends CacheRange {
+  cacheMetadata?: CacheMetadata;
+  queryCost?: (value: T) => number;
+  // False when the provider left days out; such ranges are not kept forever
+  isComplete?: (value: T) => boolean;
+}
+
+const buildCacheKey = ({
+  source,
+  latitude,
+  longitude,
+  startDate,
+  endDate,
+}: CacheRange): string => {
+  const precision = config.cacheCoordinatePrecision;
+  const lat = parseFloat(latitude).toFixed(precision);
+  const lon = parseFloat(longitude).toFixed(precision);
+  return `${source}:${lat},${lon}:${startDate}/${endDate || startDate}`;
+};
+
+// Providers revise recent observations and fill in days they had not
+// processed yet, so only ranges ending more than `recentDataLagDays` ago are
+// kept forever. Recent, current and forecast ranges get the forecast TTL.
+const getCacheTtl = (
+  startDate: string,
+  endDate: string | undefined,
+  complete: boolean
+): number | null => {
+  const settled = new Date();
+  settled.setUTCDate(settled.getUTCDate() - config.recentDataLagDays);
+  const settledDate = settled.toISOString().split("T")[0];
+  return complete && (endDate || startDate) < settledDate
+    ? null
+    : config.forecastCacheTtlMs;
+};
+
+/**
+ * Serves a provider response for a coordinate/date range from the weather
+ * cache, falling back to `fetcher` on a miss. Cache failures are logged and
+ * never fail the request.
+ */
+export async function cachedRangeFetch<T>(
+  options: CachedRangeFetchOptions<T>,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const { cacheMetadata, queryCost, isComplete } = options;
+  const cacheKey = buildCacheKey(options);
+
+  try {
+    const cached = await weatherCache.get<T>(cacheKey);
+    if (cached) {
+      console.log(`[Cache] Hit for ${cacheKey}`);
+      if (cacheMetadata) {
+        cacheMetadata.hits++;
+        cacheMetadata.queryCostSaved += queryCost?.(cached.value) || 0;
+      }
+      return cached.value;
+    }
+  } catch (cacheError) {
+    console.warn(
+      `[Cache] Lookup failed for ${cacheKey}:`,
+      cacheError instanceof Error ? cacheError.message : "Unknown error"
+    );
+  }
+
+  const value = await fetcher();
+
+  if (cacheMetadata) {
+    cacheMetadata.misses++;
+    cacheMetadata.queryCost += queryCost?.(value) || 0;
+  }
+
+  try {
+    await weatherCache.set(
+      cacheKey,
+      value,
+      getCacheTtl(
+        options.startDate,
+        options.endDate,
+        isComplete ? isComplete(value) : true
+      )
+    );
+  } catch (cacheError) {
+    console.warn(
+      `[Cache] Could not store response for ${cacheKey}:`,
+      cacheError instanceof Error ? cacheError.message : "Unknown error"
+    );
+  }
+
+  return value;
+}
@@ -0,0 +1,382 @@
+import { config } from "../config/config";
+import { CacheMetadata, ProgressListener } from "../types/weather.types";
+import {
+  DailyObservation,
+  ProviderInfo,
+  ProviderLocation,
+  WeatherDataProvider,
+} from "../types/provider.types";
+import { Limiter, mapWithConcurrency } from "../utils/concurrency";
+import { shiftDays, toIsoDate } from "../utils/dates";
+import { presentValues, round2 } from "../utils/statistics";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+export interface StatisticalForecast {
+  date: string;
+  provider: ProviderInfo;
+  location: ProviderLocation;
+  current: DailyObservation | null;
+  forecast: DailyObservation | null;
+  historicalData: {
+    pastYears: DailyObservation[];
+    samples: DailyObservation[];
+    windowDays: number;
+    yearsRequested: number[];
+    missingYears: number[];
+    monthlyAverages: {
+      temperature: number;
+      precipitation: number;
+      humidity: number;
+      windspeed: number;
+    };
+  };
+  statistics: {
+    temperatureStats: {
+      mean: number;
+      min: number;
+      max: number;
+      standardDeviation: number;
+    };
+    precipitationStats: {
+      totalMean: number;
+      probability: number;
+      maxRecorded: number;
+    };
+    trends: {
+      temperatureTrend: string;
+      precipitationTrend: string;
+    };
+    sampleSize: number;
+  };
+  cache: CacheMetadata;
+}
+
+export interface ClimatologyOptions {
+  years: number;
+  windowDays: number;
+  onProgress?: ProgressListener;
+  /** Shared limit on provider calls, on top of HISTORICAL_FETCH_CONCURRENCY */
+  limiter?: Limiter;
+  /** Cancels the provider calls still pending */
+  signal?: AbortSignal;
+}
+
+interface HistoricalYear {
+  year: number;
+  anniversary: DailyObservation;
+  days: DailyObservation[];
+}
+
+interface HistoricalFetchResult {
+  location: ProviderLocation | null;
+  years: HistoricalYear[];
+  yearsRequested: number[];
+  missingYears: number[];
+}
+
+export const createCacheMetadata = (): CacheMetadata => ({
+  hits: 0,
+  misses: 0,
+  queryCost: 0,
+  queryCostSaved: 0,
+});
+
+const average = (values: (number | null)[]): number => {
+  const present = presentValues(values);
+  if (present.length === 0) return 0;
+  return round2(present.reduce((sum, v) => sum + v, 0) / present.length);
+};
+
+export class ClimatologyService {
+  private limit<R>(
+    options: ClimatologyOptions,
+    task: () => Promise<R>
+  ): Promise<R> {
+    return options.limiter ? options.limiter(task) : task();
+  }
+
+  /**
+   * Fetches one ranged call per past year covering the ±windowDays window
+   * around the target day-of-year.
+   */
+  private async getHistoricalData(
+    provider: WeatherDataProvider,
+    latitude: string,
+    longitude: string,
+    targetDate: string,
+    options: ClimatologyOptions,
+    cacheMetadata: CacheMetadata
+  ): Promise<HistoricalFetchResult> {
+    const [year, month, day] = targetDate.split("-");
+    const targetYear = parseInt(year);
+    const yearsRequested = Array.from(
+      { length: options.years },
+      (_, i) => targetYear - options.years + i
+    );
+    let location: ProviderLocation | null = null;
+    let completed = 0;
+
+    const reportYear = (year: number, ok: boolean) =>
+      options.onProgress?.({
+        stage: "historical_year",
+        message: `${ok ? "Fetched" : "Could not fetch"} ${year}`,
+        year,
+        completed: ++completed,
+        total: yearsRequested.length,
+        ok,
+      });
+
+    const results = await mapWithConcurrency(
+      yearsRequested,
+      config.historicalFetchConcurrency,
+      async (historicalYear): Promise<HistoricalYear> => {
+        const anniversaryDate = `${historicalYear}-${month}-${day}`;
+        try {
+          const data = await this.limit(options, () =>
+            provider.fetchDaily(
+              latitude,
+              longitude,
+              shiftDays(anniversaryDate, -options.windowDays),
+              options.windowDays > 0
+                ? shiftDays(anniversaryDate, options.windowDays)
+                : undefined,
+              cacheMetadata,
+              options.signal
+            )
+          );
+          if (data.days.length === 0) {
+            throw new Error("No days returned");
+          }
+          location = location || data.location;
+          reportYear(historicalYear, true);
+          return {
+            year: historicalYear,
+            anniversary:
+              data.days.find((d) => d.date === anniversaryDate) ||
+              data.days[Math.floor(data.days.length / 2)],
+            days: data.days,
+          };
+        } catch (error) {
+          reportYear(historicalYear, false);
+          throw error;
+        }
+      }
+    );
+
+    const years: HistoricalYear[] = [];
+    const missingYears: number[] = [];
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        years.push(result.value);
+        return;
+      }
+
+      missingYears.push(yearsRequested[index]);
+      console.warn(
+        `[Climatology] Could not fetch historical data for ${yearsRequested[index]}-${month}-${day} from ${provider.displayName}:`,
+        result.reason instanceof Error ? result.reason.message : "Unknown error"
+      );
+    });
+
+    return { location, years, yearsRequested, missingYears };
+  }
+
+  private calculateStatistics(
+    historicalData: DailyObservation[],
+    years: HistoricalYear[]
+  ) {
+    if (historicalData.length === 0) {
+      return {
+        temperatureStats: {
+          mean: 0,
+          min: 0,
+          max: 0,
+          standardDeviation: 0,
+        },
+        precipitationStats: {
+          totalMean: 0,
+          probability: 0,
+          maxRecorded: 0,
+        },
+        trends: {
+          temperatureTrend: "Stable",
+          precipitationTrend: "Stable",
+        },
+        sampleSize: 0,
+      };
+    }
+
+    const temps = historicalData.map((d) => d.temp);
+    const tempMean = temps.reduce((a, b) => a + b, 0) / temps.length;
+    const tempMin = Math.min(...temps);
+    const tempMax = Math.max(...temps);
+    const tempVariance =
+      temps.reduce((sum, t) => sum + Math.pow(t - tempMean, 2), 0) /
+      temps.length;
+    const tempStdDev = Math.sqrt(tempVariance);
+
+    const precips = historicalData.map((d) => d.precip);
+    const precipMean = precips.reduce((a, b) => a + b, 0) / precips.length;
+    const precipMax = Math.max(...precips);
+    const daysWithPrecip = precips.filter((p) => p > 0).length;
+    const precipProbability = (daysWithPrecip / precips.length) * 100;
+
+    const calculateTrend = (values: number[]): string => {
+      if (values.length < 2) return "Stable";
+      const n = values.length;
+      const sumX = ((n - 1) * n) / 2; // 0 + 1 + 2 + ... + (n-1)
+      const sumY = values.reduce((a, b) => a + b, 0);
+      const sumXY = values.reduce((sum, y, x) => sum + x * y, 0);
+      const sumX2 = ((n - 1) * n * (2 * n - 1)) / 6; // Sum of squares
+
+      const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
+
+      if (slope > 0.1) return "Increasing";
+      if (slope < -0.1) return "Decreasing";
+      return "Stable";
+    };
+
+    // Trends run over per-year window means, oldest year first
+    const yearlyTemps = years.map((y) => average(y.days.map((d) => d.temp)));
+    const yearlyPrecips = years.map((y) =>
+      average(y.days.map((d) => d.precip))
+    );
+
+    return {
+      temperatureStats: {
+        mean: round2(tempMean),
+        min: round2(tempMin),
+        max: round2(tempMax),
+        standardDeviation: round2(tempStdDev),
+      },
+      precipitationStats: {
+        totalMean: round2(precipMean),
+        probability: round2(precipProbability),
+        maxRecorded: round2(precipMax),
+      },
+      trends: {
+        temperatureTrend: calculateTrend(yearlyTemps),
+        precipitationTrend: calculateTrend(yearlyPrecips),
+      },
+      sampleSize: historicalData.length,
+    };
+  }
+
+  async getStatisticalForecast(
+    latitude: string,
+    longitude: string,
+    date: string,
+    options: ClimatologyOptions = {
+      years: config.climatologyYears,
+      windowDays: config.climatologyWindowDays,
+    },
+    provider: WeatherDataProvider = getWeatherDataProvider()
+  ): Promise<StatisticalForecast> {
+    try {
+      console.log(
+        `[Climatology] Getting statistical forecast from ${provider.displayName} for ${latitude}, ${longitude} on ${date} (${options.years} years, ±${options.windowDays} days)`
+      );
+
+      const isoDate = toIsoDate(date);
+      const currentDate = new Date();
+      const targetDate = new Date(isoDate);
+      const isFuture = targetDate > currentDate;
+
+      const cache = createCacheMetadata();
+
+      let targetDay: DailyObservation | null = null;
+      let location: ProviderLocation | null = null;
+      if (!isFuture || provider.supportsForecast) {
+        options.onProgress?.({
+          stage: "target_day",
+          message: `Fetching ${isoDate} from ${provider.displayName}`,
+        });
+        try {
+          const mainData = await this.limit(options, () =>
+            provider.fetchDaily(
+              latitude,
+              longitude,
+              isoDate,
+              undefined,
+              cache,
+              options.signal
+            )
+          );
+          targetDay = mainData.days[0] || null;
+          location = mainData.location;
+          options.onProgress?.({
+            stage: "target_day",
+            message: `Fetched ${isoDate} from ${provider.displayName}`,
+            ok: true,
+          });
+        } catch (error) {
+          options.onProgress?.({
+            stage: "target_day",
+            message: `${provider.displayName} has no data for ${isoDate}`,
+            ok: false,
+          });
+          console.warn(
+            `[Climatology] ${provider.displayName} has no data for ${isoDate}:`,
+            error instanceof Error ? error.message : "Unknown error"
+          );
+        }
+      }
+
+      const historical = await this.getHistoricalData(
+        provider,
+        latitude,
+        longitude,
+        isoDate,
+        options,
+        cache
+      );
+      const { years, yearsRequested, missingYears } = historical;
+      const historicalData = years.flatMap((y) => y.days);
+
+      location = location || historical.location;
+      if (!location) {
+        throw new Error(
+          `${provider.displayName} returned no data for ${latitude}, ${longitude}`
+        );
+      }
+
+      const statistics = this.calculateStatistics(historicalData, years);
+      options.onProgress?.({
+        stage: "statistics",
+        message: `Computed statistics from ${statistics.sampleSize} historical days`,
+        ok: true,
+      });
+
+      const monthlyAverages = {
+        temperature: average(historicalData.map((d) => d.temp)),
+        precipitation: average(historicalData.map((d) => d.precip)),
+        humidity: average(historicalData.map((d) => d.humidity)),
+        windspeed: average(historicalData.map((d) => d.windSpeed)),
+      };
+
+      return {
+        date,
+        provider: { name: provider.name, displayName: provider.displayName },
+        location,
+        current: !isFuture ? targetDay : null,
+        forecast: isFuture ? targetDay : null,
+        historicalData: {
+          pastYears: years.map((y) => y.anniversary),
+          samples: historicalData,
+          windowDays: options.windowDays,
+          yearsRequested,
+          missingYears,
+          monthlyAverages,
+        },
+        statistics,
+        cache,
+      };
+    } catch (error) {
+      console.error("[Climatology] Error getting statistical forecast:", error);
+      throw error;
+    }
+  }
+}
+
+export const climatologyService = new ClimatologyService();
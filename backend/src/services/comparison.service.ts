@@ -0,0 +1,136 @@
+import { config } from "../config/config";
+import {
+  ComparisonQuery,
+  ComparisonResponse,
+  FailedVenue,
+  VenueComparison,
+  VenueQuery,
+} from "../types/weather.types";
+import {
+  createLimiter,
+  Limiter,
+  mapWithConcurrency,
+} from "../utils/concurrency";
+import { round2 } from "../utils/statistics";
+import { analysisService } from "./analysis.service";
+import { climatologyService } from "./climatology.service";
+
+// Share of the ranking score taken by each factor; each factor is 0-100
+const RANKING_WEIGHTS = {
+  comfort: 0.5,
+  rain: 0.3,
+  temperature_risk: 0.2,
+};
+
+type VenueScores = Omit<VenueComparison, "rank">;
+
+/**
+ * Runs the statistical pipeline for several candidate venues on one date and
+ * ranks them. All venues share one HISTORICAL_FETCH_CONCURRENCY budget, so a
+ * comparison puts no more load on the provider than a single analysis.
+ */
+export class ComparisonService {
+  private async scoreVenue(
+    venue: VenueQuery,
+    query: ComparisonQuery,
+    limiter: Limiter
+  ): Promise<VenueScores> {
+    const weatherQuery = {
+      latitude: venue.latitude,
+      longitude: venue.longitude,
+      date: query.date,
+      years: query.years,
+      window: query.window,
+      units: query.units,
+      mode: "data-only" as const,
+    };
+    const forecast = await climatologyService.getStatisticalForecast(
+      venue.latitude,
+      venue.longitude,
+      query.date,
+      {
+        years: query.years ?? config.climatologyYears,
+        windowDays: query.window ?? config.climatologyWindowDays,
+        limiter,
+      }
+    );
+    const report = analysisService.buildDataOnlyReport(weatherQuery, forecast);
+
+    const general = report.weather_conditions.general_conditions;
+    const targetDay = forecast.current || forecast.forecast;
+    // A forecast's own precipitation chance beats the historical frequency
+    const rainProbability =
+      targetDay?.precipProb ??
+      forecast.statistics.precipitationStats.probability;
+    const comfortScore = report.overall_comfortability_score.score;
+    const temperatureRisk = Math.min(
+      100,
+      general.is_very_hot_percentage + general.is_very_cold_percentage
+    );
+
+    return {
+      venue,
+      ranking_score: round2(
+        RANKING_WEIGHTS.comfort * comfortScore +
+          RANKING_WEIGHTS.rain * (100 - rainProbability) +
+          RANKING_WEIGHTS.temperature_risk * (100 - temperatureRisk)
+      ),
+      comfort_score: comfortScore,
+      rain_probability: rainProbability,
+      heat_risk: general.is_very_hot_percentage,
+      cold_risk: general.is_very_cold_percentage,
+      report,
+    };
+  }
+
+  async compareVenues(query: ComparisonQuery): Promise<ComparisonResponse> {
+    console.log(
+      `[Compare] Comparing ${query.venues.length} venues for ${query.date}`
+    );
+
+    const limiter = createLimiter(config.historicalFetchConcurrency);
+    // Every venue starts at once; the shared limiter does the throttling
+    const results = await mapWithConcurrency(
+      query.venues,
+      query.venues.length,
+      (venue) => this.scoreVenue(venue, query, limiter)
+    );
+
+    const scored: VenueScores[] = [];
+    const failed: FailedVenue[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        scored.push(result.value);
+        return;
+      }
+      const error =
+        result.reason instanceof Error
+          ? result.reason.message
+          : "Unknown error";
+      console.warn(
+        `[Compare] Could not analyse ${query.venues[index].latitude}, ${query.venues[index].longitude}:`,
+        error
+      );
+      failed.push({ venue: query.venues[index], error });
+    });
+
+    if (scored.length === 0) {
+      throw new Error(
+        "Venue comparison unavailable: no weather data could be retrieved for any venue"
+      );
+    }
+
+    const venues: VenueComparison[] = scored
+      .sort((a, b) => b.ranking_score - a.ranking_score)
+      .map((venue, index) => ({ rank: index + 1, ...venue }));
+
+    return {
+      request_parameters: { date: query.date, venues: query.venues },
+      venues,
+      failed,
+      ranking_weights: RANKING_WEIGHTS,
+    };
+  }
+}
+
+export const comparisonService = new ComparisonService();
@@ -0,0 +1,171 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { config } from "../config/config";
+import { DailyObservation } from "../types/provider.types";
+import { SpecificVariables, WeatherResponse } from "../types/weather.types";
+import { StatisticalForecast } from "./climatology.service";
+import { conditionsService } from "./conditions.service";
+
+const day = (overrides: Partial<DailyObservation> = {}): DailyObservation => ({
+  date: "2023-07-15",
+  temp: 20,
+  tempMax: 25,
+  tempMin: 15,
+  feelsLike: null,
+  humidity: 60,
+  precip: 0,
+  precipProb: null,
+  snow: null,
+  snowDepth: null,
+  windSpeed: 10,
+  windGust: null,
+  cloudCover: null,
+  uvIndex: null,
+  visibility: null,
+  pressure: null,
+  conditions: null,
+  description: null,
+  ...overrides,
+});
+
+const variables = (
+  overrides: Partial<SpecificVariables> = {}
+): SpecificVariables => ({
+  temperature_celsius: 20,
+  rainfall_mm: 0,
+  windspeed_kph: 10,
+  dust_concentration_ug_m3: null,
+  snowfall_cm: null,
+  snow_depth_cm: null,
+  cloud_cover_percent: null,
+  air_quality_index: null,
+  humidity_percent: 60,
+  ...overrides,
+});
+
+// Thresholds and confidence bands come from the environment, so the samples
+// are built around whatever they are set to
+const thresholds = conditionsService.getThresholds();
+
+describe("ConditionsService", () => {
+  describe("computeGeneralConditions", () => {
+    it("counts the share of days at or beyond each threshold", () => {
+      const samples = [
+        day({ tempMax: thresholds.very_hot_celsius }),
+        day({ tempMin: thresholds.very_cold_celsius }),
+        day({ windSpeed: thresholds.very_windy_kph + 1 }),
+        day({ precip: thresholds.very_wet_mm }),
+      ];
+
+      assert.deepEqual(conditionsService.computeGeneralConditions(samples), {
+        is_very_hot_percentage: 25,
+        is_very_cold_percentage: 25,
+        is_very_windy_percentage: 25,
+        is_very_wet_percentage: 25,
+      });
+    });
+
+    it("omits conditions whose variable no sample reports", () => {
+      const computed = conditionsService.computeGeneralConditions([
+        day({ windSpeed: null }),
+        day({ windSpeed: null }),
+      ]);
+
+      assert.equal("is_very_windy_percentage" in computed, false);
+      assert.equal(computed.is_very_hot_percentage, 0);
+    });
+  });
+
+  describe("getConfidence", () => {
+    it("grades the sample size against the configured bands", () => {
+      assert.equal(
+        conditionsService.getConfidence(config.confidenceHighMinSamples),
+        "high"
+      );
+      assert.equal(
+        conditionsService.getConfidence(config.confidenceMediumMinSamples),
+        "medium"
+      );
+      assert.equal(
+        conditionsService.getConfidence(config.confidenceMediumMinSamples - 1),
+        "low"
+      );
+    });
+  });
+
+  describe("computeVariableStatistics", () => {
+    it("places the expected value within the historical distribution", () => {
+      const samples = [10, 20, 30, 40].map((temp) => day({ temp }));
+      const statistics = conditionsService.computeVariableStatistics(
+        samples,
+        variables({ temperature_celsius: 30 })
+      );
+
+      assert.deepEqual(statistics?.temperature, {
+        unit: "°C",
+        min: 10,
+        median: 25,
+        max: 40,
+        expected_value: 30,
+        percentile: 62.5,
+        sample_size: 4,
+        confidence: conditionsService.getConfidence(4),
+      });
+    });
+
+    it("omits variables without samples or without an expected value", () => {
+      const statistics = conditionsService.computeVariableStatistics(
+        [day({ humidity: null })],
+        variables({ windspeed_kph: null })
+      );
+
+      assert.ok(statistics?.temperature);
+      assert.ok(statistics?.rainfall);
+      assert.equal(statistics?.windspeed, undefined);
+      assert.equal(statistics?.humidity, undefined);
+    });
+
+    it("returns no statistics without specific variables", () => {
+      assert.deepEqual(
+        conditionsService.computeVariableStatistics([day()], undefined),
+        {}
+      );
+    });
+  });
+
+  describe("applyComputedConditions", () => {
+    it("overrides model percentages and records their sources", () => {
+      const response = {
+        weather_conditions: {
+          general_conditions: {
+            is_very_hot_percentage: 90,
+            is_very_cold_percentage: 90,
+            is_very_windy_percentage: 90,
+            is_very_wet_percentage: 90,
+          },
+          specific_variables: variables(),
+        },
+      } as unknown as WeatherResponse;
+      const forecast = {
+        historicalData: { samples: [day({ windSpeed: null })] },
+      } as unknown as StatisticalForecast;
+
+      conditionsService.applyComputedConditions(response, forecast);
+
+      const conditions = response.weather_conditions;
+      assert.deepEqual(conditions.general_conditions, {
+        is_very_hot_percentage: 0,
+        is_very_cold_percentage: 0,
+        is_very_windy_percentage: 90,
+        is_very_wet_percentage: 0,
+      });
+      assert.deepEqual(conditions.general_conditions_sources, {
+        is_very_hot_percentage: "computed",
+        is_very_cold_percentage: "computed",
+        is_very_windy_percentage: "model",
+        is_very_wet_percentage: "computed",
+      });
+      assert.deepEqual(conditions.thresholds, thresholds);
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { config } from "../config/config";
+import {
+  Confidence,
+  ConditionThresholds,
+  DistributionVariable,
+  GeneralConditions,
+  GeneralConditionsSources,
+  SpecificVariables,
+  VariableStatistics,
+  WeatherConditions,
+  WeatherResponse,
+} from "../types/weather.types";
+import { DailyObservation } from "../types/provider.types";
+import {
+  exceedancePercentage,
+  percentileRank,
+  presentValues,
+  quantile,
+  round2,
+} from "../utils/statistics";
+import { StatisticalForecast } from "./climatology.service";
+
+interface DistributionSource {
+  unit: string;
+  sample: (day: DailyObservation) => number | null;
+  expected: (variables: SpecificVariables) => number | null;
+}
+
+const DISTRIBUTIONS: Record<DistributionVariable, DistributionSource> = {
+  temperature: {
+    unit: "°C",
+    sample: (d) => d.temp,
+    expected: (v) => v.temperature_celsius,
+  },
+  rainfall: {
+    unit: "mm",
+    sample: (d) => d.precip,
+    expected: (v) => v.rainfall_mm,
+  },
+  windspeed: {
+    unit: "km/h",
+    sample: (d) => d.windSpeed,
+    expected: (v) => v.windspeed_kph,
+  },
+  humidity: {
+    unit: "%",
+    sample: (d) => d.humidity,
+    expected: (v) => v.humidity_percent,
+  },
+};
+
+export class ConditionsService {
+  getThresholds(): ConditionThresholds {
+    return {
+      very_hot_celsius: config.veryHotThresholdC,
+      very_cold_celsius: config.veryColdThresholdC,
+      very_windy_kph: config.veryWindyThresholdKph,
+      very_wet_mm: config.veryWetThresholdMm,
+    };
+  }
+
+  /**
+   * Empirical frequency of each extreme across the historical samples. A
+   * field is omitted when no sample carries the variable it depends on.
+   */
+  computeGeneralConditions(
+    samples: DailyObservation[]
+  ): Partial<GeneralConditions> {
+    const thresholds = this.getThresholds();
+    const computed: Partial<GeneralConditions> = {};
+
+    const hot = exceedancePercentage(
+      samples.map((d) => d.tempMax),
+      (t) => t >= thresholds.very_hot_celsius
+    );
+    const cold = exceedancePercentage(
+      samples.map((d) => d.tempMin),
+      (t) => t <= thresholds.very_cold_celsius
+    );
+    const windy = exceedancePercentage(
+      samples.map((d) => d.windSpeed),
+      (w) => w >= thresholds.very_windy_kph
+    );
+    const wet = exceedancePercentage(
+      samples.map((d) => d.precip),
+      (p) => p >= thresholds.very_wet_mm
+    );
+
+    if (hot !== null) computed.is_very_hot_percentage = hot;
+    if (cold !== null) computed.is_very_cold_percentage = cold;
+    if (windy !== null) computed.is_very_windy_percentage = windy;
+    if (wet !== null) computed.is_very_wet_percentage = wet;
+
+    return computed;
+  }
+
+  getConfidence(sampleSize: number): Confidence {
+    if (sampleSize >= config.confidenceHighMinSamples) return "high";
+    if (sampleSize >= config.confidenceMediumMinSamples) return "medium";
+    return "low";
+  }
+
+  /**
+   * Empirical distribution of each variable across the historical samples,
+   * with the expected value placed within it. Variables without samples or
+   * without an expected value are omitted.
+   */
+  computeVariableStatistics(
+    samples: DailyObservation[],
+    specificVariables?: SpecificVariables
+  ): WeatherConditions["variable_statistics"] {
+    const statistics: WeatherConditions["variable_statistics"] = {};
+    if (!specificVariables) return statistics;
+
+    (Object.keys(DISTRIBUTIONS) as DistributionVariable[]).forEach(
+      (variable) => {
+        const { unit, sample, expected } = DISTRIBUTIONS[variable];
+        const values = presentValues(samples.map(sample)).sort((a, b) => a - b);
+        const expectedValue = expected(specificVariables);
+        if (values.length === 0 || typeof expectedValue !== "number") return;
+
+        const entry: VariableStatistics = {
+          unit,
+          min: round2(values[0]),
+          median: round2(quantile(values, 0.5)),
+          max: round2(values[values.length - 1]),
+          expected_value: expectedValue,
+          percentile: percentileRank(values, expectedValue),
+          sample_size: values.length,
+          confidence: this.getConfidence(values.length),
+        };
+        statistics[variable] = entry;
+      }
+    );
+
+    return statistics;
+  }
+
+  /**
+   * Overrides model-estimated general_conditions with values computed from
+   * the historical sample, records where each value came from and attaches
+   * the per-variable historical distributions.
+   */
+  applyComputedConditions(
+    response: WeatherResponse,
+    forecast?: StatisticalForecast
+  ): void {
+    const computed = forecast
+      ? this.computeGeneralConditions(forecast.historicalData.samples)
+      : {};
+
+    const weatherConditions = response.weather_conditions;
+    if (!weatherConditions) {
+      console.warn("[Conditions] Response has no weather_conditions to update");
+      return;
+    }
+
+    weatherConditions.general_conditions = {
+      ...weatherConditions.general_conditions,
+      ...computed,
+    };
+
+    const sourceOf = (key: keyof GeneralConditions) =>
+      key in computed ? "computed" : "model";
+    const sources: GeneralConditionsSources = {
+      is_very_hot_percentage: sourceOf("is_very_hot_percentage"),
+      is_very_cold_percentage: sourceOf("is_very_cold_percentage"),
+      is_very_windy_percentage: sourceOf("is_very_windy_percentage"),
+      is_very_wet_percentage: sourceOf("is_very_wet_percentage"),
+    };
+
+    weatherConditions.general_conditions_sources = sources;
+    weatherConditions.thresholds = this.getThresholds();
+    weatherConditions.variable_statistics = this.computeVariableStatistics(
+      forecast?.historicalData.samples || [],
+      weatherConditions.specific_variables
+    );
+  }
+}
+
+export const conditionsService = new ConditionsService();
@@ -0,0 +1,374 @@
+import { config } from "../config/config";
+import {
+  HourlyObservation,
+  WeatherDataProvider,
+} from "../types/provider.types";
+import {
+  ComfortabilityScore,
+  ConditionsBasis,
+  EventHour,
+  EventWindowAnalysis,
+  WeatherQuery,
+} from "../types/weather.types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { shiftDays, toIsoDate } from "../utils/dates";
+import { presentValues, round2 } from "../utils/statistics";
+import { formatQuantity } from "../utils/units";
+import { StatisticalForecast } from "./climatology.service";
+import { ruleBasedAnalysisService } from "./ruleBased.service";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+// Hourly totals below this are trace amounts, not rain
+const WET_HOUR_MM = 0.1;
+
+interface HourWindow {
+  /** Hours of the day the event touches, in order */
+  eventHours: number[];
+  setupHours: number[];
+}
+
+const average = (values: (number | null)[]): number | null => {
+  const present = presentValues(values);
+  return present.length === 0
+    ? null
+    : round2(present.reduce((sum, v) => sum + v, 0) / present.length);
+};
+
+const maximum = (values: (number | null)[]): number | null => {
+  const present = presentValues(values);
+  return present.length === 0 ? null : Math.max(...present);
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Statistics for the hours an event actually runs: the provider's hourly
+ * forecast or observations for the date when it has them, otherwise hourly
+ * climatology from the same past years as the daily analysis.
+ */
+export class EventWindowService {
+  /** 18:30–22:00 touches hours 18 to 21; setup runs up to the first hour */
+  private getHourWindow(startTime: string, endTime: string): HourWindow {
+    const firstHour = Math.floor(toMinutes(startTime) / 60);
+    const lastHour = Math.ceil(toMinutes(endTime) / 60) - 1;
+    const setupStart = Math.max(0, firstHour - config.eventSetupHours);
+
+    return {
+      eventHours: Array.from(
+        { length: lastHour - firstHour + 1 },
+        (_, i) => firstHour + i
+      ),
+      setupHours: Array.from(
+        { length: firstHour - setupStart },
+        (_, i) => setupStart + i
+      ),
+    };
+  }
+
+  private async fetchTargetDay(
+    provider: WeatherDataProvider,
+    query: WeatherQuery,
+    forecast: StatisticalForecast,
+    signal?: AbortSignal
+  ): Promise<HourlyObservation[]> {
+    return provider.fetchHourly!(
+      query.latitude,
+      query.longitude,
+      toIsoDate(query.date),
+      undefined,
+      forecast.cache,
+      signal
+    );
+  }
+
+  /**
+   * One ranged call per past year the daily analysis found data for,
+   * covering the same ±windowDays window. Failed years are left out.
+   */
+  private async fetchHistorical(
+    provider: WeatherDataProvider,
+    query: WeatherQuery,
+    forecast: StatisticalForecast,
+    signal?: AbortSignal
+  ): Promise<HourlyObservation[]> {
+    const [, month, day] = toIsoDate(query.date).split("-");
+    const { yearsRequested, missingYears, windowDays } =
+      forecast.historicalData;
+    const years = yearsRequested.filter((year) => !missingYears.includes(year));
+
+    const results = await mapWithConcurrency(
+      years,
+      config.historicalFetchConcurrency,
+      (year) => {
+        const anniversary = `${year}-${month}-${day}`;
+        return provider.fetchHourly!(
+          query.latitude,
+          query.longitude,
+          shiftDays(anniversary, -windowDays),
+          windowDays > 0 ? shiftDays(anniversary, windowDays) : undefined,
+          forecast.cache,
+          signal
+        );
+      }
+    );
+
+    return results.flatMap((result, index) => {
+      if (result.status === "fulfilled") return result.value;
+      console.warn(
+        `[EventWindow] Could not fetch hourly data for ${years[index]}:`,
+        result.reason instanceof Error ? result.reason.message : "Unknown error"
+      );
+      return [];
+    });
+  }
+
+  /**
+   * Expected conditions for one hour. Climatology uses the share of sample
+   * days that were wet in that hour as its chance of rain.
+   */
+  private toEventHour(
+    hour: number,
+    observations: HourlyObservation[],
+    basis: ConditionsBasis,
+    window: HourWindow
+  ): EventHour {
+    const temperature = average(observations.map((o) => o.temp));
+    const rainfall = average(observations.map((o) => o.precip));
+    const precipitationProbability =
+      basis === "climatology"
+        ? observations.length > 0
+          ? round2(
+              (observations.filter((o) => o.precip >= WET_HOUR_MM).length /
+                observations.length) *
+                100
+            )
+          : null
+        : average(observations.map((o) => o.precipProb));
+    const windSpeed = average(observations.map((o) => o.windSpeed));
+    const humidity = average(observations.map((o) => o.humidity));
+    const uvIndex = average(observations.map((o) => o.uvIndex));
+
+    // Only the score is kept, so the summary's units do not matter
+    const comfort =
+      temperature === null
+        ? null
+        : ruleBasedAnalysisService.getComfortScore(
+            {
+              basis,
+              temp: temperature,
+              tempMax: temperature,
+              tempMin: temperature,
+              precip: rainfall ?? 0,
+              precipProb: precipitationProbability,
+              humidity,
+              windSpeed,
+              uvIndex,
+              snow: null,
+              snowDepth: null,
+              cloudCover: average(observations.map((o) => o.cloudCover)),
+            },
+            "metric"
+          );
+
+    return {
+      hour,
+      in_event_window: window.eventHours.includes(hour),
+      in_setup_window: window.setupHours.includes(hour),
+      temperature_celsius: temperature,
+      precipitation_probability: precipitationProbability,
+      rainfall_mm: rainfall,
+      windspeed_kph: windSpeed,
+      gust_kph: average(observations.map((o) => o.windGust)),
+      humidity_percent: humidity,
+      uv_index: uvIndex,
+      comfort_score: comfort && comfort.score,
+    };
+  }
+
+  /**
+   * Chance of rain at some point during the event: the share of sample days
+   * wet in any event hour, or the highest hourly chance in a forecast.
+   */
+  private getRainProbability(
+    observations: HourlyObservation[],
+    eventHours: EventHour[],
+    basis: ConditionsBasis,
+    window: HourWindow
+  ): number | null {
+    if (basis !== "climatology") {
+      return maximum(eventHours.map((h) => h.precipitation_probability));
+    }
+
+    const wetByDate = new Map<string, boolean>();
+    observations
+      .filter((o) => window.eventHours.includes(o.hour))
+      .forEach((o) =>
+        wetByDate.set(
+          o.date,
+          (wetByDate.get(o.date) ?? false) || o.precip >= WET_HOUR_MM
+        )
+      );
+    if (wetByDate.size === 0) return null;
+
+    const wetDays = Array.from(wetByDate.values()).filter(Boolean).length;
+    return round2((wetDays / wetByDate.size) * 100);
+  }
+
+  private getComfortScore(
+    query: WeatherQuery,
+    eventHours: EventHour[],
+    basis: ConditionsBasis,
+    stats: Pick<
+      EventWindowAnalysis,
+      | "rain_probability"
+      | "peak_temperature_celsius"
+      | "min_temperature_celsius"
+      | "windspeed_kph"
+    >
+  ): ComfortabilityScore {
+    const score = Math.round(
+      average(eventHours.map((h) => h.comfort_score)) ?? 0
+    );
+
+    const units = query.units ?? "metric";
+    const { min_temperature_celsius: min, peak_temperature_celsius: peak } =
+      stats;
+    const details = [
+      min === null || peak === null
+        ? null
+        : min === peak
+        ? `around ${formatQuantity(peak, "temperature", units)}`
+        : `${formatQuantity(min, "temperature", units)} to ${formatQuantity(
+            peak,
+            "temperature",
+            units
+          )}`,
+      stats.rain_probability !== null
+        ? `a ${stats.rain_probability}% chance of rain`
+        : null,
+      stats.windspeed_kph !== null
+        ? `winds near ${formatQuantity(
+            stats.windspeed_kph,
+            "windSpeed",
+            units
+          )}`
+        : null,
+    ].filter(Boolean);
+    const source =
+      basis === "climatology"
+        ? "historical hourly data for this date"
+        : `the provider's hourly ${basis}`;
+
+    return {
+      score,
+      summary: `${ruleBasedAnalysisService.getComfortLabel(
+        score
+      )} conditions expected from ${query.startTime} to ${
+        query.endTime
+      }, with ${details.join(", ")}. Based on ${source}.`,
+    };
+  }
+
+  async getEventWindow(
+    query: WeatherQuery,
+    forecast: StatisticalForecast,
+    signal?: AbortSignal
+  ): Promise<Omit<EventWindowAnalysis, "day_comfortability_score">> {
+    if (!query.startTime || !query.endTime) {
+      throw new Error("Event window unavailable: no event times given");
+    }
+
+    const provider = getWeatherDataProvider(forecast.provider.name);
+    if (!provider.fetchHourly) {
+      throw new Error(
+        `Event window unavailable: ${provider.displayName} has no hourly data`
+      );
+    }
+
+    const basis: ConditionsBasis = forecast.current
+      ? "observation"
+      : forecast.forecast
+      ? "forecast"
+      : "climatology";
+    const observations =
+      basis === "climatology"
+        ? await this.fetchHistorical(provider, query, forecast, signal)
+        : await this.fetchTargetDay(provider, query, forecast, signal);
+
+    if (observations.length === 0) {
+      throw new Error("Event window unavailable: no hourly data returned");
+    }
+
+    const window = this.getHourWindow(query.startTime, query.endTime);
+    const hourly = Array.from({ length: 24 }, (_, hour) =>
+      this.toEventHour(
+        hour,
+        observations.filter((o) => o.hour === hour),
+        basis,
+        window
+      )
+    );
+    const eventHours = hourly.filter((h) => h.in_event_window);
+    const setupHours = hourly.filter((h) => h.in_setup_window);
+
+    const peakHour = eventHours.reduce<EventHour | null>(
+      (peak, h) =>
+        h.temperature_celsius !== null &&
+        (peak === null || h.temperature_celsius > peak.temperature_celsius!)
+          ? h
+          : peak,
+      null
+    );
+    const rainfall = presentValues(eventHours.map((h) => h.rainfall_mm));
+    const temperatures = presentValues(
+      eventHours.map((h) => h.temperature_celsius)
+    );
+
+    const stats = {
+      rain_probability: this.getRainProbability(
+        observations,
+        eventHours,
+        basis,
+        window
+      ),
+      expected_rainfall_mm:
+        rainfall.length > 0
+          ? round2(rainfall.reduce((sum, v) => sum + v, 0))
+          : null,
+      peak_temperature_celsius: peakHour && peakHour.temperature_celsius,
+      peak_hour: peakHour && peakHour.hour,
+      min_temperature_celsius:
+        temperatures.length > 0 ? Math.min(...temperatures) : null,
+      windspeed_kph: maximum(eventHours.map((h) => h.windspeed_kph)),
+    };
+
+    return {
+      start_time: query.startTime,
+      end_time: query.endTime,
+      basis,
+      comfortability_score: this.getComfortScore(
+        query,
+        eventHours,
+        basis,
+        stats
+      ),
+      ...stats,
+      setup:
+        setupHours.length > 0
+          ? {
+              start_hour: setupHours[0].hour,
+              end_hour: setupHours[setupHours.length - 1].hour,
+              windspeed_kph: maximum(setupHours.map((h) => h.windspeed_kph)),
+              gust_kph: maximum(setupHours.map((h) => h.gust_kph)),
+            }
+          : null,
+      hourly,
+      sample_size: new Set(observations.map((o) => o.date)).size,
+    };
+  }
+}
+
+export const eventWindowService = new EventWindowService();
@@ -0,0 +1,136 @@
+import { config } from "../config/config";
+import { DailyObservation } from "../types/provider.types";
+import {
+  ForecastDay,
+  ForecastQuery,
+  ForecastResponse,
+} from "../types/weather.types";
+import { fromIsoDate, shiftDays, toIsoDate } from "../utils/dates";
+import { addUnitNeutralFields } from "../utils/units";
+import { createCacheMetadata } from "./climatology.service";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+export const DEFAULT_FORECAST_DAYS = 7;
+
+/**
+ * Day-by-day provider forecast for a window around a near-term date, for
+ * the forecast strip shown alongside a report.
+ */
+export class ForecastService {
+  /** First and last YYYY-MM-DD dates the provider forecasts */
+  getHorizon(): { start: string; end: string } {
+    const today = new Date().toISOString().split("T")[0];
+    return {
+      start: today,
+      end: shiftDays(today, config.forecastHorizonDays - 1),
+    };
+  }
+
+  /**
+   * Centres the window on the date, then slides it to stay within the
+   * horizon; near either end the date is off-centre.
+   */
+  private getWindow(isoDate: string, days: number) {
+    const horizon = this.getHorizon();
+    let start = shiftDays(isoDate, -Math.floor((days - 1) / 2));
+    if (start < horizon.start) start = horizon.start;
+    let end = shiftDays(start, days - 1);
+    if (end > horizon.end) {
+      end = horizon.end;
+      start = shiftDays(end, -(days - 1));
+      if (start < horizon.start) start = horizon.start;
+    }
+    return { start, end };
+  }
+
+  private toForecastDay(day: DailyObservation, isoDate: string): ForecastDay {
+    return {
+      date: fromIsoDate(day.date),
+      is_target: day.date === isoDate,
+      conditions: day.conditions,
+      description: day.description,
+      temperature_celsius: day.temp,
+      temperature_max_celsius: day.tempMax,
+      temperature_min_celsius: day.tempMin,
+      rainfall_mm: day.precip,
+      precipitation_probability: day.precipProb,
+      windspeed_kph: day.windSpeed,
+      humidity_percent: day.humidity,
+      uv_index: day.uvIndex,
+    };
+  }
+
+  async getForecast(query: ForecastQuery): Promise<ForecastResponse> {
+    const provider = getWeatherDataProvider();
+    if (!provider.supportsForecast) {
+      throw new Error(
+        `Forecast not supported: ${provider.displayName} only provides observations`
+      );
+    }
+
+    const isoDate = toIsoDate(query.date);
+    const { start, end } = this.getWindow(
+      isoDate,
+      query.days ?? DEFAULT_FORECAST_DAYS
+    );
+    const dayCount =
+      (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) /
+        86_400_000 +
+      1;
+    const cache = createCacheMetadata();
+
+    console.log(
+      `[Forecast] ${start} to ${end} around ${isoDate} from ${provider.displayName}`
+    );
+
+    let observations: DailyObservation[];
+    try {
+      observations = provider.getExtendedForecast
+        ? await provider.getExtendedForecast(
+            query.latitude,
+            query.longitude,
+            fromIsoDate(start),
+            dayCount,
+            cache
+          )
+        : (
+            await provider.fetchDaily(
+              query.latitude,
+              query.longitude,
+              start,
+              end,
+              cache
+            )
+          ).days;
+    } catch (error) {
+      throw new Error(
+        `Forecast unavailable: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    const units = query.units ?? "metric";
+    const response: ForecastResponse = {
+      request_parameters: {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        date: query.date,
+        start_date: fromIsoDate(start),
+        end_date: fromIsoDate(end),
+      },
+      days: observations
+        .filter((day) => day.date >= start && day.date <= end)
+        .map((day) => this.toForecastDay(day, isoDate)),
+      metadata: {
+        provider: { name: provider.name, displayName: provider.displayName },
+        cache,
+        units,
+      },
+    };
+
+    return addUnitNeutralFields(response, units);
+  }
+}
+
+export const forecastService = new ForecastService();
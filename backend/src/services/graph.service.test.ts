@@ -0,0 +1,235 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { config } from "../config/config";
+import {
+  DailyObservation,
+  WeatherDataProvider,
+} from "../types/provider.types";
+import { GraphData, WeatherResponse } from "../types/weather.types";
+import { graphService } from "./graph.service";
+
+interface FakeProviderOptions {
+  /** Years whose requests fail */
+  failingYears?: number[];
+  /** Keep only every n-th day of each response */
+  keepEvery?: number;
+}
+
+/**
+ * Provider whose daily mean temperature is the month number (1-12), with
+ * 1 mm of rain a day and no snow reported. Records each requested range.
+ */
+const fakeProvider = ({
+  failingYears = [],
+  keepEvery = 1,
+}: FakeProviderOptions = {}) => {
+  const requests: string[] = [];
+  const provider: WeatherDataProvider = {
+    name: "fake",
+    displayName: "Fake Provider",
+    supportsForecast: false,
+    async fetchDaily(_latitude, _longitude, startDate, endDate = startDate) {
+      requests.push(`${startDate}/${endDate}`);
+      if (failingYears.includes(parseInt(startDate.slice(0, 4), 10))) {
+        throw new Error("Upstream unavailable");
+      }
+
+      const days: DailyObservation[] = [];
+      const date = new Date(`${startDate}T00:00:00Z`);
+      for (let i = 0; date.toISOString() <= `${endDate}T00:00:00.000Z`; i++) {
+        if (i % keepEvery === 0) {
+          days.push({
+            date: date.toISOString().slice(0, 10),
+            temp: date.getUTCMonth() + 1,
+            tempMax: date.getUTCMonth() + 1,
+            tempMin: date.getUTCMonth() + 1,
+            feelsLike: null,
+            humidity: null,
+            precip: 1,
+            precipProb: null,
+            snow: null,
+            snowDepth: null,
+            windSpeed: null,
+            windGust: null,
+            cloudCover: null,
+            uvIndex: null,
+            visibility: null,
+            pressure: null,
+            conditions: null,
+            description: null,
+          });
+        }
+        date.setUTCDate(date.getUTCDate() + 1);
+      }
+      return { location: { latitude: 0, longitude: 0, address: "" }, days };
+    },
+  };
+  return { provider, requests };
+};
+
+const getGraphs = (
+  provider: WeatherDataProvider,
+  targetDate: string,
+  years: number
+) => graphService.getObservedGraphs(provider, "0", "0", targetDate, years);
+
+describe("GraphService", () => {
+  beforeEach(() => {
+    config.graphGranularity = "quarterly";
+    config.graphHistory = "window";
+    config.maxGraphYears = 5;
+  });
+
+  describe("getObservedGraphs", () => {
+    it("fetches only the target quarter of each earlier year", async () => {
+      const { provider, requests } = fakeProvider();
+      const graphs = await getGraphs(provider, "2024-07-15", 3);
+
+      assert.deepEqual(requests, [
+        "2021-07-01/2021-09-30",
+        "2022-07-01/2022-09-30",
+        "2023-07-01/2023-09-30",
+      ]);
+      // (31 × 7 + 31 × 8 + 30 × 9) / 92 days
+      assert.deepEqual(
+        graphs.temperature?.series?.map((entry) => entry.values),
+        [
+          [null, null, 7.99, null],
+          [null, null, 7.99, null],
+          [null, null, 7.99, null],
+        ]
+      );
+      assert.deepEqual(graphs.rain?.series?.[0].values, [null, null, 92, null]);
+      assert.match(graphs.temperature?.description ?? "", /^Same-quarter/);
+      assert.deepEqual(graphs.temperature?.year_minus_1, []);
+    });
+
+    it("fetches only the target month with monthly granularity", async () => {
+      config.graphGranularity = "monthly";
+      const { provider, requests } = fakeProvider();
+      const graphs = await getGraphs(provider, "2024-02-10", 2);
+
+      assert.deepEqual(requests, [
+        "2022-02-01/2022-02-28",
+        "2023-02-01/2023-02-28",
+      ]);
+      const values = graphs.rain?.series?.[0].values ?? [];
+      assert.equal(values.length, 12);
+      assert.equal(values[1], 28);
+      assert.equal(values.filter((v) => v !== null).length, 1);
+    });
+
+    it("aggregates whole years and fills the legacy arrays with full-year history", async () => {
+      config.graphHistory = "full_year";
+      const { provider, requests } = fakeProvider();
+      const graphs = await getGraphs(provider, "2024-07-15", 3);
+
+      assert.deepEqual(requests, [
+        "2021-01-01/2021-12-31",
+        "2022-01-01/2022-12-31",
+        "2023-01-01/2023-12-31",
+      ]);
+      const temperature = graphs.temperature as GraphData;
+      assert.deepEqual(temperature.year_minus_1, [2, 5, 7.99, 11]);
+      assert.deepEqual(temperature.year_minus_3, [2, 5, 7.99, 11]);
+      assert.deepEqual(temperature.year_minus_4, []);
+      assert.deepEqual(graphs.rain?.year_minus_1, [90, 91, 92, 92]);
+      assert.match(temperature.description, /^Quarterly/);
+    });
+
+    it("leaves out periods missing most of their days", async () => {
+      const { provider } = fakeProvider({ keepEvery: 3 });
+      const graphs = await getGraphs(provider, "2024-07-15", 2);
+
+      assert.equal(graphs.temperature, null);
+      assert.equal(graphs.rain, null);
+    });
+
+    it("returns null for a variable the provider never reports", async () => {
+      const { provider } = fakeProvider();
+      const graphs = await getGraphs(provider, "2024-07-15", 2);
+
+      assert.equal(graphs.snow, null);
+    });
+
+    it("keeps the other years when one year cannot be fetched", async () => {
+      const { provider } = fakeProvider({ failingYears: [2022] });
+      const graphs = await getGraphs(provider, "2024-07-15", 3);
+
+      assert.deepEqual(
+        graphs.rain?.series?.map((entry) => [entry.year, entry.values[2]]),
+        [
+          [2021, 92],
+          [2022, null],
+          [2023, 92],
+        ]
+      );
+    });
+
+    it("caps the years at MAX_GRAPH_YEARS and ends before the current year", async () => {
+      config.maxGraphYears = 2;
+      const { provider, requests } = fakeProvider();
+      await getGraphs(provider, "2999-01-10", 10);
+
+      const currentYear = new Date().getFullYear();
+      assert.deepEqual(requests, [
+        `${currentYear - 2}-01-01/${currentYear - 2}-03-31`,
+        `${currentYear - 1}-01-01/${currentYear - 1}-03-31`,
+      ]);
+    });
+  });
+
+  describe("applyObservedGraphs", () => {
+    it("replaces model graphs with observed ones and labels the rest", () => {
+      const modelGraph = (description: string): GraphData => ({
+        description,
+        year_minus_5: [1, 2, 3, 4],
+        year_minus_4: [1, 2, 3, 4],
+        year_minus_3: [1, 2, 3, 4],
+        year_minus_2: [1, 2, 3, 4],
+        year_minus_1: [1, 2, 3, 4],
+      });
+      const observed: GraphData = {
+        ...modelGraph("observed"),
+        source: "observed",
+      };
+      const response = {
+        temperature_graph_data: modelGraph("model temperature"),
+        rain_graph_data: modelGraph("model rain"),
+        snow_graph_data: modelGraph("model snow"),
+      } as WeatherResponse;
+
+      graphService.applyObservedGraphs(response, {
+        temperature: observed,
+        rain: null,
+        snow: null,
+      });
+
+      assert.equal(response.temperature_graph_data, observed);
+      assert.equal(response.rain_graph_data.source, "model");
+      assert.equal(response.snow_graph_data.description, "model snow");
+    });
+
+    it("keeps the label of graphs that have no data", () => {
+      const empty: GraphData = {
+        description: "No observed snowfall data is available.",
+        year_minus_5: [],
+        year_minus_4: [],
+        year_minus_3: [],
+        year_minus_2: [],
+        year_minus_1: [],
+        source: "none",
+        series: [],
+      };
+      const response = { snow_graph_data: empty } as WeatherResponse;
+
+      graphService.applyObservedGraphs(response, {
+        temperature: null,
+        rain: null,
+        snow: null,
+      });
+
+      assert.equal(response.snow_graph_data.source, "none");
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { config } from "../config/config";
+import {
+  CacheMetadata,
+  GraphData,
+  GraphGranularity,
+  GraphSeriesYear,
+  UnitSystem,
+  WeatherResponse,
+} from "../types/weather.types";
+import { DailyObservation, WeatherDataProvider } from "../types/provider.types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { round2 } from "../utils/statistics";
+import { unitName } from "../utils/units";
+
+export interface ObservedGraphs {
+  temperature: GraphData | null;
+  rain: GraphData | null;
+  snow: GraphData | null;
+}
+
+type GraphVariable = keyof ObservedGraphs;
+
+interface GraphVariableSource {
+  aggregation: "mean" | "sum";
+  sample: (day: DailyObservation) => number | null;
+  /** Values stay metric until the report is converted; the text does not */
+  describe: (period: string, yearCount: number, units: UnitSystem) => string;
+}
+
+const GRAPH_VARIABLES: Record<GraphVariable, GraphVariableSource> = {
+  temperature: {
+    aggregation: "mean",
+    sample: (d) => d.temp,
+    describe: (period, yearCount, units) =>
+      `${period} average temperatures in ${unitName(
+        "temperature",
+        units
+      )} for the past ${yearCount} years, from observed data.`,
+  },
+  rain: {
+    aggregation: "sum",
+    sample: (d) => d.precip,
+    describe: (period, yearCount, units) =>
+      `${period} total rainfall in ${unitName(
+        "precipitation",
+        units
+      )} for the past ${yearCount} years, from observed data.`,
+  },
+  snow: {
+    aggregation: "sum",
+    sample: (d) => d.snow,
+    describe: (period, yearCount, units) =>
+      `${period} total snowfall in ${unitName(
+        "snow",
+        units
+      )} for the past ${yearCount} years, from observed data.`,
+  },
+};
+
+const PERIODS: Record<
+  GraphGranularity,
+  { count: number; label: string; windowLabel: string }
+> = {
+  quarterly: { count: 4, label: "Quarterly", windowLabel: "Same-quarter" },
+  monthly: { count: 12, label: "Monthly", windowLabel: "Same-month" },
+};
+
+const LEGACY_YEAR_KEYS = [
+  "year_minus_1",
+  "year_minus_2",
+  "year_minus_3",
+  "year_minus_4",
+  "year_minus_5",
+] as const;
+
+interface GraphYear {
+  year: number;
+  days: DailyObservation[];
+}
+
+export class GraphService {
+  private periodOf(isoDate: string, granularity: GraphGranularity): number {
+    const month = parseInt(isoDate.slice(5, 7), 10) - 1;
+    return granularity === "monthly" ? month : Math.floor(month / 3);
+  }
+
+  private monthsOf(period: number, granularity: GraphGranularity): number[] {
+    return granularity === "monthly"
+      ? [period]
+      : [period * 3, period * 3 + 1, period * 3 + 2];
+  }
+
+  private daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  }
+
+  private daysInPeriod(
+    year: number,
+    period: number,
+    granularity: GraphGranularity
+  ): number {
+    return this.monthsOf(period, granularity).reduce(
+      (sum, month) => sum + this.daysInMonth(year, month),
+      0
+    );
+  }
+
+  /** First and last ISO date of one period of `year` */
+  private periodRange(
+    year: number,
+    period: number,
+    granularity: GraphGranularity
+  ): { startDate: string; endDate: string } {
+    const months = this.monthsOf(period, granularity);
+    const first = months[0];
+    const last = months[months.length - 1];
+    const pad = (value: number) => String(value).padStart(2, "0");
+    return {
+      startDate: `${year}-${pad(first + 1)}-01`,
+      endDate: `${year}-${pad(last + 1)}-${pad(this.daysInMonth(year, last))}`,
+    };
+  }
+
+  private aggregate(
+    { year, days }: GraphYear,
+    variable: GraphVariableSource,
+    granularity: GraphGranularity
+  ): (number | null)[] {
+    const buckets: number[][] = Array.from(
+      { length: PERIODS[granularity].count },
+      () => []
+    );
+
+    days.forEach((day) => {
+      const value = variable.sample(day);
+      if (value !== null && !isNaN(value)) {
+        buckets[this.periodOf(day.date, granularity)].push(value);
+      }
+    });
+
+    return buckets.map((values, period) => {
+      // A period missing most of its days would under-count totals
+      if (values.length * 2 < this.daysInPeriod(year, period, granularity)) {
+        return null;
+      }
+      const total = values.reduce((sum, v) => sum + v, 0);
+      return round2(
+        variable.aggregation === "sum" ? total : total / values.length
+      );
+    });
+  }
+
+  private toGraphData(
+    years: GraphYear[],
+    variable: GraphVariableSource,
+    referenceYear: number,
+    units: UnitSystem,
+    fullYears: boolean
+  ): GraphData | null {
+    const granularity = config.graphGranularity;
+    const series: GraphSeriesYear[] = years.map((graphYear) => ({
+      year: graphYear.year,
+      values: this.aggregate(graphYear, variable, granularity),
+    }));
+
+    if (series.every((entry) => entry.values.every((v) => v === null))) {
+      return null;
+    }
+
+    const graphData: GraphData = {
+      description: variable.describe(
+        fullYears
+          ? PERIODS[granularity].label
+          : PERIODS[granularity].windowLabel,
+        series.length,
+        units
+      ),
+      year_minus_5: [],
+      year_minus_4: [],
+      year_minus_3: [],
+      year_minus_2: [],
+      year_minus_1: [],
+      source: "observed",
+      granularity,
+      series,
+    };
+
+    // The legacy year_minus_N arrays need all four quarters of a year, so
+    // only full-year history fills them; window history leaves them empty
+    LEGACY_YEAR_KEYS.forEach((key, index) => {
+      const graphYear = years.find((y) => y.year === referenceYear - index - 1);
+      if (!graphYear) return;
+      const quarters = this.aggregate(graphYear, variable, "quarterly");
+      if (quarters.every((v): v is number => v !== null)) {
+        graphData[key] = quarters;
+      }
+    });
+
+    return graphData;
+  }
+
+  /**
+   * Aggregates provider data for the years before the target year (or
+   * before the current year, for future targets) into graph series. By
+   * default only the period (quarter or month) holding the target date is
+   * fetched for each year, leaving the other periods null; with
+   * GRAPH_HISTORY=full_year whole calendar years are fetched. A variable the
+   * provider never reports comes back as null.
+   */
+  async getObservedGraphs(
+    provider: WeatherDataProvider,
+    latitude: string,
+    longitude: string,
+    targetDate: string,
+    years: number,
+    cacheMetadata?: CacheMetadata,
+    units: UnitSystem = "metric",
+    signal?: AbortSignal
+  ): Promise<ObservedGraphs> {
+    const granularity = config.graphGranularity;
+    const fullYears = config.graphHistory === "full_year";
+    const targetYear = parseInt(targetDate.slice(0, 4), 10);
+    const targetPeriod = this.periodOf(targetDate, granularity);
+    const referenceYear = Math.min(targetYear, new Date().getFullYear());
+    const count = Math.min(years, config.maxGraphYears);
+    const graphYears = Array.from(
+      { length: count },
+      (_, i) => referenceYear - count + i
+    );
+
+    console.log(
+      `[Graph] Aggregating ${graphYears[0]}-${referenceYear - 1} ${
+        fullYears
+          ? `${granularity} series`
+          : `${granularity} period ${targetPeriod + 1}`
+      } from ${provider.displayName}`
+    );
+
+    const results = await mapWithConcurrency(
+      graphYears,
+      config.historicalFetchConcurrency,
+      async (year) => {
+        const { startDate, endDate } = fullYears
+          ? { startDate: `${year}-01-01`, endDate: `${year}-12-31` }
+          : this.periodRange(year, targetPeriod, granularity);
+        const data = await provider.fetchDaily(
+          latitude,
+          longitude,
+          startDate,
+          endDate,
+          cacheMetadata,
+          signal
+        );
+        return data.days;
+      }
+    );
+
+    const fetched: GraphYear[] = results.map((result, index) => {
+      if (result.status === "fulfilled") {
+        return { year: graphYears[index], days: result.value };
+      }
+      console.warn(
+        `[Graph] Could not fetch ${graphYears[index]} from ${provider.displayName}:`,
+        result.reason instanceof Error ? result.reason.message : "Unknown error"
+      );
+      return { year: graphYears[index], days: [] };
+    });
+
+    return {
+      temperature: this.toGraphData(
+        fetched,
+        GRAPH_VARIABLES.temperature,
+        referenceYear,
+        units,
+        fullYears
+      ),
+      rain: this.toGraphData(
+        fetched,
+        GRAPH_VARIABLES.rain,
+        referenceYear,
+        units,
+        fullYears
+      ),
+      snow: this.toGraphData(
+        fetched,
+        GRAPH_VARIABLES.snow,
+        referenceYear,
+        units,
+        fullYears
+      ),
+    };
+  }
+
+  /**
+   * Replaces the model-generated graph series with observed ones where
+   * available; the rest keep their existing series and are flagged as model
+   * output unless already labelled.
+   */
+  applyObservedGraphs(
+    response: WeatherResponse,
+    graphs?: ObservedGraphs
+  ): void {
+    const apply = (
+      key: "temperature_graph_data" | "rain_graph_data" | "snow_graph_data",
+      observed: GraphData | null | undefined
+    ) => {
+      if (observed) {
+        response[key] = observed;
+      } else if (response[key]) {
+        response[key] = { source: "model", ...response[key] };
+      }
+    };
+
+    apply("temperature_graph_data", graphs?.temperature);
+    apply("rain_graph_data", graphs?.rain);
+    apply("snow_graph_data", graphs?.snow);
+  }
+}
+
+export const graphService = new GraphService();
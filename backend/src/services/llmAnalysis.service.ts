@@ -0,0 +1,285 @@
+import { config } from "../config/config";
+import { LlmProvider, PromptInfo } from "../types/llm.types";
+import {
+  UnitSystem,
+  WeatherQuery,
+  WeatherResponse,
+} from "../types/weather.types";
+import { buildWeatherResponseSchema } from "../schemas/weatherResponse.schema";
+import { SchemaNode, validateSchema } from "../utils/schema";
+import { formatQuantity, Quantity, unitName } from "../utils/units";
+import { StatisticalForecast } from "./climatology.service";
+import { getLlmProvider } from "./llmprovider.service";
+import { PromptTemplateSet, promptRegistry } from "./promptRegistry.service";
+
+export interface LlmAnalysis {
+  response: WeatherResponse;
+  /** Prompt template version that produced the response */
+  prompt: PromptInfo;
+}
+
+/**
+ * Provider-neutral half of the AI analysis: renders the prompt, validates
+ * the model's JSON against the response schema and re-prompts with the
+ * validation errors until it passes or the repair attempts run out.
+ */
+export class LlmAnalysisService {
+  private async generate(
+    provider: LlmProvider,
+    prompt: string,
+    schema: SchemaNode,
+    signal?: AbortSignal
+  ): Promise<string> {
+    // Losing the race, or the caller cancelling, aborts the model call so its
+    // retries stop as well
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    if (signal?.aborted) cancel();
+    signal?.addEventListener("abort", cancel, { once: true });
+    let timer: NodeJS.Timeout | undefined;
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          new Error(
+            `${provider.displayName} API timeout after ${
+              config.llmTimeoutMs / 1000
+            } seconds`
+          )
+        );
+      }, config.llmTimeoutMs);
+    });
+
+    try {
+      return await Promise.race([
+        provider.generateJson(prompt, schema, {
+          signal: controller.signal,
+          deadline: Date.now() + config.llmTimeoutMs,
+        }),
+        timeoutPromise,
+      ]);
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", cancel);
+    }
+  }
+
+  /**
+   * Parses the model output and checks it against the response schema.
+   * Returns the parsed value alongside any problems found.
+   */
+  private parseResponse(
+    text: string,
+    schema: SchemaNode
+  ): {
+    parsed?: unknown;
+    errors: string[];
+  } {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (parseError) {
+      return {
+        errors: [
+          `Response is not valid JSON: ${
+            parseError instanceof Error ? parseError.message : "parse error"
+          }`,
+        ],
+      };
+    }
+
+    return { parsed, errors: validateSchema(schema, parsed) };
+  }
+
+  async getWeatherAnalysis(
+    query: WeatherQuery,
+    vcForecast?: StatisticalForecast,
+    provider: LlmProvider = getLlmProvider(),
+    signal?: AbortSignal
+  ): Promise<LlmAnalysis> {
+    try {
+      console.log(
+        `[LLM] Generating analysis with ${provider.displayName} (${provider.model}) for lat:${query.latitude}, lon:${query.longitude}, date:${query.date}`
+      );
+
+      const templateSet = await promptRegistry.get();
+      const schema = buildWeatherResponseSchema(query.units ?? "metric");
+      const basePrompt = this.buildPrompt(
+        templateSet,
+        schema,
+        query,
+        vcForecast
+      );
+      const maxAttempts = config.llmMaxRepairAttempts + 1;
+      let prompt = basePrompt;
+      let parsedResponse: WeatherResponse;
+
+      for (let attempt = 1; ; attempt++) {
+        const text = await this.generate(provider, prompt, schema, signal);
+        console.log(
+          `[LLM] Successfully received response (attempt ${attempt}/${maxAttempts})`
+        );
+
+        const { parsed, errors } = this.parseResponse(text, schema);
+        if (errors.length === 0) {
+          parsedResponse = parsed as WeatherResponse;
+          break;
+        }
+
+        console.warn(
+          `[LLM] Response failed validation (attempt ${attempt}/${maxAttempts}):`,
+          errors
+        );
+        if (attempt >= maxAttempts) {
+          throw new Error(
+            `${
+              provider.displayName
+            } response failed schema validation after ${attempt} attempt(s): ${errors
+              .slice(0, 5)
+              .join("; ")}`
+          );
+        }
+        prompt = promptRegistry.render(templateSet, "repair", {
+          prompt: basePrompt,
+          errors: errors.map((error) => `- ${error}`).join("\n"),
+          previousResponse: text,
+        });
+      }
+
+      return { response: parsedResponse, prompt: templateSet.info };
+    } catch (error) {
+      console.error(`Error calling ${provider.displayName} API:`, error);
+
+      if (error instanceof Error) {
+        throw error;
+      }
+
+      throw new Error(
+        `Failed to get weather analysis from ${provider.displayName}`
+      );
+    }
+  }
+
+  /**
+   * Provider data is metric. For imperial requests the prompt shows each
+   * value in both systems: metric for the unit-suffixed fields, imperial for
+   * the text.
+   */
+  private buildProviderContext(
+    templateSet: PromptTemplateSet,
+    units: UnitSystem,
+    vcForecast?: StatisticalForecast
+  ): string {
+    const targetDay = vcForecast && (vcForecast.current || vcForecast.forecast);
+    if (!vcForecast || !targetDay) return "";
+
+    const show = (value: number | string | null, unit = ""): string =>
+      value === null ? "N/A" : `${value}${unit}`;
+    const describe = (value: number, quantity: Quantity): string =>
+      units === "metric"
+        ? formatQuantity(value, quantity, "metric")
+        : `${formatQuantity(value, quantity, "metric")} (${formatQuantity(
+            value,
+            quantity,
+            units
+          )})`;
+    const showQuantity = (value: number | null, quantity: Quantity): string =>
+      value === null ? "N/A" : describe(value, quantity);
+    const { historicalData, statistics, provider, location } = vcForecast;
+
+    const context = promptRegistry.render(templateSet, "provider-context", {
+      providerName: provider.displayName,
+      providerHeading: provider.displayName.toUpperCase(),
+      dataType: vcForecast.current ? "CURRENT/HISTORICAL" : "FORECAST",
+      address: location.address,
+      locationLatitude: location.latitude,
+      locationLongitude: location.longitude,
+      temp: describe(targetDay.temp, "temperature"),
+      tempMin: describe(targetDay.tempMin, "temperature"),
+      tempMax: describe(targetDay.tempMax, "temperature"),
+      feelsLike: showQuantity(targetDay.feelsLike, "temperature"),
+      humidity: show(targetDay.humidity, "%"),
+      precip: describe(targetDay.precip, "precipitation"),
+      precipProb: show(targetDay.precipProb, "%"),
+      snow: showQuantity(targetDay.snow, "snow"),
+      snowDepth: showQuantity(targetDay.snowDepth, "snow"),
+      windSpeed: showQuantity(targetDay.windSpeed, "windSpeed"),
+      windGust: showQuantity(targetDay.windGust, "windSpeed"),
+      cloudCover: show(targetDay.cloudCover, "%"),
+      uvIndex: show(targetDay.uvIndex),
+      visibility: showQuantity(targetDay.visibility, "distance"),
+      pressure: show(targetDay.pressure, " mb"),
+      conditions: show(targetDay.conditions),
+      description: show(targetDay.description),
+      yearCount: historicalData.yearsRequested.length,
+      windowDays: historicalData.windowDays,
+      sampleSize: statistics.sampleSize,
+      missingYearsNote:
+        historicalData.missingYears.length > 0
+          ? `, no data for ${historicalData.missingYears.join(", ")}`
+          : "",
+      averageTemperature: describe(
+        historicalData.monthlyAverages.temperature,
+        "temperature"
+      ),
+      averagePrecipitation: describe(
+        historicalData.monthlyAverages.precipitation,
+        "precipitation"
+      ),
+      averageHumidity: historicalData.monthlyAverages.humidity,
+      averageWindSpeed: describe(
+        historicalData.monthlyAverages.windspeed,
+        "windSpeed"
+      ),
+      temperatureMean: describe(statistics.temperatureStats.mean, "temperature"),
+      temperatureMin: describe(statistics.temperatureStats.min, "temperature"),
+      temperatureMax: describe(statistics.temperatureStats.max, "temperature"),
+      temperatureStdDev: describe(
+        statistics.temperatureStats.standardDeviation,
+        "temperatureChange"
+      ),
+      precipitationMean: describe(
+        statistics.precipitationStats.totalMean,
+        "precipitation"
+      ),
+      precipitationProbability: statistics.precipitationStats.probability,
+      precipitationMax: describe(
+        statistics.precipitationStats.maxRecorded,
+        "precipitation"
+      ),
+      temperatureTrend: statistics.trends.temperatureTrend,
+      precipitationTrend: statistics.trends.precipitationTrend,
+    });
+
+    // Blank lines around the block keep it apart from the instructions
+    return `\n${context}\n`;
+  }
+
+  private buildPrompt(
+    templateSet: PromptTemplateSet,
+    schema: SchemaNode,
+    query: WeatherQuery,
+    vcForecast?: StatisticalForecast
+  ): string {
+    const units = query.units ?? "metric";
+    return promptRegistry.render(templateSet, "system", {
+      outputSchema: promptRegistry.render(templateSet, "output-schema", {
+        schema: JSON.stringify(schema),
+      }),
+      providerContext: this.buildProviderContext(
+        templateSet,
+        units,
+        vcForecast
+      ),
+      temperatureUnit: unitName("temperature", units),
+      precipitationUnit: unitName("precipitation", units),
+      snowUnit: unitName("snow", units),
+      windSpeedUnit: unitName("windSpeed", units),
+      latitude: query.latitude,
+      longitude: query.longitude,
+      date: query.date,
+    });
+  }
+}
+
+export const llmAnalysisService = new LlmAnalysisService();
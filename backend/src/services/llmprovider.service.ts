@@ -0,0 +1,21 @@
+import { config } from "../config/config";
+import { LlmProvider } from "../types/llm.types";
+import { geminiService } from "./gemini.service";
+import { openAiCompatibleService } from "./openai.service";
+
+const providers: Record<string, LlmProvider> = {
+  [geminiService.name]: geminiService,
+  [openAiCompatibleService.name]: openAiCompatibleService,
+};
+
+export function getLlmProvider(name: string = config.llmProvider): LlmProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown LLM provider "${name}". Available providers: ${Object.keys(
+        providers
+      ).join(", ")}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,452 @@
+import fs from "fs/promises";
+import path from "path";
+import { NetCDFReader } from "netcdfjs";
+import { config } from "../config/config";
+import {
+  DailyObservation,
+  ProviderDailyData,
+  WeatherDataProvider,
+} from "../types/provider.types";
+
+type GridVariable =
+  | "temp"
+  | "tempMax"
+  | "tempMin"
+  | "precip"
+  | "humidity"
+  | "windSpeed"
+  | "cloudCover"
+  | "uvIndex"
+  | "pressure"
+  | "snow";
+
+/**
+ * A regular lat/lon grid of daily values. Each variable is a flat array
+ * indexed [date][lat][lon], with NaN for missing cells.
+ */
+interface GridDataset {
+  file: string;
+  lats: number[];
+  lons: number[];
+  dates: string[];
+  variables: Partial<Record<GridVariable, Float64Array>>;
+}
+
+interface NetCDFAttribute {
+  name: string;
+  value: string | number;
+}
+
+// Accepted names per variable: canonical CSV column, NASA POWER, ERA5 short name
+const VARIABLE_ALIASES: Record<GridVariable, string[]> = {
+  temp: ["temp", "T2M", "t2m"],
+  tempMax: ["tempmax", "T2M_MAX", "mx2t"],
+  tempMin: ["tempmin", "T2M_MIN", "mn2t"],
+  precip: ["precip", "PRECTOTCORR", "PRECTOT", "tp"],
+  humidity: ["humidity", "RH2M"],
+  windSpeed: ["windspeed", "WS10M", "si10"],
+  cloudCover: ["cloudcover", "CLOUD_AMT", "tcc"],
+  uvIndex: ["uvindex", "ALLSKY_SFC_UV_INDEX"],
+  pressure: ["pressure", "PS", "sp"],
+  snow: ["snow", "sf"],
+};
+
+const GRID_VARIABLES = Object.keys(VARIABLE_ALIASES) as GridVariable[];
+
+const TIME_UNIT_MS: Record<string, number> = {
+  seconds: 1000,
+  minutes: 60 * 1000,
+  hours: 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Converts a source value to the metric units used by DailyObservation
+ * based on the variable's `units` attribute. CSV tiles carry no units and
+ * are expected to be in DailyObservation units already.
+ */
+const toMetric = (
+  variable: GridVariable,
+  units: string | undefined
+): ((value: number) => number) => {
+  const unit = (units || "").trim();
+
+  if (unit === "K") return (v) => v - 273.15;
+  if (variable === "precip" || variable === "snow") {
+    if (unit === "m") return (v) => v * (variable === "snow" ? 100 : 1000);
+    if (unit === "kg m-2 s-1") return (v) => v * 86400;
+  }
+  if (variable === "windSpeed" && (unit === "m s-1" || unit === "m/s")) {
+    return (v) => v * 3.6;
+  }
+  if (variable === "pressure") {
+    if (unit === "Pa") return (v) => v / 100;
+    if (unit === "kPa") return (v) => v * 10;
+  }
+  if (variable === "cloudCover" && unit === "(0 - 1)") return (v) => v * 100;
+  return (v) => v;
+};
+
+const sortedUnique = (values: number[]): number[] =>
+  Array.from(new Set(values)).sort((a, b) => a - b);
+
+export class LocalGridService implements WeatherDataProvider {
+  readonly name = "localgrid";
+  readonly displayName = "Local gridded dataset";
+  readonly supportsForecast = false;
+
+  private datasets: Promise<GridDataset[]> | null = null;
+
+  private loadDatasets(): Promise<GridDataset[]> {
+    if (!this.datasets) {
+      this.datasets = this.readDirectory(path.resolve(config.localGridDir));
+      // Allow a retry after the files are fixed instead of caching the failure
+      this.datasets.catch(() => {
+        this.datasets = null;
+      });
+    }
+    return this.datasets;
+  }
+
+  private async readDirectory(directory: string): Promise<GridDataset[]> {
+    const files = (await fs.readdir(directory)).sort();
+    const datasets: GridDataset[] = [];
+
+    for (const file of files) {
+      const fullPath = path.join(directory, file);
+      const extension = path.extname(file).toLowerCase();
+
+      try {
+        if (extension === ".nc") {
+          datasets.push(this.parseNetCDF(file, await fs.readFile(fullPath)));
+        } else if (extension === ".csv") {
+          datasets.push(
+            this.parseCsv(file, await fs.readFile(fullPath, "utf-8"))
+          );
+        }
+      } catch (error) {
+        console.warn(
+          `[LocalGrid] Skipping ${file}:`,
+          error instanceof Error ? error.message : "Unknown error"
+        );
+      }
+    }
+
+    console.log(
+      `[LocalGrid] Loaded ${datasets.length} grid file(s) from ${directory}`
+    );
+    return datasets;
+  }
+
+  /**
+   * CSV tiles have a header row with `date,lat,lon` followed by any of the
+   * variable columns, one row per grid cell per day.
+   */
+  private parseCsv(file: string, content: string): GridDataset {
+    const [headerLine, ...lines] = content.trim().split(/\r?\n/);
+    const header = headerLine.split(",").map((h) => h.trim());
+    const column = (names: string[]) =>
+      header.findIndex((h) => names.includes(h));
+
+    const dateIndex = column(["date", "datetime"]);
+    const latIndex = column(["lat", "latitude"]);
+    const lonIndex = column(["lon", "longitude"]);
+    if (dateIndex < 0 || latIndex < 0 || lonIndex < 0) {
+      throw new Error("CSV tile must have date, lat and lon columns");
+    }
+
+    const rows = lines
+      .filter((line) => line.trim() !== "")
+      .map((line) => line.split(",").map((cell) => cell.trim()));
+
+    const lats = sortedUnique(rows.map((r) => parseFloat(r[latIndex])));
+    const lons = sortedUnique(rows.map((r) => parseFloat(r[lonIndex])));
+    const dates = Array.from(new Set(rows.map((r) => r[dateIndex]))).sort();
+    const cellCount = dates.length * lats.length * lons.length;
+    const indexOf = <T>(values: T[]) =>
+      new Map(values.map((value, index) => [value, index]));
+    const dateOffsets = indexOf(dates);
+    const latOffsets = indexOf(lats);
+    const lonOffsets = indexOf(lons);
+
+    const variables: GridDataset["variables"] = {};
+    for (const variable of GRID_VARIABLES) {
+      const index = column(VARIABLE_ALIASES[variable]);
+      if (index < 0) continue;
+
+      const values = new Float64Array(cellCount).fill(NaN);
+      for (const row of rows) {
+        const offset =
+          (dateOffsets.get(row[dateIndex])! * lats.length +
+            latOffsets.get(parseFloat(row[latIndex]))!) *
+            lons.length +
+          lonOffsets.get(parseFloat(row[lonIndex]))!;
+        const value = parseFloat(row[index]);
+        values[offset] = isNaN(value) ? NaN : value;
+      }
+      variables[variable] = values;
+    }
+
+    return { file, lats, lons, dates, variables };
+  }
+
+  /**
+   * Reads NetCDF-3 (classic or 64-bit offset) files laid out as
+   * variable(time, lat, lon), honouring scale_factor/add_offset packing and
+   * _FillValue/missing_value.
+   */
+  private parseNetCDF(file: string, buffer: Buffer): GridDataset {
+    const reader = new NetCDFReader(buffer);
+    const names = reader.variables.map((v) => v.name);
+    const find = (candidates: string[]) =>
+      reader.variables.find((v) => candidates.includes(v.name));
+    const attributesOf = (variable: { attributes: unknown }) =>
+      variable.attributes as unknown as NetCDFAttribute[];
+    const attribute = (variable: { attributes: unknown }, name: string) =>
+      attributesOf(variable).find((a) => a.name === name)?.value;
+    const read = (variable: Parameters<typeof reader.getDataVariable>[0]) =>
+      (reader.getDataVariable(variable) as (number | number[])[]).flat();
+
+    const latVar = find(["lat", "latitude"]);
+    const lonVar = find(["lon", "longitude"]);
+    const timeVar = find(["time"]);
+    if (!latVar || !lonVar || !timeVar) {
+      throw new Error(
+        `NetCDF file needs lat, lon and time variables (found: ${names.join(
+          ", "
+        )})`
+      );
+    }
+
+    const rawLats = read(latVar);
+    const rawLons = read(lonVar).map((lon) => (lon > 180 ? lon - 360 : lon));
+
+    const timeUnits = String(attribute(timeVar, "units") || "");
+    const match = timeUnits.match(/^(\w+) since (.+)$/);
+    if (!match || !TIME_UNIT_MS[match[1]]) {
+      throw new Error(`Unsupported time units "${timeUnits}"`);
+    }
+    const origin = Date.parse(
+      /[zZ]|[+-]\d\d:?\d\d$/.test(match[2])
+        ? match[2]
+        : `${match[2].trim().replace(" ", "T")}Z`
+    );
+    const dates = read(timeVar).map(
+      (t) =>
+        new Date(origin + t * TIME_UNIT_MS[match[1]])
+          .toISOString()
+          .split("T")[0]
+    );
+
+    // Grids are stored with ascending axes so lookups can bracket indices
+    const latOrder = rawLats
+      .map((_, i) => i)
+      .sort((a, b) => rawLats[a] - rawLats[b]);
+    const lonOrder = rawLons
+      .map((_, i) => i)
+      .sort((a, b) => rawLons[a] - rawLons[b]);
+    const lats = latOrder.map((i) => rawLats[i]);
+    const lons = lonOrder.map((i) => rawLons[i]);
+
+    const variables: GridDataset["variables"] = {};
+    for (const variable of GRID_VARIABLES) {
+      const source = find(VARIABLE_ALIASES[variable]);
+      if (!source) continue;
+
+      const raw = read(source);
+      const scale = Number(attribute(source, "scale_factor") ?? 1);
+      const offset = Number(attribute(source, "add_offset") ?? 0);
+      const fill = attribute(source, "_FillValue");
+      const missing = attribute(source, "missing_value");
+      const convert = toMetric(
+        variable,
+        attribute(source, "units") as string | undefined
+      );
+
+      const values = new Float64Array(raw.length);
+      for (let t = 0; t < dates.length; t++) {
+        for (let i = 0; i < lats.length; i++) {
+          for (let j = 0; j < lons.length; j++) {
+            const value =
+              raw[
+                (t * rawLats.length + latOrder[i]) * rawLons.length +
+                  lonOrder[j]
+              ];
+            values[(t * lats.length + i) * lons.length + j] =
+              value === undefined || value === fill || value === missing
+                ? NaN
+                : convert(value * scale + offset);
+          }
+        }
+      }
+      variables[variable] = values;
+    }
+
+    return { file, lats, lons, dates, variables };
+  }
+
+  /**
+   * Index of the grid point at or below `value` and the fractional distance
+   * to the next one, or null when the value is outside the axis (allowing
+   * half a cell of slack at the edges).
+   */
+  private bracket(
+    axis: number[],
+    value: number
+  ): { index: number; fraction: number } | null {
+    if (axis.length === 1) {
+      return { index: 0, fraction: 0 };
+    }
+    const halfCell = (axis[1] - axis[0]) / 2;
+    if (
+      value < axis[0] - halfCell ||
+      value > axis[axis.length - 1] + halfCell
+    ) {
+      return null;
+    }
+    if (value <= axis[0]) return { index: 0, fraction: 0 };
+    if (value >= axis[axis.length - 1]) {
+      return { index: axis.length - 1, fraction: 0 };
+    }
+
+    let index = 0;
+    while (axis[index + 1] < value) index++;
+    return {
+      index,
+      fraction: (value - axis[index]) / (axis[index + 1] - axis[index]),
+    };
+  }
+
+  private sample(
+    dataset: GridDataset,
+    values: Float64Array,
+    dateIndex: number,
+    lat: { index: number; fraction: number },
+    lon: { index: number; fraction: number }
+  ): number | null {
+    const at = (i: number, j: number) =>
+      values[
+        (dateIndex * dataset.lats.length +
+          Math.min(i, dataset.lats.length - 1)) *
+          dataset.lons.length +
+          Math.min(j, dataset.lons.length - 1)
+      ];
+
+    const nearest = at(
+      lat.index + Math.round(lat.fraction),
+      lon.index + Math.round(lon.fraction)
+    );
+
+    if (config.localGridInterpolation === "bilinear") {
+      const corners = [
+        at(lat.index, lon.index),
+        at(lat.index, lon.index + 1),
+        at(lat.index + 1, lon.index),
+        at(lat.index + 1, lon.index + 1),
+      ];
+      // Coastal and masked cells fall back to the nearest valid value
+      if (corners.every((v) => !isNaN(v))) {
+        const [v00, v01, v10, v11] = corners;
+        const south = v00 + (v01 - v00) * lon.fraction;
+        const north = v10 + (v11 - v10) * lon.fraction;
+        return south + (north - south) * lat.fraction;
+      }
+    }
+
+    return isNaN(nearest) ? null : nearest;
+  }
+
+  async fetchDaily(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string
+  ): Promise<ProviderDailyData> {
+    const lat = parseFloat(latitude);
+    const lon = parseFloat(longitude);
+    const lastDate = endDate || startDate;
+    const datasets = await this.loadDatasets();
+    const days = new Map<string, DailyObservation>();
+    let cell: { latitude: number; longitude: number } | null = null;
+
+    for (const dataset of datasets) {
+      const latBracket = this.bracket(dataset.lats, lat);
+      const lonBracket = this.bracket(dataset.lons, lon);
+      if (!latBracket || !lonBracket) continue;
+
+      dataset.dates.forEach((date, dateIndex) => {
+        if (date < startDate || date > lastDate || days.has(date)) return;
+
+        const read = (variable: GridVariable): number | null => {
+          const values = dataset.variables[variable];
+          if (!values) return null;
+          const value = this.sample(
+            dataset,
+            values,
+            dateIndex,
+            latBracket,
+            lonBracket
+          );
+          return value === null ? null : parseFloat(value.toFixed(2));
+        };
+
+        const temp = read("temp");
+        if (temp === null) return;
+
+        days.set(date, {
+          date,
+          temp,
+          tempMax: read("tempMax") ?? temp,
+          tempMin: read("tempMin") ?? temp,
+          feelsLike: null,
+          humidity: read("humidity"),
+          precip: read("precip") ?? 0,
+          precipProb: null,
+          snow: read("snow"),
+          snowDepth: null,
+          windSpeed: read("windSpeed"),
+          windGust: null,
+          cloudCover: read("cloudCover"),
+          uvIndex: read("uvIndex"),
+          visibility: null,
+          pressure: read("pressure"),
+          conditions: null,
+          description: null,
+        });
+      });
+
+      cell =
+        cell ||
+        (config.localGridInterpolation === "bilinear"
+          ? { latitude: lat, longitude: lon }
+          : {
+              latitude:
+                dataset.lats[
+                  latBracket.index + Math.round(latBracket.fraction)
+                ],
+              longitude:
+                dataset.lons[
+                  lonBracket.index + Math.round(lonBracket.fraction)
+                ],
+            });
+    }
+
+    if (!cell) {
+      throw new Error(
+        `No local grid file covers ${latitude}, ${longitude} (directory: ${config.localGridDir})`
+      );
+    }
+
+    return {
+      location: {
+        ...cell,
+        address: `${cell.latitude}, ${cell.longitude} (local grid, ${config.localGridInterpolation})`,
+      },
+      days: Array.from(days.values()).sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    };
+  }
+}
+
+export const localGridService = new LocalGridService();
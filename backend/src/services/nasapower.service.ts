@@ -0,0 +1,332 @@
+import axios from "axios";
+import { config } from "../config/config";
+import { CacheMetadata } from "../types/weather.types";
+import {
+  DailyObservation,
+  HourlyObservation,
+  ProviderDailyData,
+  WeatherDataProvider,
+} from "../types/provider.types";
+import { cachedRangeFetch } from "./cache.service";
+import { upstreamRecorder } from "./recorder.service";
+import { upstreamResilience } from "./resilience.service";
+
+// Client timeout for a single attempt; retries come on top of it
+const UPSTREAM_TIMEOUT_MS = 30000;
+
+const POWER_PARAMETERS = [
+  "T2M",
+  "T2M_MAX",
+  "T2M_MIN",
+  "PRECTOTCORR",
+  "WS10M",
+  "RH2M",
+  "ALLSKY_SFC_UV_INDEX",
+  "CLOUD_AMT",
+  "PS",
+] as const;
+
+// The hourly endpoint has no daily extremes or surface pressure
+const POWER_HOURLY_PARAMETERS = [
+  "T2M",
+  "PRECTOTCORR",
+  "WS10M",
+  "RH2M",
+  "ALLSKY_SFC_UV_INDEX",
+  "CLOUD_AMT",
+] as const;
+
+type PowerParameter = (typeof POWER_PARAMETERS)[number];
+
+type PowerTemporal = "daily" | "hourly";
+
+export interface NasaPowerResponse {
+  type: string;
+  geometry: {
+    type: string;
+    coordinates: [number, number, number?];
+  };
+  properties: {
+    parameter: Partial<Record<PowerParameter, Record<string, number>>>;
+  };
+  header?: {
+    fill_value?: number;
+  };
+  messages?: string[];
+}
+
+export class NasaPowerService implements WeatherDataProvider {
+  readonly name = "nasapower";
+  readonly displayName = "NASA POWER";
+  readonly supportsForecast = false;
+
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = config.nasaPowerBaseUrl.replace(/\/$/, "");
+  }
+
+  private toPowerDate(isoDate: string): string {
+    return isoDate.replace(/-/g, "");
+  }
+
+  private fromPowerDate(powerDate: string): string {
+    return `${powerDate.slice(0, 4)}-${powerDate.slice(4, 6)}-${powerDate.slice(
+      6,
+      8
+    )}`;
+  }
+
+  private async fetchPowerData(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    temporal: PowerTemporal = "daily",
+    signal?: AbortSignal
+  ): Promise<NasaPowerResponse> {
+    const parameters =
+      temporal === "hourly" ? POWER_HOURLY_PARAMETERS : POWER_PARAMETERS;
+
+    return cachedRangeFetch(
+      {
+        source: temporal === "hourly" ? `${this.name}-hourly` : this.name,
+        latitude,
+        longitude,
+        startDate,
+        endDate,
+        cacheMetadata,
+        isComplete: (data: NasaPowerResponse) => !this.hasFillValues(data),
+      },
+      () =>
+        upstreamRecorder.run(
+          this.name,
+          {
+            latitude,
+            longitude,
+            startDate,
+            endDate,
+            parameters,
+            community: config.nasaPowerCommunity,
+          },
+          () =>
+            this.requestPowerData(
+              latitude,
+              longitude,
+              startDate,
+              endDate,
+              temporal,
+              signal
+            )
+        )
+    );
+  }
+
+  private async requestPowerData(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    temporal: PowerTemporal = "daily",
+    signal?: AbortSignal
+  ): Promise<NasaPowerResponse> {
+    try {
+      const url = `${this.baseUrl}/api/temporal/${temporal}/point`;
+
+      console.log(
+        `[NasaPower] Fetching ${startDate}${
+          endDate ? ` to ${endDate}` : ""
+        } for ${latitude}, ${longitude} from: ${url}`
+      );
+
+      const response = await upstreamResilience.run(
+        this.name,
+        (attemptSignal) =>
+          axios.get<NasaPowerResponse>(url, {
+            params: {
+              parameters: (temporal === "hourly"
+                ? POWER_HOURLY_PARAMETERS
+                : POWER_PARAMETERS
+              ).join(","),
+              community: config.nasaPowerCommunity,
+              latitude,
+              longitude,
+              start: this.toPowerDate(startDate),
+              end: this.toPowerDate(endDate || startDate),
+              format: "JSON",
+            },
+            timeout: UPSTREAM_TIMEOUT_MS,
+            signal: attemptSignal,
+          }),
+        { signal, attemptTimeoutMs: UPSTREAM_TIMEOUT_MS }
+      );
+
+      console.log(`[NasaPower] Successfully fetched ${temporal} point data`);
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const detail =
+          error.response?.data?.messages?.join(" ") ||
+          error.response?.data?.message ||
+          error.message;
+        console.error(
+          `[NasaPower] API Error: ${error.response?.status} - ${detail}`
+        );
+        throw new Error(`NASA POWER API error: ${detail}`);
+      }
+      throw error;
+    }
+  }
+
+  // Days POWER has not processed yet come back as fill values
+  private hasFillValues(data: NasaPowerResponse): boolean {
+    const fillValue = data.header?.fill_value ?? -999;
+    const { T2M, PRECTOTCORR } = data.properties.parameter;
+    return [T2M, PRECTOTCORR].some((values) =>
+      Object.values(values || {}).some((value) => value === fillValue)
+    );
+  }
+
+  private toObservations(data: NasaPowerResponse): DailyObservation[] {
+    const parameters = data.properties.parameter;
+    const fillValue = data.header?.fill_value ?? -999;
+
+    const read = (parameter: PowerParameter, date: string): number | null => {
+      const value = parameters[parameter]?.[date];
+      return value === undefined || value === fillValue ? null : value;
+    };
+
+    return Object.keys(parameters.T2M || {})
+      .sort()
+      .flatMap((powerDate): DailyObservation[] => {
+        const temp = read("T2M", powerDate);
+        const precip = read("PRECTOTCORR", powerDate);
+        // Days still being processed by POWER come back as fill values
+        if (temp === null || precip === null) return [];
+
+        const windSpeed = read("WS10M", powerDate);
+        const surfacePressure = read("PS", powerDate);
+
+        return [
+          {
+            date: this.fromPowerDate(powerDate),
+            temp,
+            tempMax: read("T2M_MAX", powerDate) ?? temp,
+            tempMin: read("T2M_MIN", powerDate) ?? temp,
+            feelsLike: null,
+            humidity: read("RH2M", powerDate),
+            precip,
+            precipProb: null,
+            snow: null,
+            snowDepth: null,
+            // POWER reports m/s and kPa
+            windSpeed:
+              windSpeed === null
+                ? null
+                : parseFloat((windSpeed * 3.6).toFixed(2)),
+            windGust: null,
+            cloudCover: read("CLOUD_AMT", powerDate),
+            uvIndex: read("ALLSKY_SFC_UV_INDEX", powerDate),
+            visibility: null,
+            pressure:
+              surfacePressure === null
+                ? null
+                : parseFloat((surfacePressure * 10).toFixed(1)),
+            conditions: null,
+            description: null,
+          },
+        ];
+      });
+  }
+
+  // Hourly keys are YYYYMMDDHH in local solar time
+  private toHourlyObservations(data: NasaPowerResponse): HourlyObservation[] {
+    const parameters = data.properties.parameter;
+    const fillValue = data.header?.fill_value ?? -999;
+
+    const read = (parameter: PowerParameter, key: string): number | null => {
+      const value = parameters[parameter]?.[key];
+      return value === undefined || value === fillValue ? null : value;
+    };
+
+    return Object.keys(parameters.T2M || {})
+      .sort()
+      .flatMap((key): HourlyObservation[] => {
+        const temp = read("T2M", key);
+        const precip = read("PRECTOTCORR", key);
+        if (temp === null || precip === null) return [];
+
+        const windSpeed = read("WS10M", key);
+
+        return [
+          {
+            date: this.fromPowerDate(key),
+            hour: parseInt(key.slice(8, 10), 10),
+            temp,
+            precip,
+            precipProb: null,
+            humidity: read("RH2M", key),
+            windSpeed:
+              windSpeed === null
+                ? null
+                : parseFloat((windSpeed * 3.6).toFixed(2)),
+            windGust: null,
+            cloudCover: read("CLOUD_AMT", key),
+            uvIndex: read("ALLSKY_SFC_UV_INDEX", key),
+          },
+        ];
+      });
+  }
+
+  async fetchHourly(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<HourlyObservation[]> {
+    const data = await this.fetchPowerData(
+      latitude,
+      longitude,
+      startDate,
+      endDate,
+      cacheMetadata,
+      "hourly",
+      signal
+    );
+    return this.toHourlyObservations(data);
+  }
+
+  async fetchDaily(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<ProviderDailyData> {
+    const data = await this.fetchPowerData(
+      latitude,
+      longitude,
+      startDate,
+      endDate,
+      cacheMetadata,
+      "daily",
+      signal
+    );
+    const [lon, lat] = data.geometry.coordinates;
+
+    return {
+      location: {
+        latitude: lat,
+        longitude: lon,
+        address: `${lat}, ${lon} (NASA POWER grid cell)`,
+      },
+      days: this.toObservations(data),
+    };
+  }
+}
+
+export const nasaPowerService = new NasaPowerService();
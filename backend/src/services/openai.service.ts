@@ -0,0 +1,115 @@
+import axios from "axios";
+import { config } from "../config/config";
+import { LlmProvider } from "../types/llm.types";
+import { SchemaNode } from "../utils/schema";
+import { upstreamRecorder } from "./recorder.service";
+import { RunOptions, upstreamResilience } from "./resilience.service";
+
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+
+interface ChatCompletionResponse {
+  choices: {
+    message: { content: string | null };
+    finish_reason: string;
+  }[];
+}
+
+/**
+ * Chat Completions adapter for OpenAI and the many servers that mimic its
+ * API (vLLM, llama.cpp server, Ollama, LM Studio), so a locally hosted model
+ * can be used by pointing OPENAI_BASE_URL at it.
+ */
+export class OpenAiCompatibleService implements LlmProvider {
+  readonly name = "openai";
+  readonly displayName = "OpenAI-compatible";
+  readonly model = config.llmModel || DEFAULT_OPENAI_MODEL;
+
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = config.openaiBaseUrl.replace(/\/$/, "");
+  }
+
+  // json_schema is preferred; servers that only offer JSON mode get the
+  // schema in the prompt instead
+  private buildRequest(prompt: string, schema: SchemaNode) {
+    const jsonSchemaMode = config.openaiResponseFormat === "json_schema";
+    const content = jsonSchemaMode
+      ? prompt
+      : `${prompt}
+
+Respond with a single JSON document matching this JSON schema:
+${JSON.stringify(schema)}`;
+
+    return {
+      model: this.model,
+      messages: [{ role: "user", content }],
+      temperature: config.llmTemperature,
+      top_p: config.llmTopP,
+      max_tokens: config.llmMaxOutputTokens,
+      response_format: jsonSchemaMode
+        ? {
+            type: "json_schema",
+            json_schema: { name: "weather_response", schema, strict: false },
+          }
+        : { type: "json_object" },
+    };
+  }
+
+  private async requestCompletion(
+    body: ReturnType<OpenAiCompatibleService["buildRequest"]>,
+    options?: RunOptions
+  ): Promise<string> {
+    const url = `${this.baseUrl}/chat/completions`;
+    console.log(`[OpenAI] Requesting ${this.model} completion from: ${url}`);
+
+    try {
+      const response = await upstreamResilience.run(
+        this.name,
+        (signal) =>
+          axios.post<ChatCompletionResponse>(url, body, {
+            headers: config.openaiApiKey
+              ? { Authorization: `Bearer ${config.openaiApiKey}` }
+              : undefined,
+            timeout: config.llmTimeoutMs,
+            signal,
+          }),
+        { ...options, attemptTimeoutMs: config.llmTimeoutMs }
+      );
+
+      const choice = response.data.choices?.[0];
+      if (!choice?.message?.content) {
+        throw new Error(
+          `OpenAI-compatible API returned no content (finish reason: ${
+            choice?.finish_reason || "none"
+          })`
+        );
+      }
+      return choice.message.content;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const detail = error.response?.data?.error?.message || error.message;
+        console.error(
+          `[OpenAI] API Error: ${error.response?.status} - ${detail}`
+        );
+        throw new Error(`OpenAI-compatible API error: ${detail}`);
+      }
+      throw error;
+    }
+  }
+
+  async generateJson(
+    prompt: string,
+    schema: SchemaNode,
+    options?: RunOptions
+  ): Promise<string> {
+    const body = this.buildRequest(prompt, schema);
+    return upstreamRecorder.run(
+      this.name,
+      { baseUrl: this.baseUrl, model: this.model, prompt },
+      () => this.requestCompletion(body, options)
+    );
+  }
+}
+
+export const openAiCompatibleService = new OpenAiCompatibleService();
@@ -0,0 +1,131 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { config } from "../config/config";
+import { PromptInfo } from "../types/llm.types";
+
+export type PromptTemplateName =
+  | "system"
+  | "provider-context"
+  | "output-schema"
+  | "repair";
+
+const TEMPLATE_NAMES: PromptTemplateName[] = [
+  "system",
+  "provider-context",
+  "output-schema",
+  "repair",
+];
+
+export type PromptValues = Record<string, string | number>;
+
+export interface PromptTemplateSet {
+  info: PromptInfo;
+  templates: Record<PromptTemplateName, string>;
+}
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Loads versioned prompt templates from `<directory>/<version>/<name>.txt`.
+ * Templates use `{{name}}` placeholders; a placeholder without a value is an
+ * error rather than silently left in the prompt. Each version is read once
+ * and cached, so edited templates take effect after a restart.
+ */
+export class PromptRegistry {
+  private versions = new Map<string, Promise<PromptTemplateSet>>();
+
+  constructor(private directory: string, private activeVersion: string) {}
+
+  private async load(version: string): Promise<PromptTemplateSet> {
+    const versionDir = path.join(this.directory, version);
+    const available = await this.listVersions();
+    if (!available.includes(version)) {
+      throw new Error(
+        `Unknown prompt version "${version}". Available versions: ${
+          available.join(", ") || "none"
+        }`
+      );
+    }
+
+    const contents = await Promise.all(
+      TEMPLATE_NAMES.map(async (name) => {
+        const text = await fs.readFile(
+          path.join(versionDir, `${name}.txt`),
+          "utf-8"
+        );
+        // Editors add a final newline; it is not part of the template
+        return text.replace(/\r\n/g, "\n").replace(/\n$/, "");
+      })
+    );
+
+    const hash = crypto.createHash("sha256");
+    TEMPLATE_NAMES.forEach((name, index) =>
+      hash.update(`${name}\0${contents[index]}\0`)
+    );
+
+    const info: PromptInfo = {
+      version,
+      hash: hash.digest("hex").slice(0, 12),
+    };
+    console.log(
+      `[Prompt] Loaded prompt templates ${info.version} (${info.hash}) from ${versionDir}`
+    );
+
+    return {
+      info,
+      templates: Object.fromEntries(
+        TEMPLATE_NAMES.map((name, index) => [name, contents[index]])
+      ) as Record<PromptTemplateName, string>,
+    };
+  }
+
+  async listVersions(): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(this.directory, {
+        withFileTypes: true,
+      });
+      return entries
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => entry.name)
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /** Template set for `version`, the configured PROMPT_VERSION by default */
+  get(version: string = this.activeVersion): Promise<PromptTemplateSet> {
+    let templateSet = this.versions.get(version);
+    if (!templateSet) {
+      templateSet = this.load(version);
+      // A failed load is retried on the next request
+      templateSet.catch(() => this.versions.delete(version));
+      this.versions.set(version, templateSet);
+    }
+    return templateSet;
+  }
+
+  render(
+    templateSet: PromptTemplateSet,
+    name: PromptTemplateName,
+    values: PromptValues
+  ): string {
+    return templateSet.templates[name].replace(
+      PLACEHOLDER,
+      (_, key: string) => {
+        if (!(key in values)) {
+          throw new Error(
+            `Prompt template ${templateSet.info.version}/${name}.txt uses unknown placeholder {{${key}}}`
+          );
+        }
+        return String(values[key]);
+      }
+    );
+  }
+}
+
+export const promptRegistry = new PromptRegistry(
+  path.resolve(config.promptsDir),
+  config.promptVersion
+);
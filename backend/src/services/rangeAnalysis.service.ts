@@ -0,0 +1,545 @@
+import { config } from "../config/config";
+import { DailyObservation, WeatherDataProvider } from "../types/provider.types";
+import {
+  BestDateCandidate,
+  BestDatesQuery,
+  BestDatesResponse,
+  CacheMetadata,
+  ConditionThresholds,
+  GeneralConditions,
+  RangeAnalysisResponse,
+  RangeDay,
+  RangeDayReference,
+  RangeQuery,
+  UnitSystem,
+} from "../types/weather.types";
+import { mapWithConcurrency } from "../utils/concurrency";
+import { fromIsoDate, shiftDays, toIsoDate } from "../utils/dates";
+import { round2 } from "../utils/statistics";
+import { addUnitNeutralFields, formatQuantity } from "../utils/units";
+import { createCacheMetadata } from "./climatology.service";
+import { conditionsService } from "./conditions.service";
+import {
+  ExpectedConditions,
+  ruleBasedAnalysisService,
+} from "./ruleBased.service";
+import { getWeatherDataProvider } from "./weatherprovider.service";
+
+// Precipitation that makes a day count as wet
+const WET_DAY_MM = 1;
+
+const WEEKDAY_NAMES = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
+
+interface HistoricalRangeYear {
+  /** Years between this year and the requested range */
+  offset: number;
+  days: DailyObservation[];
+}
+
+const shiftYears = (isoDate: string, years: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCFullYear(date.getUTCFullYear() + years);
+  return date.toISOString().split("T")[0];
+};
+
+/** Inclusive list of YYYY-MM-DD dates from start to end */
+const listDates = (startIso: string, endIso: string): string[] => {
+  const dates: string[] = [];
+  for (let date = startIso; date <= endIso; date = shiftDays(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+};
+
+const weekdayOf = (isoDate: string): number =>
+  new Date(`${isoDate}T00:00:00Z`).getUTCDay();
+
+/**
+ * Data-only analysis of a multi-day window: per-day expected conditions and
+ * comfort scores (from the provider's observations or forecast where they
+ * exist, from historical samples otherwise) plus a summary of the window.
+ * Also ranks the days of a window for the best-date finder.
+ */
+export class RangeAnalysisService {
+  /**
+   * Days of the range that fall within the provider's reach: the past, plus
+   * the forecast horizon for providers that forecast. Failures fall back to
+   * climatology for those days.
+   */
+  private async getNearTermDays(
+    provider: WeatherDataProvider,
+    query: RangeQuery,
+    dates: string[],
+    cacheMetadata: CacheMetadata
+  ): Promise<Map<string, DailyObservation>> {
+    const today = new Date().toISOString().split("T")[0];
+    const horizonEnd = provider.supportsForecast
+      ? shiftDays(today, config.forecastHorizonDays - 1)
+      : shiftDays(today, -1);
+    const nearTermDates = dates.filter((date) => date <= horizonEnd);
+    const days = new Map<string, DailyObservation>();
+    if (nearTermDates.length === 0) return days;
+
+    try {
+      const observations = provider.getExtendedForecast
+        ? await provider.getExtendedForecast(
+            query.latitude,
+            query.longitude,
+            query.startDate,
+            nearTermDates.length,
+            cacheMetadata
+          )
+        : (
+            await provider.fetchDaily(
+              query.latitude,
+              query.longitude,
+              nearTermDates[0],
+              nearTermDates[nearTermDates.length - 1],
+              cacheMetadata
+            )
+          ).days;
+
+      observations.forEach((day) => days.set(day.date, day));
+      console.log(
+        `[Range] ${days.size} of ${dates.length} days from ${provider.displayName} observations or forecast`
+      );
+      return days;
+    } catch (error) {
+      console.warn(
+        `[Range] ${provider.displayName} has no data for ${
+          nearTermDates[0]
+        } to ${nearTermDates[nearTermDates.length - 1]}, using climatology:`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+      return days;
+    }
+  }
+
+  /**
+   * One ranged call per past year, covering the whole window widened by
+   * ±windowDays so every day gets the same number of samples.
+   */
+  private async getHistoricalYears(
+    provider: WeatherDataProvider,
+    query: Pick<RangeQuery, "latitude" | "longitude">,
+    dates: string[],
+    years: number,
+    windowDays: number,
+    cacheMetadata: CacheMetadata
+  ) {
+    const startYear = parseInt(dates[0].split("-")[0], 10);
+    const yearsRequested = Array.from(
+      { length: years },
+      (_, i) => startYear - years + i
+    );
+    const results = await mapWithConcurrency(
+      yearsRequested,
+      config.historicalFetchConcurrency,
+      async (year): Promise<HistoricalRangeYear> => {
+        const offset = year - startYear;
+        const data = await provider.fetchDaily(
+          query.latitude,
+          query.longitude,
+          shiftDays(shiftYears(dates[0], offset), -windowDays),
+          shiftDays(shiftYears(dates[dates.length - 1], offset), windowDays),
+          cacheMetadata
+        );
+        if (data.days.length === 0) {
+          throw new Error("No days returned");
+        }
+        return { offset, days: data.days };
+      }
+    );
+
+    const historicalYears: HistoricalRangeYear[] = [];
+    const missingYears: number[] = [];
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") {
+        historicalYears.push(result.value);
+        return;
+      }
+      missingYears.push(yearsRequested[index]);
+      console.warn(
+        `[Range] Could not fetch ${yearsRequested[index]} from ${provider.displayName}:`,
+        result.reason instanceof Error ? result.reason.message : "Unknown error"
+      );
+    });
+
+    return { historicalYears, yearsRequested, missingYears };
+  }
+
+  private samplesFor(
+    date: string,
+    historicalYears: HistoricalRangeYear[],
+    windowDays: number
+  ): DailyObservation[] {
+    return historicalYears.flatMap(({ offset, days }) => {
+      const anniversary = shiftYears(date, offset);
+      const from = shiftDays(anniversary, -windowDays);
+      const to = shiftDays(anniversary, windowDays);
+      return days.filter((day) => day.date >= from && day.date <= to);
+    });
+  }
+
+  private getWetDayProbability(
+    expected: ExpectedConditions,
+    samples: DailyObservation[]
+  ): number {
+    if (expected.basis === "observation") {
+      return expected.precip >= WET_DAY_MM ? 100 : 0;
+    }
+    if (expected.basis === "forecast") {
+      return expected.precipProb ?? (expected.precip >= WET_DAY_MM ? 100 : 0);
+    }
+    if (samples.length === 0) return 0;
+    const wet = samples.filter((day) => day.precip >= WET_DAY_MM).length;
+    return round2((wet / samples.length) * 100);
+  }
+
+  /**
+   * Chance that at least one day is wet. Climatology days are counted per
+   * past year (was any of those dates wet?), which keeps multi-day rain
+   * spells from being counted as independent chances; observed and forecast
+   * days are then combined with it as independent events.
+   */
+  private getRangeWetProbability(
+    days: RangeDay[],
+    isoDates: string[],
+    historicalYears: HistoricalRangeYear[]
+  ): number {
+    const climatologyDates = isoDates.filter(
+      (_, index) => days[index].basis === "climatology"
+    );
+
+    let dryChance = 1;
+    if (climatologyDates.length > 0) {
+      const yearsWithData = historicalYears.filter(({ offset, days }) =>
+        climatologyDates.some((date) =>
+          days.some((day) => day.date === shiftYears(date, offset))
+        )
+      );
+      const wetYears = yearsWithData.filter(({ offset, days }) =>
+        climatologyDates.some((date) =>
+          days.some(
+            (day) =>
+              day.date === shiftYears(date, offset) && day.precip >= WET_DAY_MM
+          )
+        )
+      );
+      if (yearsWithData.length > 0) {
+        dryChance = 1 - wetYears.length / yearsWithData.length;
+      }
+    }
+
+    days
+      .filter((day) => day.basis !== "climatology")
+      .forEach((day) => {
+        dryChance *= 1 - day.wet_day_probability / 100;
+      });
+
+    return round2((1 - dryChance) * 100);
+  }
+
+  /**
+   * Reasons behind a candidate's rank: the comfort score's own reasoning,
+   * then how often past days crossed an extreme threshold.
+   */
+  private explainCandidate(
+    expected: ExpectedConditions,
+    general: Partial<GeneralConditions>,
+    wetDayProbability: number,
+    thresholds: ConditionThresholds,
+    units: UnitSystem
+  ): string[] {
+    const extremes: [number | undefined, string][] = [
+      [
+        general.is_very_hot_percentage,
+        `${formatQuantity(
+          thresholds.very_hot_celsius,
+          "temperature",
+          units
+        )} or hotter`,
+      ],
+      [
+        general.is_very_cold_percentage,
+        `${formatQuantity(
+          thresholds.very_cold_celsius,
+          "temperature",
+          units
+        )} or colder`,
+      ],
+      [
+        general.is_very_windy_percentage,
+        `winds of ${formatQuantity(
+          thresholds.very_windy_kph,
+          "windSpeed",
+          units
+        )} or more`,
+      ],
+      [
+        general.is_very_wet_percentage,
+        `${formatQuantity(
+          thresholds.very_wet_mm,
+          "precipitation",
+          units
+        )} of rain or more`,
+      ],
+    ];
+
+    return [
+      ...ruleBasedAnalysisService.explainComfortScore(expected, units),
+      // The comfort score already covers the chance of any rain
+      ...(wetDayProbability === 0
+        ? ["No wet days around this date in past years"]
+        : []),
+      ...extremes
+        .filter(([percentage]) => (percentage ?? 0) > 0)
+        .map(
+          ([percentage, description]) =>
+            `${description} on ${percentage}% of past days`
+        ),
+    ];
+  }
+
+  private toReference(day: RangeDay): RangeDayReference {
+    return {
+      date: day.date,
+      score: day.comfortability_score.score,
+      summary: day.comfortability_score.summary,
+    };
+  }
+
+  async analyzeRange(query: RangeQuery): Promise<RangeAnalysisResponse> {
+    const provider = getWeatherDataProvider();
+    const years = query.years ?? config.climatologyYears;
+    const windowDays = query.window ?? config.climatologyWindowDays;
+    const units = query.units ?? "metric";
+    const isoDates = listDates(
+      toIsoDate(query.startDate),
+      toIsoDate(query.endDate)
+    );
+    const cache = createCacheMetadata();
+
+    console.log(
+      `[Range] Analysing ${isoDates.length} days (${query.startDate} to ${query.endDate}) from ${provider.displayName} for ${query.latitude}, ${query.longitude}`
+    );
+
+    const [nearTerm, historical] = await Promise.all([
+      this.getNearTermDays(provider, query, isoDates, cache),
+      this.getHistoricalYears(
+        provider,
+        query,
+        isoDates,
+        years,
+        windowDays,
+        cache
+      ),
+    ]);
+
+    if (nearTerm.size === 0 && historical.historicalYears.length === 0) {
+      throw new Error(
+        `${provider.displayName} returned no data for ${query.latitude}, ${query.longitude}`
+      );
+    }
+
+    const today = new Date().toISOString().split("T")[0];
+    let sampleSize = 0;
+    const days: RangeDay[] = isoDates.map((date) => {
+      const samples = this.samplesFor(
+        date,
+        historical.historicalYears,
+        windowDays
+      );
+      sampleSize += samples.length;
+
+      const observed = nearTerm.get(date);
+      const expected = observed
+        ? ruleBasedAnalysisService.fromObservation(
+            observed,
+            date <= today ? "observation" : "forecast"
+          )
+        : ruleBasedAnalysisService.fromSamples(samples);
+
+      return {
+        date: fromIsoDate(date),
+        basis: expected.basis,
+        comfortability_score: ruleBasedAnalysisService.getComfortScore(
+          expected,
+          units
+        ),
+        expected_conditions: ruleBasedAnalysisService.toDayConditions(expected),
+        general_conditions: conditionsService.computeGeneralConditions(samples),
+        wet_day_probability: this.getWetDayProbability(expected, samples),
+        sample_size: samples.length,
+      };
+    });
+
+    const byScore = [...days].sort(
+      (a, b) => b.comfortability_score.score - a.comfortability_score.score
+    );
+    const averageScore =
+      days.reduce((sum, day) => sum + day.comfortability_score.score, 0) /
+      days.length;
+
+    const response: RangeAnalysisResponse = {
+      request_parameters: {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        start_date: query.startDate,
+        end_date: query.endDate,
+      },
+      days,
+      summary: {
+        day_count: days.length,
+        average_comfort_score: Math.round(averageScore),
+        best_day: this.toReference(byScore[0]),
+        worst_day: this.toReference(byScore[byScore.length - 1]),
+        wet_day_probability: this.getRangeWetProbability(
+          days,
+          isoDates,
+          historical.historicalYears
+        ),
+        expected_wet_days: round2(
+          days.reduce((sum, day) => sum + day.wet_day_probability, 0) / 100
+        ),
+      },
+      thresholds: conditionsService.getThresholds(),
+      metadata: {
+        provider: { name: provider.name, displayName: provider.displayName },
+        cache,
+        historical: {
+          yearsRequested: historical.yearsRequested,
+          missingYears: historical.missingYears,
+          windowDays,
+          sampleSize,
+        },
+        units,
+      },
+    };
+
+    return addUnitNeutralFields(response, units);
+  }
+
+  /**
+   * Ranks every day of the window (optionally only some weekdays) by its
+   * comfort score under climatology, using one ranged provider call per
+   * past year. Ties go to the date with fewer wet days, then the earlier one.
+   */
+  async findBestDates(query: BestDatesQuery): Promise<BestDatesResponse> {
+    const provider = getWeatherDataProvider();
+    const years = query.years ?? config.climatologyYears;
+    const windowDays = query.window ?? config.climatologyWindowDays;
+    const units = query.units ?? "metric";
+    const thresholds = conditionsService.getThresholds();
+    const candidateDates = listDates(
+      toIsoDate(query.startDate),
+      toIsoDate(query.endDate)
+    ).filter(
+      (date) =>
+        !query.weekdays ||
+        query.weekdays.some((weekday) => weekday === weekdayOf(date))
+    );
+    const cache = createCacheMetadata();
+
+    console.log(
+      `[Range] Ranking ${candidateDates.length} candidate dates (${query.startDate} to ${query.endDate}) from ${provider.displayName} for ${query.latitude}, ${query.longitude}`
+    );
+
+    const historical = await this.getHistoricalYears(
+      provider,
+      query,
+      candidateDates,
+      years,
+      windowDays,
+      cache
+    );
+    if (historical.historicalYears.length === 0) {
+      throw new Error(
+        `${provider.displayName} returned no data for ${query.latitude}, ${query.longitude}`
+      );
+    }
+
+    let sampleSize = 0;
+    const scored = candidateDates.map(
+      (date): Omit<BestDateCandidate, "rank"> => {
+        const samples = this.samplesFor(
+          date,
+          historical.historicalYears,
+          windowDays
+        );
+        sampleSize += samples.length;
+
+        const expected = ruleBasedAnalysisService.fromSamples(samples);
+        const general = conditionsService.computeGeneralConditions(samples);
+        const wetDayProbability = this.getWetDayProbability(expected, samples);
+
+        return {
+          date: fromIsoDate(date),
+          weekday: WEEKDAY_NAMES[weekdayOf(date)],
+          comfortability_score: ruleBasedAnalysisService.getComfortScore(
+            expected,
+            units
+          ),
+          expected_conditions:
+            ruleBasedAnalysisService.toDayConditions(expected),
+          general_conditions: general,
+          wet_day_probability: wetDayProbability,
+          reasons: this.explainCandidate(
+            expected,
+            general,
+            wetDayProbability,
+            thresholds,
+            units
+          ),
+          sample_size: samples.length,
+        };
+      }
+    );
+
+    // Candidates are in date order, so a stable sort keeps earlier dates first
+    const candidates = scored
+      .sort(
+        (a, b) =>
+          b.comfortability_score.score - a.comfortability_score.score ||
+          a.wet_day_probability - b.wet_day_probability
+      )
+      .map((candidate, index) => ({ rank: index + 1, ...candidate }));
+
+    const response: BestDatesResponse = {
+      request_parameters: {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        start_date: query.startDate,
+        end_date: query.endDate,
+        weekdays: query.weekdays
+          ? query.weekdays.map((weekday) => WEEKDAY_NAMES[weekday])
+          : [],
+      },
+      candidates,
+      thresholds,
+      metadata: {
+        provider: { name: provider.name, displayName: provider.displayName },
+        cache,
+        historical: {
+          yearsRequested: historical.yearsRequested,
+          missingYears: historical.missingYears,
+          windowDays,
+          sampleSize,
+        },
+        units,
+      },
+    };
+
+    return addUnitNeutralFields(response, units);
+  }
+}
+
+export const rangeAnalysisService = new RangeAnalysisService();
@@ -0,0 +1,116 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { config } from "../config/config";
+
+export type UpstreamMode = "live" | "record" | "replay";
+
+interface Fixture<T> {
+  upstream: string;
+  request: unknown;
+  recordedAt: string;
+  response?: T;
+  error?: string;
+}
+
+// Key order must not change the fixture a request maps to
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * Captures upstream request/response pairs to fixture files (record mode) and
+ * serves them back without touching the network (replay mode). Requests must
+ * not contain credentials: they are written to disk verbatim.
+ */
+export class UpstreamRecorder {
+  constructor(private mode: UpstreamMode, private directory: string) {}
+
+  private fixturePath(upstream: string, request: unknown): string {
+    const hash = crypto
+      .createHash("sha256")
+      .update(stableStringify(request))
+      .digest("hex")
+      .slice(0, 24);
+    return path.join(this.directory, upstream, `${hash}.json`);
+  }
+
+  async run<T>(
+    upstream: string,
+    request: unknown,
+    call: () => Promise<T>
+  ): Promise<T> {
+    if (this.mode === "live") return call();
+
+    const fixturePath = this.fixturePath(upstream, request);
+
+    if (this.mode === "replay") {
+      let fixture: Fixture<T>;
+      try {
+        fixture = JSON.parse(await fs.readFile(fixturePath, "utf-8"));
+      } catch (error) {
+        throw new Error(
+          `No recorded ${upstream} fixture for ${stableStringify(
+            request
+          )} (expected ${fixturePath})`
+        );
+      }
+      console.log(`[Recorder] Replaying ${upstream} fixture ${fixturePath}`);
+      if (fixture.error !== undefined) throw new Error(fixture.error);
+      return fixture.response as T;
+    }
+
+    const fixture: Fixture<T> = {
+      upstream,
+      request,
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      fixture.response = await call();
+      return fixture.response;
+    } catch (error) {
+      fixture.error = error instanceof Error ? error.message : String(error);
+      throw error;
+    } finally {
+      await this.write(fixturePath, fixture);
+    }
+  }
+
+  private async write(fixturePath: string, fixture: Fixture<unknown>) {
+    try {
+      await fs.mkdir(path.dirname(fixturePath), { recursive: true });
+      await fs.writeFile(
+        fixturePath,
+        JSON.stringify(fixture, null, 2),
+        "utf-8"
+      );
+      console.log(`[Recorder] Recorded ${fixture.upstream} to ${fixturePath}`);
+    } catch (error) {
+      console.warn(
+        `[Recorder] Could not write fixture ${fixturePath}:`,
+        error instanceof Error ? error.message : "Unknown error"
+      );
+    }
+  }
+}
+
+export const upstreamRecorder = new UpstreamRecorder(
+  config.upstreamMode,
+  path.resolve(config.fixturesDir)
+);
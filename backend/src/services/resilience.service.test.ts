@@ -0,0 +1,198 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { AxiosError } from "axios";
+import { ResilienceOptions, UpstreamResilience } from "./resilience.service";
+
+const options: ResilienceOptions = {
+  maxRetries: 2,
+  retryBaseMs: 1,
+  retryMaxMs: 20,
+  failureThreshold: 3,
+  resetMs: 30,
+  budgetMs: 10000,
+};
+
+const resilience = (overrides: Partial<ResilienceOptions> = {}) =>
+  new UpstreamResilience({ ...options, ...overrides });
+
+// Shaped like the errors the Gemini SDK throws
+const statusError = (status: number, errorDetails?: unknown) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, errorDetails });
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Call that fails with each of `errors` in turn, then succeeds */
+const flaky = (...errors: unknown[]) => {
+  const call = async () => {
+    call.count++;
+    if (call.count <= errors.length) throw errors[call.count - 1];
+    return "ok";
+  };
+  call.count = 0;
+  return call;
+};
+
+describe("UpstreamResilience", () => {
+  describe("retries", () => {
+    it("retries transient failures until the call succeeds", async () => {
+      const call = flaky(statusError(503), new AxiosError("socket hang up"));
+
+      assert.equal(await resilience().run("upstream", call), "ok");
+      assert.equal(call.count, 3);
+    });
+
+    it("does not retry client errors", async () => {
+      const call = flaky(statusError(400));
+
+      await assert.rejects(resilience().run("upstream", call), /HTTP 400/);
+      assert.equal(call.count, 1);
+    });
+
+    it("gives up after the configured number of retries", async () => {
+      const call = flaky(...Array(5).fill(statusError(503)));
+
+      await assert.rejects(resilience().run("upstream", call), /HTTP 503/);
+      assert.equal(call.count, options.maxRetries + 1);
+    });
+
+    it("gives up when the requested retry delay exceeds the limit", async () => {
+      const call = flaky(
+        statusError(429, [
+          {
+            "@type": "type.googleapis.com/google.rpc.RetryInfo",
+            retryDelay: "60s",
+          },
+        ])
+      );
+
+      await assert.rejects(resilience().run("upstream", call), /HTTP 429/);
+      assert.equal(call.count, 1);
+    });
+
+    it("does not start an attempt that could not finish before the deadline", async () => {
+      const call = flaky(statusError(503), statusError(503));
+
+      await assert.rejects(
+        resilience().run("upstream", call, {
+          deadline: Date.now() + 100,
+          attemptTimeoutMs: 1000,
+        }),
+        /HTTP 503/
+      );
+      assert.equal(call.count, 1);
+    });
+
+    it("stops retrying when the caller aborts", async () => {
+      const controller = new AbortController();
+      const call = async () => {
+        controller.abort();
+        throw statusError(503);
+      };
+
+      await assert.rejects(
+        resilience().run("upstream", call, { signal: controller.signal }),
+        /upstream request cancelled/
+      );
+    });
+
+    it("does not call an upstream for an already aborted request", async () => {
+      const call = flaky();
+
+      await assert.rejects(
+        resilience().run("upstream", call, { signal: AbortSignal.abort() }),
+        /upstream request cancelled/
+      );
+      assert.equal(call.count, 0);
+    });
+  });
+
+  describe("circuit breaker", () => {
+    const tripped = async (overrides: Partial<ResilienceOptions> = {}) => {
+      const service = resilience({ maxRetries: 0, ...overrides });
+      for (let i = 0; i < options.failureThreshold; i++) {
+        await assert.rejects(service.run("upstream", flaky(statusError(503))));
+      }
+      return service;
+    };
+
+    it("opens after consecutive transient failures and fails fast", async () => {
+      const service = await tripped();
+      const call = flaky();
+
+      await assert.rejects(
+        service.run("upstream", call),
+        /circuit breaker is open after 3 consecutive failures/
+      );
+      assert.equal(call.count, 0);
+      assert.equal(service.getStatus().upstream.state, "open");
+    });
+
+    it("keeps a breaker per upstream", async () => {
+      const service = await tripped();
+
+      assert.equal(await service.run("other", flaky()), "ok");
+    });
+
+    it("ignores client errors when counting failures", async () => {
+      const service = resilience({ maxRetries: 0 });
+      for (let i = 0; i < options.failureThreshold; i++) {
+        await assert.rejects(service.run("upstream", flaky(statusError(404))));
+      }
+
+      assert.equal(service.getStatus().upstream.state, "closed");
+      assert.equal(service.getStatus().upstream.consecutiveFailures, 0);
+    });
+
+    it("closes again after a successful trial call", async () => {
+      const service = await tripped();
+      await wait(options.resetMs + 10);
+
+      assert.equal(await service.run("upstream", flaky()), "ok");
+      assert.deepEqual(service.getStatus().upstream, {
+        state: "closed",
+        consecutiveFailures: 0,
+        openedAt: null,
+        retryAt: null,
+      });
+    });
+
+    it("reopens when the trial call fails", async () => {
+      const service = await tripped();
+      await wait(options.resetMs + 10);
+
+      await assert.rejects(service.run("upstream", flaky(statusError(503))));
+      assert.equal(service.getStatus().upstream.state, "open");
+    });
+
+    it("lets one trial call through at a time", async () => {
+      const service = await tripped();
+      await wait(options.resetMs + 10);
+
+      const trial = service.run("upstream", () => wait(20).then(() => "ok"));
+      await assert.rejects(
+        service.run("upstream", flaky()),
+        /a trial request is in progress/
+      );
+      assert.equal(await trial, "ok");
+    });
+
+    it("frees the trial slot when the trial call is cancelled", async () => {
+      const service = await tripped();
+      await wait(options.resetMs + 10);
+
+      const controller = new AbortController();
+      await assert.rejects(
+        service.run(
+          "upstream",
+          async () => {
+            controller.abort();
+            throw new Error("aborted");
+          },
+          { signal: controller.signal }
+        ),
+        /upstream request cancelled/
+      );
+      assert.equal(await service.run("upstream", flaky()), "ok");
+    });
+  });
+});
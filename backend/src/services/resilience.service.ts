@@ -0,0 +1,311 @@
+import axios from "axios";
+import { config } from "../config/config";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export interface BreakerStatus {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  failureThreshold: number;
+  resetMs: number;
+  /** Default time a call may take, retries included, when no deadline is given */
+  budgetMs: number;
+}
+
+export interface RunOptions {
+  /** Aborts the attempt in flight and any retries still to come */
+  signal?: AbortSignal;
+  /** Epoch milliseconds by which the call must settle, retries included */
+  deadline?: number;
+  /**
+   * Longest a single attempt can take (the client timeout). Used to decide
+   * whether another attempt still fits before the deadline; without it the
+   * duration of the failed attempt is used.
+   */
+  attemptTimeoutMs?: number;
+}
+
+interface FailureInfo {
+  transient: boolean;
+  retryAfterMs?: number;
+}
+
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+  });
+
+const cancelledError = (upstream: string) =>
+  new Error(`${upstream} request cancelled`);
+
+// Retry-After is either a number of seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+// Gemini reports the wait as a google.rpc.RetryInfo detail, e.g. "27s"
+const parseRetryInfo = (details: unknown): number | undefined => {
+  if (!Array.isArray(details)) return undefined;
+  const retryInfo = details.find(
+    (detail) =>
+      typeof detail?.retryDelay === "string" &&
+      String(detail["@type"]).endsWith("RetryInfo")
+  );
+  const seconds = retryInfo ? parseFloat(retryInfo.retryDelay) : NaN;
+  return isNaN(seconds) ? undefined : seconds * 1000;
+};
+
+/**
+ * Decides whether a failed upstream call is worth retrying: network errors,
+ * timeouts, 408, 429 and 5xx responses are; other client errors are not.
+ */
+const describeFailure = (error: unknown): FailureInfo => {
+  if (axios.isAxiosError(error)) {
+    if (!error.response) return { transient: true };
+    return {
+      transient: TRANSIENT_STATUSES.includes(error.response.status),
+      retryAfterMs: parseRetryAfter(error.response.headers?.["retry-after"]),
+    };
+  }
+
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return {
+      transient: TRANSIENT_STATUSES.includes(status),
+      retryAfterMs: parseRetryInfo(
+        (error as { errorDetails?: unknown }).errorDetails
+      ),
+    };
+  }
+
+  // Errors without a status never got a response (DNS failures, connection
+  // resets)
+  return { transient: true };
+};
+
+/**
+ * Consecutive-failure circuit breaker. Opens after `failureThreshold`
+ * transient failures in a row, fails fast for `resetMs`, then lets a single
+ * trial call through (half-open) to decide whether to close again.
+ */
+class CircuitBreaker {
+  private state: BreakerState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private upstream: string, private options: ResilienceOptions) {}
+
+  acquire(): void {
+    if (this.state === "open") {
+      const retryAt = (this.openedAt || 0) + this.options.resetMs;
+      if (Date.now() < retryAt) {
+        throw new Error(
+          `${this.upstream} circuit breaker is open after ${
+            this.consecutiveFailures
+          } consecutive failures; next attempt after ${new Date(
+            retryAt
+          ).toISOString()}`
+        );
+      }
+      this.state = "half_open";
+      console.log(`[Resilience] ${this.upstream} circuit breaker half-open`);
+    }
+
+    if (this.state === "half_open") {
+      if (this.trialInFlight) {
+        throw new Error(
+          `${this.upstream} circuit breaker is open; a trial request is in progress`
+        );
+      }
+      this.trialInFlight = true;
+    }
+  }
+
+  // Gives back a half-open trial slot without judging upstream health, for
+  // calls the caller cancelled
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  onSuccess(): void {
+    if (this.state !== "closed") {
+      console.log(`[Resilience] ${this.upstream} circuit breaker closed`);
+    }
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  onFailure(transient: boolean): void {
+    const wasTrial = this.state === "half_open";
+    this.trialInFlight = false;
+
+    // Client errors (bad request, auth) say nothing about upstream health
+    if (!transient) {
+      if (wasTrial) this.state = "closed";
+      return;
+    }
+
+    this.consecutiveFailures++;
+    if (wasTrial || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== "open") {
+        console.warn(
+          `[Resilience] ${this.upstream} circuit breaker opened after ${this.consecutiveFailures} consecutive failures`
+        );
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === "open";
+  }
+
+  getStatus(): BreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt:
+        this.state === "open" && this.openedAt
+          ? new Date(this.openedAt + this.options.resetMs).toISOString()
+          : null,
+    };
+  }
+}
+
+/**
+ * Shared resilience layer for upstream API calls: retries transient failures
+ * with jittered exponential backoff (honouring Retry-After) behind one circuit
+ * breaker per upstream. Retries stop when the caller aborts or when another
+ * attempt would no longer finish before the deadline.
+ */
+export class UpstreamResilience {
+  private breakers = new Map<string, CircuitBreaker>();
+
+  constructor(private options: ResilienceOptions) {}
+
+  private getBreaker(upstream: string): CircuitBreaker {
+    let breaker = this.breakers.get(upstream);
+    if (!breaker) {
+      breaker = new CircuitBreaker(upstream, this.options);
+      this.breakers.set(upstream, breaker);
+    }
+    return breaker;
+  }
+
+  // Full jitter: a random delay up to the exponential ceiling
+  private backoffDelay(attempt: number): number {
+    const ceiling = Math.min(
+      this.options.retryMaxMs,
+      this.options.retryBaseMs * Math.pow(2, attempt)
+    );
+    return Math.round(Math.random() * ceiling);
+  }
+
+  async run<T>(
+    upstream: string,
+    call: (signal?: AbortSignal) => Promise<T>,
+    {
+      signal,
+      deadline = Date.now() + this.options.budgetMs,
+      attemptTimeoutMs,
+    }: RunOptions = {}
+  ): Promise<T> {
+    const breaker = this.getBreaker(upstream);
+
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw cancelledError(upstream);
+      breaker.acquire();
+      const startedAt = Date.now();
+
+      try {
+        const result = await call(signal);
+        breaker.onSuccess();
+        return result;
+      } catch (error) {
+        if (signal?.aborted) {
+          breaker.release();
+          throw cancelledError(upstream);
+        }
+
+        const { transient, retryAfterMs } = describeFailure(error);
+        breaker.onFailure(transient);
+
+        if (
+          !transient ||
+          attempt >= this.options.maxRetries ||
+          breaker.isOpen()
+        ) {
+          throw error;
+        }
+
+        const delay = retryAfterMs ?? this.backoffDelay(attempt);
+        if (delay > this.options.retryMaxMs) {
+          console.warn(
+            `[Resilience] ${upstream} asked to retry after ${delay}ms, beyond the ${this.options.retryMaxMs}ms limit; giving up`
+          );
+          throw error;
+        }
+
+        const attemptMs = attemptTimeoutMs ?? Date.now() - startedAt;
+        if (Date.now() + delay + attemptMs > deadline) {
+          console.warn(
+            `[Resilience] ${upstream} attempt ${
+              attempt + 1
+            } failed and another would not finish within the deadline; giving up`
+          );
+          throw error;
+        }
+
+        console.warn(
+          `[Resilience] ${upstream} attempt ${attempt + 1} failed (${
+            error instanceof Error ? error.message : "Unknown error"
+          }); retrying in ${delay}ms`
+        );
+        await sleep(delay, signal);
+      }
+    }
+  }
+
+  getStatus(): Record<string, BreakerStatus> {
+    return Object.fromEntries(
+      Array.from(this.breakers.entries()).map(([upstream, breaker]) => [
+        upstream,
+        breaker.getStatus(),
+      ])
+    );
+  }
+}
+
+export const upstreamResilience = new UpstreamResilience({
+  maxRetries: config.upstreamMaxRetries,
+  retryBaseMs: config.upstreamRetryBaseMs,
+  retryMaxMs: config.upstreamRetryMaxMs,
+  failureThreshold: config.circuitBreakerFailureThreshold,
+  resetMs: config.circuitBreakerResetMs,
+  budgetMs: config.upstreamRetryBudgetMs,
+});
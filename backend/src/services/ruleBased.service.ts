@@ -0,0 +1,582 @@
+import {
+  Activities,
+  ComfortabilityScore,
+  ConditionThresholds,
+  ConditionsBasis,
+  GeneralConditions,
+  GraphData,
+  RangeDayConditions,
+  StatisticalAnalysis,
+  UnitSystem,
+  WeatherQuery,
+  WeatherResponse,
+} from "../types/weather.types";
+import { DailyObservation } from "../types/provider.types";
+import { presentValues, round2 } from "../utils/statistics";
+import {
+  formatQuantity,
+  fromMetric,
+  Quantity,
+  unitLabel,
+} from "../utils/units";
+import { StatisticalForecast } from "./climatology.service";
+import { conditionsService } from "./conditions.service";
+
+/**
+ * Conditions expected on a day: the provider's observation or forecast when
+ * there is one, otherwise historical means for the date.
+ */
+export interface ExpectedConditions {
+  basis: ConditionsBasis;
+  temp: number;
+  tempMax: number;
+  tempMin: number;
+  precip: number;
+  precipProb: number | null;
+  humidity: number | null;
+  windSpeed: number | null;
+  uvIndex: number | null;
+  snow: number | null;
+  snowDepth: number | null;
+  cloudCover: number | null;
+}
+
+type ActivityKind = keyof Activities;
+
+/** A metric value in the requested units, with its unit */
+type FormatQuantity = (value: number, quantity: Quantity) => string;
+
+interface ActivityRule {
+  kind: ActivityKind;
+  applies: (c: ExpectedConditions, t: ConditionThresholds) => boolean;
+  message: (
+    c: ExpectedConditions,
+    t: ConditionThresholds,
+    format: FormatQuantity
+  ) => string;
+}
+
+interface ComfortPenalty {
+  points: number;
+  reason: string;
+}
+
+const COMFORT_MIN_C = 18;
+const COMFORT_MAX_C = 26;
+
+// Checks and rules on variables the provider did not report are skipped
+const isComfortable = (c: ExpectedConditions, t: ConditionThresholds) =>
+  c.temp >= COMFORT_MIN_C &&
+  c.temp <= COMFORT_MAX_C &&
+  (c.precipProb === null || c.precipProb <= 30) &&
+  c.precip < 1 &&
+  (c.windSpeed === null || c.windSpeed < t.very_windy_kph);
+
+const rainLikely = (c: ExpectedConditions, t: ConditionThresholds) =>
+  (c.precipProb !== null && c.precipProb > 50) || c.precip >= t.very_wet_mm;
+
+const ACTIVITY_RULES: ActivityRule[] = [
+  {
+    kind: "warnings",
+    applies: (c) => c.uvIndex !== null && c.uvIndex >= 8,
+    message: (c) =>
+      `UV index of ${c.uvIndex} is very high: wear SPF 30+ sunscreen, a hat and sunglasses, and seek shade around midday.`,
+  },
+  {
+    kind: "warnings",
+    applies: (c, t) => c.tempMax >= t.very_hot_celsius,
+    message: (c, _t, format) =>
+      `Temperatures up to ${format(
+        c.tempMax,
+        "temperature"
+      )}: drink plenty of water and avoid strenuous activity in the afternoon heat.`,
+  },
+  {
+    kind: "warnings",
+    applies: (c, t) => c.tempMin <= t.very_cold_celsius,
+    message: (c, _t, format) =>
+      `Temperatures down to ${format(
+        c.tempMin,
+        "temperature"
+      )}: dress in warm layers and watch for ice.`,
+  },
+  {
+    kind: "warnings",
+    applies: (c, t) => c.precip >= t.very_wet_mm,
+    message: (c, _t, format) =>
+      `Heavy rain expected (${format(
+        c.precip,
+        "precipitation"
+      )}): watch for flooding and allow extra travel time.`,
+  },
+  {
+    kind: "warnings",
+    applies: (c, t) => c.windSpeed !== null && c.windSpeed >= t.very_windy_kph,
+    message: (c, _t, format) =>
+      `Winds around ${format(
+        c.windSpeed as number,
+        "windSpeed"
+      )}: secure loose items and take care with tents and other temporary structures.`,
+  },
+  {
+    kind: "warnings",
+    applies: (c) => c.snow !== null && c.snow > 0,
+    message: (c, _t, format) =>
+      `Snowfall expected (${format(
+        c.snow as number,
+        "snow"
+      )}): check road conditions before travelling.`,
+  },
+  {
+    kind: "reminders",
+    applies: (c) => c.uvIndex !== null && c.uvIndex >= 6 && c.uvIndex < 8,
+    message: (c) =>
+      `UV index of ${c.uvIndex} is high: apply sunscreen before spending time outdoors.`,
+  },
+  {
+    kind: "reminders",
+    applies: (c) => c.precipProb !== null && c.precipProb > 50,
+    message: (c) =>
+      `Rain is likely (${c.precipProb}% chance): bring an umbrella or a rain jacket.`,
+  },
+  {
+    kind: "reminders",
+    applies: (c) => c.humidity !== null && c.humidity >= 80,
+    message: (c) =>
+      `Humidity around ${c.humidity}%: wear breathable clothing and take regular breaks in the shade.`,
+  },
+  {
+    kind: "reminders",
+    applies: (c) => c.basis === "climatology",
+    message: () =>
+      "This outlook is based on historical data for the date; check a forecast closer to the day.",
+  },
+  {
+    kind: "suggestions",
+    applies: isComfortable,
+    message: () =>
+      "Conditions suit outdoor activities such as hiking, picnics or sports.",
+  },
+  {
+    kind: "suggestions",
+    applies: rainLikely,
+    message: () =>
+      "Plan indoor alternatives or covered venues in case of rain.",
+  },
+  {
+    kind: "suggestions",
+    applies: (c, t) => c.tempMax >= t.very_hot_celsius,
+    message: () =>
+      "Schedule outdoor activities for the early morning or evening, when it is cooler.",
+  },
+];
+
+const mean = (values: (number | null)[]): number | null => {
+  const present = presentValues(values);
+  return present.length === 0
+    ? null
+    : round2(present.reduce((sum, v) => sum + v, 0) / present.length);
+};
+
+const emptyGraph = (variable: string): GraphData => ({
+  description: `No observed ${variable} data is available for this location.`,
+  year_minus_5: [],
+  year_minus_4: [],
+  year_minus_3: [],
+  year_minus_2: [],
+  year_minus_1: [],
+  source: "none",
+  series: [],
+});
+
+/**
+ * Deterministic replacement for the LLM analysis, built from provider data
+ * alone. Used for `mode=data-only` requests and as the fallback when the
+ * LLM call fails.
+ */
+export class RuleBasedAnalysisService {
+  fromObservation(
+    day: DailyObservation,
+    basis: Exclude<ConditionsBasis, "climatology">
+  ): ExpectedConditions {
+    return {
+      basis,
+      temp: day.temp,
+      tempMax: day.tempMax,
+      tempMin: day.tempMin,
+      precip: day.precip,
+      precipProb: day.precipProb,
+      humidity: day.humidity,
+      windSpeed: day.windSpeed,
+      uvIndex: day.uvIndex,
+      snow: day.snow,
+      snowDepth: day.snowDepth,
+      cloudCover: day.cloudCover,
+    };
+  }
+
+  /** Historical means, with the share of samples that had any precipitation */
+  fromSamples(samples: DailyObservation[]): ExpectedConditions {
+    const wetSamples = samples.filter((d) => d.precip > 0).length;
+    return {
+      basis: "climatology",
+      temp: mean(samples.map((d) => d.temp)) ?? 0,
+      tempMax: mean(samples.map((d) => d.tempMax)) ?? 0,
+      tempMin: mean(samples.map((d) => d.tempMin)) ?? 0,
+      precip: mean(samples.map((d) => d.precip)) ?? 0,
+      precipProb:
+        samples.length > 0 ? round2((wetSamples / samples.length) * 100) : 0,
+      humidity: mean(samples.map((d) => d.humidity)),
+      windSpeed: mean(samples.map((d) => d.windSpeed)),
+      uvIndex: mean(samples.map((d) => d.uvIndex)),
+      snow: mean(samples.map((d) => d.snow)),
+      snowDepth: mean(samples.map((d) => d.snowDepth)),
+      cloudCover: mean(samples.map((d) => d.cloudCover)),
+    };
+  }
+
+  getExpectedConditions(forecast: StatisticalForecast): ExpectedConditions {
+    if (forecast.current) {
+      return this.fromObservation(forecast.current, "observation");
+    }
+    if (forecast.forecast) {
+      return this.fromObservation(forecast.forecast, "forecast");
+    }
+    return this.fromSamples(forecast.historicalData.samples);
+  }
+
+  /** Expected conditions in the snake_case shape of API responses */
+  toDayConditions(expected: ExpectedConditions): RangeDayConditions {
+    return {
+      temperature_celsius: expected.temp,
+      temperature_max_celsius: expected.tempMax,
+      temperature_min_celsius: expected.tempMin,
+      rainfall_mm: expected.precip,
+      precipitation_probability: expected.precipProb,
+      windspeed_kph: expected.windSpeed,
+      humidity_percent: expected.humidity,
+      uv_index: expected.uvIndex,
+    };
+  }
+
+  /**
+   * Points deducted from a comfort score for temperatures outside the
+   * comfort band, rain, wind, humidity and UV exposure. Variables the
+   * provider did not report deduct nothing. The temperature penalty always
+   * comes first.
+   */
+  private getComfortPenalties(
+    c: ExpectedConditions,
+    units: UnitSystem
+  ): ComfortPenalty[] {
+    const format = this.formatter(units);
+    const penalties: (ComfortPenalty | null)[] = [
+      {
+        points: 3 * Math.max(0, COMFORT_MIN_C - c.temp, c.temp - COMFORT_MAX_C),
+        reason: `Typically ${format(c.temp, "temperature")}, ${
+          c.temp > COMFORT_MAX_C ? "above" : "below"
+        } the comfortable ${this.getComfortBand(units)} range`,
+      },
+      {
+        points:
+          c.precipProb !== null
+            ? 0.3 * c.precipProb
+            : Math.min(30, 3 * c.precip),
+        reason:
+          c.precipProb !== null
+            ? `${c.precipProb}% chance of rain`
+            : `${format(c.precip, "precipitation")} of rain`,
+      },
+      c.windSpeed !== null
+        ? {
+            points: Math.min(20, Math.max(0, c.windSpeed - 20)),
+            reason: `Winds near ${format(c.windSpeed, "windSpeed")}`,
+          }
+        : null,
+      c.humidity !== null
+        ? {
+            points: 0.5 * Math.max(0, c.humidity - 70),
+            reason: `Humidity around ${c.humidity}%`,
+          }
+        : null,
+      c.uvIndex !== null
+        ? {
+            points: c.uvIndex >= 8 ? 10 : c.uvIndex >= 6 ? 5 : 0,
+            reason: `UV index around ${c.uvIndex}`,
+          }
+        : null,
+    ];
+    return penalties.filter(
+      (penalty): penalty is ComfortPenalty => penalty !== null
+    );
+  }
+
+  private formatter(units: UnitSystem): FormatQuantity {
+    return (value, quantity) => formatQuantity(value, quantity, units);
+  }
+
+  private getComfortBand(units: UnitSystem): string {
+    return `${fromMetric(COMFORT_MIN_C, "temperature", units)}–${formatQuantity(
+      COMFORT_MAX_C,
+      "temperature",
+      units
+    )}`;
+  }
+
+  getComfortLabel(score: number): string {
+    return score >= 70
+      ? "Comfortable"
+      : score >= 40
+      ? "Mixed"
+      : "Uncomfortable";
+  }
+
+  /** Starts from 100 and deducts the comfort penalties */
+  getComfortScore(
+    c: ExpectedConditions,
+    units: UnitSystem
+  ): ComfortabilityScore {
+    const format = this.formatter(units);
+    const score = Math.round(
+      Math.min(
+        100,
+        Math.max(
+          0,
+          this.getComfortPenalties(c, units).reduce(
+            (total, penalty) => total - penalty.points,
+            100
+          )
+        )
+      )
+    );
+
+    const label = this.getComfortLabel(score);
+    const details = [
+      `around ${format(c.temp, "temperature")} (${format(
+        c.tempMin,
+        "temperature"
+      )} to ${format(c.tempMax, "temperature")})`,
+      c.precipProb !== null
+        ? `a ${c.precipProb}% chance of rain`
+        : `${format(c.precip, "precipitation")} of rain`,
+      c.windSpeed !== null
+        ? `winds near ${format(c.windSpeed, "windSpeed")}`
+        : null,
+    ].filter(Boolean);
+    const basis =
+      c.basis === "climatology"
+        ? "historical averages for this date"
+        : `the provider's ${c.basis}`;
+
+    return {
+      score,
+      summary: `${label} conditions expected, with ${details.join(
+        ", "
+      )}. Based on ${basis}; generated without AI analysis.`,
+    };
+  }
+
+  /**
+   * The comfort score's reasoning: a comfortable temperature when there is
+   * one, then every deduction, largest first.
+   */
+  explainComfortScore(c: ExpectedConditions, units: UnitSystem): string[] {
+    const [temperature, ...others] = this.getComfortPenalties(c, units);
+    const deductions = [temperature, ...others]
+      .filter((penalty) => penalty.points > 0)
+      .sort((a, b) => b.points - a.points)
+      .map(
+        (penalty) => `${penalty.reason} (−${Math.round(penalty.points)} points)`
+      );
+
+    return temperature.points > 0
+      ? deductions
+      : [
+          `Typically ${formatQuantity(
+            c.temp,
+            "temperature",
+            units
+          )}, within the comfortable ${this.getComfortBand(units)} range`,
+          ...deductions,
+        ];
+  }
+
+  private getActivities(
+    c: ExpectedConditions,
+    thresholds: ConditionThresholds,
+    units: UnitSystem
+  ): Activities {
+    const format = this.formatter(units);
+    const activities: Activities = {
+      suggestions: [],
+      warnings: [],
+      reminders: [],
+    };
+    const listFor: Record<ActivityKind, string[]> = activities;
+
+    ACTIVITY_RULES.forEach((rule) => {
+      if (rule.applies(c, thresholds)) {
+        listFor[rule.kind].push(rule.message(c, thresholds, format));
+      }
+    });
+
+    if (activities.suggestions.length === 0) {
+      activities.suggestions.push(
+        `Expect around ${format(
+          c.temp,
+          "temperature"
+        )}; dress for the conditions and keep plans flexible.`
+      );
+    }
+
+    return activities;
+  }
+
+  private getStatisticalAnalysis(
+    forecast: StatisticalForecast,
+    c: ExpectedConditions,
+    general: GeneralConditions,
+    thresholds: ConditionThresholds,
+    units: UnitSystem
+  ): StatisticalAnalysis {
+    const format = this.formatter(units);
+    const { temperatureStats, precipitationStats, trends } =
+      forecast.statistics;
+    const deviation = (value: number, average: number, quantity: Quantity) => {
+      const difference = round2(value - average);
+      if (difference === 0) return "At the historical mean";
+      return `${format(
+        Math.abs(difference),
+        quantity === "temperature" ? "temperatureChange" : quantity
+      )} ${difference > 0 ? "above" : "below"} the historical mean`;
+    };
+
+    return {
+      threshold_probabilities: [
+        {
+          description: `Daily maximum of ${format(
+            thresholds.very_hot_celsius,
+            "temperature"
+          )} or more`,
+          percentage: general.is_very_hot_percentage,
+        },
+        {
+          description: `Daily minimum of ${format(
+            thresholds.very_cold_celsius,
+            "temperature"
+          )} or less`,
+          percentage: general.is_very_cold_percentage,
+        },
+        {
+          description: `Wind of ${format(
+            thresholds.very_windy_kph,
+            "windSpeed"
+          )} or more`,
+          percentage: general.is_very_windy_percentage,
+        },
+        {
+          description: `Precipitation of ${format(
+            thresholds.very_wet_mm,
+            "precipitation"
+          )} or more`,
+          percentage: general.is_very_wet_percentage,
+        },
+        {
+          description: "Any precipitation",
+          percentage: precipitationStats.probability,
+        },
+      ],
+      // Like the model's comparisons, these are written in the requested
+      // units rather than converted afterwards
+      long_term_mean_comparison: [
+        {
+          variable: `Temperature (${unitLabel("temperature", units)})`,
+          mean_value: fromMetric(temperatureStats.mean, "temperature", units),
+          deviation_from_mean: deviation(
+            c.temp,
+            temperatureStats.mean,
+            "temperature"
+          ),
+        },
+        {
+          variable: `Precipitation (${unitLabel("precipitation", units)})`,
+          mean_value: fromMetric(
+            precipitationStats.totalMean,
+            "precipitation",
+            units
+          ),
+          deviation_from_mean: deviation(
+            c.precip,
+            precipitationStats.totalMean,
+            "precipitation"
+          ),
+        },
+      ],
+      trend_estimation: {
+        heavy_rain_trend: `${trends.precipitationTrend} across the sampled years`,
+        high_temperature_trend: `${trends.temperatureTrend} across the sampled years`,
+      },
+    };
+  }
+
+  buildResponse(
+    query: WeatherQuery,
+    forecast: StatisticalForecast
+  ): WeatherResponse {
+    console.log(
+      `[RuleBased] Building data-only analysis from ${forecast.provider.displayName}`
+    );
+
+    const units = query.units ?? "metric";
+    const expected = this.getExpectedConditions(forecast);
+    const thresholds = conditionsService.getThresholds();
+    // Conditions the provider has no samples for count as never observed
+    const general: GeneralConditions = {
+      is_very_hot_percentage: 0,
+      is_very_cold_percentage: 0,
+      is_very_windy_percentage: 0,
+      is_very_wet_percentage: 0,
+      ...conditionsService.computeGeneralConditions(
+        forecast.historicalData.samples
+      ),
+    };
+
+    return {
+      request_parameters: {
+        latitude: query.latitude,
+        longitude: query.longitude,
+        date: query.date,
+      },
+      overall_comfortability_score: this.getComfortScore(expected, units),
+      activities: this.getActivities(expected, thresholds, units),
+      weather_conditions: {
+        general_conditions: general,
+        // Null where the provider reports nothing; none reports dust or
+        // air quality
+        specific_variables: {
+          temperature_celsius: expected.temp,
+          rainfall_mm: expected.precip,
+          windspeed_kph: expected.windSpeed,
+          dust_concentration_ug_m3: null,
+          snowfall_cm: expected.snow,
+          snow_depth_cm: expected.snowDepth,
+          cloud_cover_percent: expected.cloudCover,
+          air_quality_index: null,
+          humidity_percent: expected.humidity,
+        },
+      },
+      statistical_analysis: this.getStatisticalAnalysis(
+        forecast,
+        expected,
+        general,
+        thresholds,
+        units
+      ),
+      temperature_graph_data: emptyGraph("temperature"),
+      rain_graph_data: emptyGraph("rainfall"),
+      snow_graph_data: emptyGraph("snowfall"),
+    };
+  }
+}
+
+export const ruleBasedAnalysisService = new RuleBasedAnalysisService();
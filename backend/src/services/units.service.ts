@@ -0,0 +1,231 @@
+import {
+  DistributionVariable,
+  GraphData,
+  PreliminaryReport,
+  UnitSystem,
+  VariableStatistics,
+  VisualCrossingData,
+  WeatherResponse,
+} from "../types/weather.types";
+import {
+  addUnitNeutralFields,
+  fromMetric,
+  Quantity,
+  toMetric,
+  unitLabel,
+} from "../utils/units";
+
+type GraphKey =
+  | "temperature_graph_data"
+  | "rain_graph_data"
+  | "snow_graph_data";
+
+const GRAPH_QUANTITIES: Record<GraphKey, Quantity> = {
+  temperature_graph_data: "temperature",
+  rain_graph_data: "precipitation",
+  snow_graph_data: "snow",
+};
+
+const DISTRIBUTION_QUANTITIES: Partial<Record<DistributionVariable, Quantity>> =
+  {
+    temperature: "temperature",
+    rainfall: "precipitation",
+    windspeed: "windSpeed",
+  };
+
+type Convert = (value: number, quantity: Quantity) => number;
+
+/**
+ * Moves weather reports between metric, which the whole pipeline works in,
+ * and the unit system the request asked for. Fields named with a metric
+ * suffix keep their metric value and gain a unit-neutral sibling in the
+ * requested units; graphs, provider data and distributions, whose names
+ * carry no unit, are converted in place.
+ */
+export class UnitsService {
+  private convertGraph(
+    graph: GraphData,
+    quantity: Quantity,
+    convert: Convert
+  ): GraphData {
+    const values = (series: number[]) =>
+      series.map((value) => convert(value, quantity));
+    return {
+      ...graph,
+      year_minus_5: values(graph.year_minus_5),
+      year_minus_4: values(graph.year_minus_4),
+      year_minus_3: values(graph.year_minus_3),
+      year_minus_2: values(graph.year_minus_2),
+      year_minus_1: values(graph.year_minus_1),
+      series: graph.series?.map((entry) => ({
+        ...entry,
+        values: entry.values.map((value) =>
+          value === null ? null : convert(value, quantity)
+        ),
+      })),
+    };
+  }
+
+  private convertGraphs<T extends Partial<Record<GraphKey, GraphData>>>(
+    report: T,
+    convert: Convert
+  ): T {
+    const converted = { ...report };
+    (Object.keys(GRAPH_QUANTITIES) as GraphKey[]).forEach((key) => {
+      const graph = report[key];
+      if (graph) {
+        converted[key] = this.convertGraph(
+          graph,
+          GRAPH_QUANTITIES[key],
+          convert
+        ) as T[GraphKey];
+      }
+    });
+    return converted;
+  }
+
+  private convertProviderData(
+    data: VisualCrossingData,
+    units: UnitSystem
+  ): VisualCrossingData {
+    const convert = (value: number, quantity: Quantity) =>
+      fromMetric(value, quantity, units);
+    const convertNullable = (value: number | null, quantity: Quantity) =>
+      value === null ? null : convert(value, quantity);
+    const { actualData, historicalAverages, statistics } = data;
+
+    return {
+      ...data,
+      actualData: {
+        ...actualData,
+        temperature: convert(actualData.temperature, "temperature"),
+        temperatureMax: convert(actualData.temperatureMax, "temperature"),
+        temperatureMin: convert(actualData.temperatureMin, "temperature"),
+        feelsLike: convertNullable(actualData.feelsLike, "temperature"),
+        precipitation: convert(actualData.precipitation, "precipitation"),
+        snow: convertNullable(actualData.snow, "snow"),
+        snowDepth: convertNullable(actualData.snowDepth, "snow"),
+        windSpeed: convertNullable(actualData.windSpeed, "windSpeed"),
+        windGust: convertNullable(actualData.windGust, "windSpeed"),
+        visibility: convertNullable(actualData.visibility, "distance"),
+      },
+      historicalAverages: {
+        ...historicalAverages,
+        temperature: convert(historicalAverages.temperature, "temperature"),
+        precipitation: convert(
+          historicalAverages.precipitation,
+          "precipitation"
+        ),
+        windspeed: convert(historicalAverages.windspeed, "windSpeed"),
+      },
+      statistics: {
+        ...statistics,
+        temperatureStats: {
+          mean: convert(statistics.temperatureStats.mean, "temperature"),
+          min: convert(statistics.temperatureStats.min, "temperature"),
+          max: convert(statistics.temperatureStats.max, "temperature"),
+          standardDeviation: convert(
+            statistics.temperatureStats.standardDeviation,
+            "temperatureChange"
+          ),
+        },
+        precipitationStats: {
+          ...statistics.precipitationStats,
+          totalMean: convert(
+            statistics.precipitationStats.totalMean,
+            "precipitation"
+          ),
+          maxRecorded: convert(
+            statistics.precipitationStats.maxRecorded,
+            "precipitation"
+          ),
+        },
+      },
+    };
+  }
+
+  private convertVariableStatistics(
+    statistics: Partial<Record<DistributionVariable, VariableStatistics>>,
+    units: UnitSystem
+  ): Partial<Record<DistributionVariable, VariableStatistics>> {
+    return Object.fromEntries(
+      Object.entries(statistics).map(([variable, stats]) => {
+        const quantity =
+          DISTRIBUTION_QUANTITIES[variable as DistributionVariable];
+        if (!quantity) return [variable, stats];
+        const convert = (value: number) => fromMetric(value, quantity, units);
+        return [
+          variable,
+          {
+            ...stats,
+            unit: unitLabel(quantity, units),
+            min: convert(stats.min),
+            median: convert(stats.median),
+            max: convert(stats.max),
+            expected_value: convert(stats.expected_value),
+          },
+        ];
+      })
+    );
+  }
+
+  /**
+   * Converts a metric report, whole or streamed in pieces, to `units`. The
+   * unit-neutral fields are added for metric reports too, so the shape does
+   * not depend on the request. The statistical analysis is left alone:
+   * whichever analyzer writes it already writes it in the requested units.
+   */
+  convertReport<T extends PreliminaryReport | WeatherResponse>(
+    report: T,
+    units: UnitSystem
+  ): T {
+    const named = addUnitNeutralFields(report, units);
+    if (units === "metric") return named;
+
+    const converted = this.convertGraphs(named, (value, quantity) =>
+      fromMetric(value, quantity, units)
+    );
+
+    if (converted.visual_crossing_data) {
+      converted.visual_crossing_data = this.convertProviderData(
+        converted.visual_crossing_data,
+        units
+      );
+    }
+
+    const conditions = converted.weather_conditions;
+    if (conditions && "variable_statistics" in conditions) {
+      const variableStatistics = conditions.variable_statistics;
+      if (variableStatistics) {
+        converted.weather_conditions = {
+          ...conditions,
+          variable_statistics: this.convertVariableStatistics(
+            variableStatistics,
+            units
+          ),
+        };
+      }
+    }
+
+    return converted;
+  }
+
+  /**
+   * The model writes unit-suffixed fields in the metric units their names
+   * give, but graph values in the requested units; brings the graphs back
+   * to metric so they mix with the computed ones until the report is
+   * converted.
+   */
+  normalizeModelOutput(
+    response: WeatherResponse,
+    units: UnitSystem
+  ): WeatherResponse {
+    if (units === "metric") return response;
+
+    return this.convertGraphs(response, (value, quantity) =>
+      toMetric(value, quantity, units)
+    );
+  }
+}
+
+export const unitsService = new UnitsService();
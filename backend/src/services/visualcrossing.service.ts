@@ -1,5 +1,28 @@
 import axios from "axios";
 import { config } from "../config/config";
+import { CacheMetadata } from "../types/weather.types";
+import {
+  DailyObservation,
+  HourlyObservation,
+  ProviderDailyData,
+  WeatherDataProvider,
+} from "../types/provider.types";
+import { toIsoDate } from "../utils/dates";
+import { cachedRangeFetch } from "./cache.service";
+import { upstreamRecorder } from "./recorder.service";
+import { upstreamResilience } from "./resilience.service";
+
+export interface VisualCrossingHour {
+  datetime: string; // HH:mm:ss
+  temp: number;
+  humidity: number;
+  precip: number;
+  precipprob: number;
+  windgust: number;
+  windspeed: number;
+  cloudcover: number;
+  uvindex: number;
+}
 
 export interface VisualCrossingDay {
   datetime: string;
@@ -33,6 +56,8 @@ export interface VisualCrossingDay {
   description: string;
   icon: string;
   stations: string[] | null;
+  /** Only present when hourly data was requested */
+  hours?: VisualCrossingHour[];
 }
 
 export interface VisualCrossingResponse {
@@ -47,44 +72,24 @@ export interface VisualCrossingResponse {
   days: VisualCrossingDay[];
 }
 
-export interface StatisticalForecast {
-  date: string;
-  location: {
-    latitude: number;
-    longitude: number;
-    address: string;
-  };
-  current: VisualCrossingDay | null;
-  forecast: VisualCrossingDay | null;
-  historicalData: {
-    past5Years: VisualCrossingDay[];
-    monthlyAverages: {
-      temperature: number;
-      precipitation: number;
-      humidity: number;
-      windspeed: number;
-    };
-  };
-  statistics: {
-    temperatureStats: {
-      mean: number;
-      min: number;
-      max: number;
-      standardDeviation: number;
-    };
-    precipitationStats: {
-      totalMean: number;
-      probability: number;
-      maxRecorded: number;
-    };
-    trends: {
-      temperatureTrend: string;
-      precipitationTrend: string;
-    };
-  };
-}
+const DAILY_ELEMENTS =
+  "datetime,tempmax,tempmin,temp,feelslike,feelslikemax,feelslikemin,dew,humidity,precip,precipprob,precipcover,preciptype,snow,snowdepth,windgust,windspeed,winddir,pressure,cloudcover,visibility,solarradiation,solarenergy,uvindex,conditions,description,icon";
+
+// The element list applies to the day records the hours are nested in too,
+// so it keeps their datetime
+const HOURLY_ELEMENTS =
+  "datetime,temp,humidity,precip,precipprob,windgust,windspeed,cloudcover,uvindex";
+
+// Client timeout for a single attempt; retries come on top of it
+const UPSTREAM_TIMEOUT_MS = 30000;
+
+type ResponseDetail = "days" | "hours";
+
+export class VisualCrossingService implements WeatherDataProvider {
+  readonly name = "visualcrossing";
+  readonly displayName = "Visual Crossing Weather API";
+  readonly supportsForecast = true;
 
-export class VisualCrossingService {
   private baseUrl =
     "https://weather.visualcrossing.com/VisualCrossingWebServices/rest/services/timeline";
   private apiKey: string;
@@ -93,16 +98,52 @@ export class VisualCrossingService {
     this.apiKey = config.visualCrossingApiKey;
   }
 
-  private parseDateString(dateStr: string): string {
-    const [day, month, year] = dateStr.split("-");
-    return `${year}-${month}-${day}`;
+  private async fetchWeatherData(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    detail: ResponseDetail = "days",
+    signal?: AbortSignal
+  ): Promise<VisualCrossingResponse> {
+    return cachedRangeFetch(
+      {
+        source: detail === "hours" ? `${this.name}-hourly` : this.name,
+        latitude,
+        longitude,
+        startDate,
+        endDate,
+        cacheMetadata,
+        queryCost: (data: VisualCrossingResponse) => data.queryCost || 0,
+      },
+      () =>
+        upstreamRecorder.run(
+          this.name,
+          // Daily requests keep their original fixture key
+          detail === "hours"
+            ? { latitude, longitude, startDate, endDate, detail }
+            : { latitude, longitude, startDate, endDate },
+          () =>
+            this.requestWeatherData(
+              latitude,
+              longitude,
+              startDate,
+              endDate,
+              detail,
+              signal
+            )
+        )
+    );
   }
 
-  private async fetchWeatherData(
+  private async requestWeatherData(
     latitude: string,
     longitude: string,
     startDate: string,
-    endDate?: string
+    endDate?: string,
+    detail: ResponseDetail = "days",
+    signal?: AbortSignal
   ): Promise<VisualCrossingResponse> {
     try {
       const location = `${latitude},${longitude}`;
@@ -111,21 +152,27 @@ export class VisualCrossingService {
 
       console.log(`[VisualCrossing] Fetching data from: ${url}`);
 
-      const response = await axios.get<VisualCrossingResponse>(url, {
-        params: {
-          key: this.apiKey,
-          unitGroup: "metric",
-          include: "days,current",
-          elements:
-            "datetime,tempmax,tempmin,temp,feelslike,feelslikemax,feelslikemin,dew,humidity,precip,precipprob,precipcover,preciptype,snow,snowdepth,windgust,windspeed,winddir,pressure,cloudcover,visibility,solarradiation,solarenergy,uvindex,conditions,description,icon",
-          contentType: "json",
-        },
-        timeout: 30000,
-      });
+      const response = await upstreamResilience.run(
+        this.name,
+        (attemptSignal) =>
+          axios.get<VisualCrossingResponse>(url, {
+            params: {
+              key: this.apiKey,
+              unitGroup: "metric",
+              include: detail === "hours" ? "hours" : "days,current",
+              elements: detail === "hours" ? HOURLY_ELEMENTS : DAILY_ELEMENTS,
+              contentType: "json",
+            },
+            timeout: UPSTREAM_TIMEOUT_MS,
+            signal: attemptSignal,
+          }),
+        { signal, attemptTimeoutMs: UPSTREAM_TIMEOUT_MS }
+      );
 
       console.log(
         `[VisualCrossing] Successfully fetched data for ${response.data.days.length} days`
       );
+
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error)) {
@@ -144,205 +191,100 @@ export class VisualCrossingService {
     }
   }
 
-  private async getHistoricalData(
-    latitude: string,
-    longitude: string,
-    targetDate: string
-  ): Promise<VisualCrossingDay[]> {
-    const [year, month, day] = targetDate.split("-");
-    const targetYear = parseInt(year);
-    const historicalData: VisualCrossingDay[] = [];
-
-    for (let i = 1; i <= 5; i++) {
-      const historicalYear = targetYear - i;
-      const historicalDate = `${historicalYear}-${month}-${day}`;
-
-      try {
-        const data = await this.fetchWeatherData(
-          latitude,
-          longitude,
-          historicalDate
-        );
-        if (data.days && data.days.length > 0) {
-          historicalData.push(data.days[0]);
-        }
-      } catch (error) {
-        console.warn(
-          `[VisualCrossing] Could not fetch historical data for ${historicalDate}:`,
-          error instanceof Error ? error.message : "Unknown error"
-        );
-      }
-    }
-
-    return historicalData;
+  private toObservation(day: VisualCrossingDay): DailyObservation {
+    return {
+      date: day.datetime,
+      temp: day.temp,
+      tempMax: day.tempmax,
+      tempMin: day.tempmin,
+      feelsLike: day.feelslike ?? null,
+      humidity: day.humidity ?? null,
+      precip: day.precip ?? 0,
+      precipProb: day.precipprob ?? null,
+      snow: day.snow ?? null,
+      snowDepth: day.snowdepth ?? null,
+      windSpeed: day.windspeed ?? null,
+      windGust: day.windgust ?? null,
+      cloudCover: day.cloudcover ?? null,
+      uvIndex: day.uvindex ?? null,
+      visibility: day.visibility ?? null,
+      pressure: day.pressure ?? null,
+      conditions: day.conditions ?? null,
+      description: day.description ?? null,
+    };
   }
 
-  private calculateStatistics(historicalData: VisualCrossingDay[]) {
-    if (historicalData.length === 0) {
-      return {
-        temperatureStats: {
-          mean: 0,
-          min: 0,
-          max: 0,
-          standardDeviation: 0,
-        },
-        precipitationStats: {
-          totalMean: 0,
-          probability: 0,
-          maxRecorded: 0,
-        },
-        trends: {
-          temperatureTrend: "Stable",
-          precipitationTrend: "Stable",
-        },
-      };
-    }
-
-    const temps = historicalData.map((d) => d.temp);
-    const tempMean = temps.reduce((a, b) => a + b, 0) / temps.length;
-    const tempMin = Math.min(...temps);
-    const tempMax = Math.max(...temps);
-    const tempVariance =
-      temps.reduce((sum, t) => sum + Math.pow(t - tempMean, 2), 0) /
-      temps.length;
-    const tempStdDev = Math.sqrt(tempVariance);
-
-    const precips = historicalData.map((d) => d.precip);
-    const precipMean = precips.reduce((a, b) => a + b, 0) / precips.length;
-    const precipMax = Math.max(...precips);
-    const daysWithPrecip = precips.filter((p) => p > 0).length;
-    const precipProbability = (daysWithPrecip / precips.length) * 100;
-
-    const calculateTrend = (values: number[]): string => {
-      if (values.length < 2) return "Stable";
-      const n = values.length;
-      const sumX = ((n - 1) * n) / 2; // 0 + 1 + 2 + ... + (n-1)
-      const sumY = values.reduce((a, b) => a + b, 0);
-      const sumXY = values.reduce((sum, y, x) => sum + x * y, 0);
-      const sumX2 = ((n - 1) * n * (2 * n - 1)) / 6; // Sum of squares
-
-      const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-
-      if (slope > 0.1) return "Increasing";
-      if (slope < -0.1) return "Decreasing";
-      return "Stable";
-    };
+  async fetchDaily(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<ProviderDailyData> {
+    const data = await this.fetchWeatherData(
+      latitude,
+      longitude,
+      startDate,
+      endDate,
+      cacheMetadata,
+      "days",
+      signal
+    );
 
     return {
-      temperatureStats: {
-        mean: parseFloat(tempMean.toFixed(2)),
-        min: parseFloat(tempMin.toFixed(2)),
-        max: parseFloat(tempMax.toFixed(2)),
-        standardDeviation: parseFloat(tempStdDev.toFixed(2)),
-      },
-      precipitationStats: {
-        totalMean: parseFloat(precipMean.toFixed(2)),
-        probability: parseFloat(precipProbability.toFixed(2)),
-        maxRecorded: parseFloat(precipMax.toFixed(2)),
-      },
-      trends: {
-        temperatureTrend: calculateTrend(temps),
-        precipitationTrend: calculateTrend(precips),
+      location: {
+        latitude: data.latitude,
+        longitude: data.longitude,
+        address: data.resolvedAddress,
       },
+      days: (data.days || []).map((day) => this.toObservation(day)),
     };
   }
 
-  async getStatisticalForecast(
+  async fetchHourly(
     latitude: string,
     longitude: string,
-    date: string
-  ): Promise<StatisticalForecast> {
-    try {
-      console.log(
-        `[VisualCrossing] Getting statistical forecast for ${latitude}, ${longitude} on ${date}`
-      );
-
-      const vcDate = this.parseDateString(date);
-      const currentDate = new Date();
-      const targetDate = new Date(vcDate);
-      const isFuture = targetDate > currentDate;
-
-      const mainData = await this.fetchWeatherData(latitude, longitude, vcDate);
-
-      const historicalData = await this.getHistoricalData(
-        latitude,
-        longitude,
-        vcDate
-      );
-
-      const statistics = this.calculateStatistics(historicalData);
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<HourlyObservation[]> {
+    const data = await this.fetchWeatherData(
+      latitude,
+      longitude,
+      startDate,
+      endDate,
+      cacheMetadata,
+      "hours",
+      signal
+    );
 
-      const monthlyAverages = {
-        temperature:
-          historicalData.length > 0
-            ? parseFloat(
-                (
-                  historicalData.reduce((sum, d) => sum + d.temp, 0) /
-                  historicalData.length
-                ).toFixed(2)
-              )
-            : 0,
-        precipitation:
-          historicalData.length > 0
-            ? parseFloat(
-                (
-                  historicalData.reduce((sum, d) => sum + d.precip, 0) /
-                  historicalData.length
-                ).toFixed(2)
-              )
-            : 0,
-        humidity:
-          historicalData.length > 0
-            ? parseFloat(
-                (
-                  historicalData.reduce((sum, d) => sum + d.humidity, 0) /
-                  historicalData.length
-                ).toFixed(2)
-              )
-            : 0,
-        windspeed:
-          historicalData.length > 0
-            ? parseFloat(
-                (
-                  historicalData.reduce((sum, d) => sum + d.windspeed, 0) /
-                  historicalData.length
-                ).toFixed(2)
-              )
-            : 0,
-      };
+    return (data.days || []).flatMap((day) =>
+      (day.hours || []).map((hour) => ({
+        date: day.datetime,
+        hour: parseInt(hour.datetime.split(":")[0], 10),
+        temp: hour.temp,
+        precip: hour.precip ?? 0,
+        precipProb: hour.precipprob ?? null,
+        humidity: hour.humidity ?? null,
+        windSpeed: hour.windspeed ?? null,
+        windGust: hour.windgust ?? null,
+        cloudCover: hour.cloudcover ?? null,
+        uvIndex: hour.uvindex ?? null,
+      }))
+    );
+  }
 
-      return {
-        date,
-        location: {
-          latitude: mainData.latitude,
-          longitude: mainData.longitude,
-          address: mainData.resolvedAddress,
-        },
-        current: !isFuture && mainData.days[0] ? mainData.days[0] : null,
-        forecast: isFuture && mainData.days[0] ? mainData.days[0] : null,
-        historicalData: {
-          past5Years: historicalData,
-          monthlyAverages,
-        },
-        statistics,
-      };
-    } catch (error) {
-      console.error(
-        "[VisualCrossing] Error getting statistical forecast:",
-        error
-      );
-      throw error;
-    }
-    }
-    
   async getExtendedForecast(
     latitude: string,
     longitude: string,
     startDate: string,
-    days: number = 15
-  ): Promise<VisualCrossingDay[]> {
+    days: number = config.forecastHorizonDays,
+    cacheMetadata?: CacheMetadata
+  ): Promise<DailyObservation[]> {
     try {
-      const vcStartDate = this.parseDateString(startDate);
+      const vcStartDate = toIsoDate(startDate);
       const endDate = new Date(vcStartDate);
       endDate.setDate(endDate.getDate() + days - 1);
       const vcEndDate = endDate.toISOString().split("T")[0];
@@ -351,10 +293,11 @@ export class VisualCrossingService {
         latitude,
         longitude,
         vcStartDate,
-        vcEndDate
+        vcEndDate,
+        cacheMetadata
       );
 
-      return data.days;
+      return data.days.map((day) => this.toObservation(day));
     } catch (error) {
       console.error("[VisualCrossing] Error getting extended forecast:", error);
       throw error;
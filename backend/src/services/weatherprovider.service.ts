@@ -0,0 +1,25 @@
+import { config } from "../config/config";
+import { WeatherDataProvider } from "../types/provider.types";
+import { visualCrossingService } from "./visualcrossing.service";
+import { nasaPowerService } from "./nasapower.service";
+import { localGridService } from "./localgrid.service";
+
+const providers: Record<string, WeatherDataProvider> = {
+  [visualCrossingService.name]: visualCrossingService,
+  [nasaPowerService.name]: nasaPowerService,
+  [localGridService.name]: localGridService,
+};
+
+export function getWeatherDataProvider(
+  name: string = config.weatherProvider
+): WeatherDataProvider {
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown weather data provider "${name}". Available providers: ${Object.keys(
+        providers
+      ).join(", ")}`
+    );
+  }
+  return provider;
+}
@@ -0,0 +1,3 @@
+// Loaded before every test file. Tests never reach the upstream APIs, so
+// replay mode lets the config load without API keys
+process.env.UPSTREAM_MODE = "replay";
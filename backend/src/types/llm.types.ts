@@ -0,0 +1,32 @@
+import { RunOptions } from "../services/resilience.service";
+import { SchemaNode } from "../utils/schema";
+
+export interface LlmInfo {
+  provider: string;
+  displayName: string;
+  model: string;
+}
+
+export interface PromptInfo {
+  version: string;
+  /** Short SHA-256 of the version's template files, before rendering */
+  hash: string;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly model: string;
+
+  /**
+   * Generates a JSON document for `prompt`, constrained to `schema` as far
+   * as the provider supports it. Returns the raw response text; callers
+   * validate it themselves. Aborting `signal` cancels the request and any
+   * retries; none start that would not finish before `deadline`.
+   */
+  generateJson(
+    prompt: string,
+    schema: SchemaNode,
+    options?: RunOptions
+  ): Promise<string>;
+}
@@ -0,0 +1,104 @@
+import { CacheMetadata } from "./weather.types";
+
+/**
+ * Provider-neutral daily observation. All values are metric: °C, mm, cm,
+ * km/h, %, km and mb. Fields a provider does not supply are null.
+ */
+export interface DailyObservation {
+  date: string; // YYYY-MM-DD
+  temp: number;
+  tempMax: number;
+  tempMin: number;
+  feelsLike: number | null;
+  humidity: number | null;
+  precip: number;
+  precipProb: number | null;
+  snow: number | null;
+  snowDepth: number | null;
+  windSpeed: number | null;
+  windGust: number | null;
+  cloudCover: number | null;
+  uvIndex: number | null;
+  visibility: number | null;
+  pressure: number | null;
+  conditions: string | null;
+  description: string | null;
+}
+
+/**
+ * Provider-neutral hourly observation or forecast, in the location's local
+ * time. Units as for DailyObservation; precip is the amount in the hour.
+ */
+export interface HourlyObservation {
+  date: string; // YYYY-MM-DD
+  hour: number; // 0-23
+  temp: number;
+  precip: number;
+  precipProb: number | null;
+  humidity: number | null;
+  windSpeed: number | null;
+  windGust: number | null;
+  cloudCover: number | null;
+  uvIndex: number | null;
+}
+
+export interface ProviderLocation {
+  latitude: number;
+  longitude: number;
+  address: string;
+}
+
+export interface ProviderDailyData {
+  location: ProviderLocation;
+  days: DailyObservation[];
+}
+
+export interface ProviderInfo {
+  name: string;
+  displayName: string;
+}
+
+export interface WeatherDataProvider extends ProviderInfo {
+  /** Whether dates after today can be requested */
+  supportsForecast: boolean;
+
+  /**
+   * Daily observations for an inclusive YYYY-MM-DD range. When endDate is
+   * omitted only startDate is fetched. Aborting `signal` cancels the request
+   * and any retries still to come.
+   */
+  fetchDaily(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<ProviderDailyData>;
+
+  /**
+   * Optional: `days` consecutive days from a DD-MM-YYYY start date in one
+   * call, reaching into the provider's forecast horizon.
+   */
+  getExtendedForecast?(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    days?: number,
+    cacheMetadata?: CacheMetadata
+  ): Promise<DailyObservation[]>;
+
+  /**
+   * Optional: hourly data for an inclusive YYYY-MM-DD range, reaching into
+   * the forecast horizon for providers that forecast. `signal` as for
+   * fetchDaily.
+   */
+  fetchHourly?(
+    latitude: string,
+    longitude: string,
+    startDate: string,
+    endDate?: string,
+    cacheMetadata?: CacheMetadata,
+    signal?: AbortSignal
+  ): Promise<HourlyObservation[]>;
+}
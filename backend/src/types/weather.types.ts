@@ -1,7 +1,29 @@
+import { LlmInfo, PromptInfo } from "./llm.types";
+import { ProviderInfo } from "./provider.types";
+
+/** full uses the LLM; data-only builds the report from provider data alone */
+export type AnalysisMode = "full" | "data-only";
+
+/**
+ * Units of the numbers in a response. The types here describe the metric
+ * pipeline: fields with a metric suffix (temperature_celsius, rainfall_mm,
+ * ...) stay metric in responses, which add a unit-neutral sibling
+ * (temperature, rainfall, ...) in the requested units.
+ */
+export type UnitSystem = "metric" | "imperial";
+
 export interface WeatherQuery {
   latitude: string;
   longitude: string;
   date: string;
+  years?: number;
+  window?: number;
+  mode?: AnalysisMode;
+  units?: UnitSystem;
+  /** HH:MM local time the event starts; set together with endTime */
+  startTime?: string;
+  /** HH:MM local time the event ends, later the same day (24:00 at most) */
+  endTime?: string;
 }
 
 export interface RequestParameters {
@@ -28,21 +50,62 @@ export interface GeneralConditions {
   is_very_wet_percentage: number;
 }
 
+// The model estimates every variable; the rule-based analysis reports null
+// for those the provider does not supply
 export interface SpecificVariables {
   temperature_celsius: number;
   rainfall_mm: number;
-  windspeed_kph: number;
-  dust_concentration_ug_m3: number;
-  snowfall_cm: number;
-  snow_depth_cm: number;
-  cloud_cover_percent: number;
-  air_quality_index: number;
-  humidity_percent: number;
+  windspeed_kph: number | null;
+  dust_concentration_ug_m3: number | null;
+  snowfall_cm: number | null;
+  snow_depth_cm: number | null;
+  cloud_cover_percent: number | null;
+  air_quality_index: number | null;
+  humidity_percent: number | null;
+}
+
+export type ValueSource = "computed" | "model";
+
+export type GeneralConditionsSources = Record<
+  keyof GeneralConditions,
+  ValueSource
+>;
+
+export interface ConditionThresholds {
+  very_hot_celsius: number;
+  very_cold_celsius: number;
+  very_windy_kph: number;
+  very_wet_mm: number;
 }
 
+export type Confidence = "low" | "medium" | "high";
+
+export interface VariableStatistics {
+  unit: string;
+  min: number;
+  median: number;
+  max: number;
+  expected_value: number;
+  /** Percentile rank (0-100) of expected_value among the historical samples */
+  percentile: number;
+  sample_size: number;
+  confidence: Confidence;
+}
+
+export type DistributionVariable =
+  | "temperature"
+  | "rainfall"
+  | "windspeed"
+  | "humidity";
+
 export interface WeatherConditions {
   general_conditions: GeneralConditions;
   specific_variables: SpecificVariables;
+  general_conditions_sources?: GeneralConditionsSources;
+  thresholds?: ConditionThresholds;
+  variable_statistics?: Partial<
+    Record<DistributionVariable, VariableStatistics>
+  >;
 }
 
 export interface ThresholdProbability {
@@ -67,13 +130,28 @@ export interface StatisticalAnalysis {
   trend_estimation: TrendEstimation;
 }
 
+/** `none` marks a graph with no data from the provider or the model */
+export type GraphSource = "observed" | "model" | "none";
+
+export type GraphGranularity = "quarterly" | "monthly";
+
+export interface GraphSeriesYear {
+  year: number;
+  /** One value per month or quarter; null where the provider had too few days */
+  values: (number | null)[];
+}
+
 export interface GraphData {
   description: string;
+  /** Legacy quarterly values, left empty by observed graphs in window mode */
   year_minus_5: number[];
   year_minus_4: number[];
   year_minus_3: number[];
   year_minus_2: number[];
   year_minus_1: number[];
+  source?: GraphSource;
+  granularity?: GraphGranularity;
+  series?: GraphSeriesYear[];
 }
 
 export interface VisualCrossingData {
@@ -87,26 +165,26 @@ export interface VisualCrossingData {
     temperature: number;
     temperatureMax: number;
     temperatureMin: number;
-    feelsLike: number;
-    humidity: number;
+    feelsLike: number | null;
+    humidity: number | null;
     precipitation: number;
-    precipitationProbability: number;
-    snow: number;
-    snowDepth: number;
-    windSpeed: number;
-    windGust: number;
-    cloudCover: number;
-    uvIndex: number;
-    visibility: number;
-    pressure: number;
-    conditions: string;
-    description: string;
+    precipitationProbability: number | null;
+    snow: number | null;
+    snowDepth: number | null;
+    windSpeed: number | null;
+    windGust: number | null;
+    cloudCover: number | null;
+    uvIndex: number | null;
+    visibility: number | null;
+    pressure: number | null;
+    conditions: string | null;
+    description: string | null;
   };
   historicalAverages: {
     temperature: number;
     precipitation: number;
     humidity: number;
-    windSpeed: number;
+    windspeed: number;
   };
   statistics: {
     temperatureStats: {
@@ -124,9 +202,82 @@ export interface VisualCrossingData {
       temperatureTrend: string;
       precipitationTrend: string;
     };
+    sampleSize: number;
   };
 }
 
+export interface CacheMetadata {
+  hits: number;
+  misses: number;
+  queryCost: number;
+  queryCostSaved: number;
+}
+
+export interface HistoricalCoverage {
+  yearsRequested: number[];
+  missingYears: number[];
+  windowDays: number;
+  sampleSize: number;
+}
+
+export interface AnalysisInfo {
+  mode: AnalysisMode;
+  /** True when the narrative parts come from the rule-based analyzer */
+  degraded: boolean;
+  /** Why the LLM analysis was replaced, for automatic fallbacks */
+  fallbackReason?: string;
+}
+
+export interface ResponseMetadata {
+  analysis?: AnalysisInfo;
+  provider?: ProviderInfo;
+  /** Language model that wrote the narrative parts of the report */
+  llm?: LlmInfo;
+  /** Prompt template version the model was given */
+  prompt?: PromptInfo;
+  cache?: CacheMetadata;
+  historical?: HistoricalCoverage;
+  units?: UnitSystem;
+}
+
+// The gemini_* stages cover whichever LLM provider is configured; the names
+// predate support for other providers
+export type AnalysisStage =
+  | "target_day"
+  | "historical_year"
+  | "statistics"
+  | "gemini_started"
+  | "gemini_finished";
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  /** Set on historical_year events */
+  year?: number;
+  completed?: number;
+  total?: number;
+  /** False when the step failed and the analysis carried on without it */
+  ok?: boolean;
+}
+
+export type ProgressListener = (progress: AnalysisProgress) => void;
+
+/**
+ * Data-driven parts of a report, available before the model's analysis.
+ * Streamed in pieces; later pieces add to earlier ones.
+ */
+export interface PreliminaryReport {
+  weather_conditions?: {
+    general_conditions: Partial<GeneralConditions>;
+    thresholds: ConditionThresholds;
+  };
+  temperature_graph_data?: GraphData;
+  rain_graph_data?: GraphData;
+  snow_graph_data?: GraphData;
+  visual_crossing_data?: VisualCrossingData;
+  metadata?: ResponseMetadata;
+}
+
 export interface WeatherResponse {
   request_parameters: RequestParameters;
   overall_comfortability_score: ComfortabilityScore;
@@ -137,4 +288,322 @@ export interface WeatherResponse {
   rain_graph_data: GraphData;
   snow_graph_data: GraphData;
   visual_crossing_data?: VisualCrossingData;
+  /** Present when the query has event times and the provider has hours */
+  event_window?: EventWindowAnalysis;
+  metadata?: ResponseMetadata;
+}
+
+export interface RangeQuery {
+  latitude: string;
+  longitude: string;
+  /** DD-MM-YYYY, inclusive */
+  startDate: string;
+  /** DD-MM-YYYY, inclusive */
+  endDate: string;
+  years?: number;
+  window?: number;
+  units?: UnitSystem;
+}
+
+/** Where a day's expected conditions come from */
+export type ConditionsBasis = "observation" | "forecast" | "climatology";
+
+export interface RangeDayConditions {
+  temperature_celsius: number;
+  temperature_max_celsius: number;
+  temperature_min_celsius: number;
+  rainfall_mm: number;
+  precipitation_probability: number | null;
+  windspeed_kph: number | null;
+  humidity_percent: number | null;
+  uv_index: number | null;
+}
+
+export interface RangeDay {
+  date: string;
+  basis: ConditionsBasis;
+  comfortability_score: ComfortabilityScore;
+  expected_conditions: RangeDayConditions;
+  /** Computed from this day's historical samples; absent when there are none */
+  general_conditions: Partial<GeneralConditions>;
+  /** Chance of a wet day (at least 1 mm of precipitation) */
+  wet_day_probability: number;
+  sample_size: number;
+}
+
+export interface RangeDayReference {
+  date: string;
+  score: number;
+  summary: string;
+}
+
+export interface RangeSummary {
+  day_count: number;
+  average_comfort_score: number;
+  best_day: RangeDayReference;
+  worst_day: RangeDayReference;
+  /** Chance that at least one day in the range is wet */
+  wet_day_probability: number;
+  expected_wet_days: number;
+}
+
+export interface RangeAnalysisResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    start_date: string;
+    end_date: string;
+  };
+  days: RangeDay[];
+  summary: RangeSummary;
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+/** 0 for Sunday through 6 for Saturday, as in Date.getUTCDay() */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface BestDatesQuery extends RangeQuery {
+  /** Only days falling on these weekdays are candidates; all days if absent */
+  weekdays?: Weekday[];
+}
+
+export interface BestDateCandidate {
+  /** 1 for the best date */
+  rank: number;
+  date: string;
+  weekday: string;
+  comfortability_score: ComfortabilityScore;
+  expected_conditions: RangeDayConditions;
+  general_conditions: Partial<GeneralConditions>;
+  /** Share of past days around this date with at least 1 mm of precipitation */
+  wet_day_probability: number;
+  /** Why the date ranks where it does, strongest factors first */
+  reasons: string[];
+  sample_size: number;
+}
+
+export interface BestDatesResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    start_date: string;
+    end_date: string;
+    weekdays: string[];
+  };
+  /** Ranked best first */
+  candidates: BestDateCandidate[];
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+export interface ForecastQuery {
+  latitude: string;
+  longitude: string;
+  /** DD-MM-YYYY, within the forecast horizon */
+  date: string;
+  /** Length of the window around date; defaults to a week */
+  days?: number;
+  units?: UnitSystem;
+}
+
+export interface ForecastDay extends RangeDayConditions {
+  date: string;
+  /** True for the requested date */
+  is_target: boolean;
+  conditions: string | null;
+  description: string | null;
+}
+
+export interface ForecastResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    date: string;
+    start_date: string;
+    end_date: string;
+  };
+  days: ForecastDay[];
+  metadata: ResponseMetadata;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface AreaQuery {
+  date: string;
+  /** Vertices in order; the ring closes back to the first */
+  polygon: GeoPoint[];
+  years?: number;
+  window?: number;
+  units?: UnitSystem;
+}
+
+export interface AreaCell extends GeoPoint {
+  comfortability_score: ComfortabilityScore;
+  basis: ConditionsBasis;
+  expected_conditions: RangeDayConditions;
+  general_conditions: Partial<GeneralConditions>;
+  sample_size: number;
+}
+
+export type AreaVariable =
+  | "comfort_score"
+  | "temperature_celsius"
+  | "rainfall_mm"
+  | "windspeed_kph";
+
+export interface SpatialSpread {
+  min: number;
+  max: number;
+  range: number;
+  standard_deviation: number;
+}
+
+export interface AreaAggregate {
+  /** Mean over the sampled points; absent for variables no point reported */
+  area_mean: Partial<Record<AreaVariable, number>>;
+  area_general_conditions: Partial<GeneralConditions>;
+  /** The sampled point with the lowest comfort score */
+  worst_cell: GeoPoint & { score: number; summary: string };
+  spatial_spread: Partial<Record<AreaVariable, SpatialSpread>>;
+}
+
+export interface AreaAnalysisResponse {
+  request_parameters: {
+    date: string;
+    polygon: GeoPoint[];
+    area_sq_km: number;
+  };
+  /** Grid points whose data went into the aggregate */
+  sample_points: GeoPoint[];
+  failed_points: (GeoPoint & { error: string })[];
+  cells: AreaCell[];
+  aggregate: AreaAggregate;
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+export interface VenueQuery {
+  latitude: string;
+  longitude: string;
+  name?: string;
+}
+
+export interface ComparisonQuery {
+  date: string;
+  venues: VenueQuery[];
+  years?: number;
+  window?: number;
+  units?: UnitSystem;
+}
+
+export interface VenueComparison {
+  /** 1 for the best venue */
+  rank: number;
+  venue: VenueQuery;
+  /** Weighted 0-100 score the venues are ranked by */
+  ranking_score: number;
+  comfort_score: number;
+  rain_probability: number;
+  heat_risk: number;
+  cold_risk: number;
+  /** Data-only report for the venue, without graph data */
+  report: WeatherResponse;
+}
+
+export interface FailedVenue {
+  venue: VenueQuery;
+  error: string;
+}
+
+export interface ComparisonResponse {
+  request_parameters: {
+    date: string;
+    venues: VenueQuery[];
+  };
+  venues: VenueComparison[];
+  failed: FailedVenue[];
+  ranking_weights: {
+    comfort: number;
+    rain: number;
+    temperature_risk: number;
+  };
+}
+
+export type AnalysisJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface AnalysisError {
+  status: number;
+  error: string;
+  message: string;
+  details: string;
+}
+
+/** Public view of an asynchronous analysis job */
+export interface AnalysisJobView {
+  id: string;
+  status: AnalysisJobStatus;
+  query: WeatherQuery;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  /** Position in the queue while queued, counting from 1 */
+  queuePosition: number | null;
+  /** Every progress event so far, oldest first */
+  progress: AnalysisProgress[];
+  preliminary: PreliminaryReport;
+  result: WeatherResponse | null;
+  error: AnalysisError | null;
+}
+
+export interface EventHour {
+  /** Local hour of day, 0-23 */
+  hour: number;
+  in_event_window: boolean;
+  in_setup_window: boolean;
+  /** Null for hours the provider has no data for */
+  temperature_celsius: number | null;
+  precipitation_probability: number | null;
+  rainfall_mm: number | null;
+  windspeed_kph: number | null;
+  gust_kph: number | null;
+  humidity_percent: number | null;
+  uv_index: number | null;
+  comfort_score: number | null;
+}
+
+export interface EventWindowAnalysis {
+  start_time: string;
+  end_time: string;
+  basis: ConditionsBasis;
+  /** Mean of the hourly comfort scores over the event hours */
+  comfortability_score: ComfortabilityScore;
+  /** The whole-day score the event score replaces in the report */
+  day_comfortability_score: ComfortabilityScore;
+  /** Chance of rain at some point during the event */
+  rain_probability: number | null;
+  expected_rainfall_mm: number | null;
+  peak_temperature_celsius: number | null;
+  peak_hour: number | null;
+  min_temperature_celsius: number | null;
+  windspeed_kph: number | null;
+  /** The EVENT_SETUP_HOURS before the start; null for events at midnight */
+  setup: {
+    start_hour: number;
+    end_hour: number;
+    windspeed_kph: number | null;
+    gust_kph: number | null;
+  } | null;
+  /** One entry per hour of the day */
+  hourly: EventHour[];
+  /** Days of hourly data behind the figures */
+  sample_size: number;
 }
@@ -0,0 +1,64 @@
+/**
+ * Maps over items with at most `limit` calls in flight, preserving input order
+ * in the result. Each outcome is settled individually so one failure does not
+ * discard the others.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = {
+          status: "fulfilled",
+          value: await fn(items[index], index),
+        };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/** Runs a task once one of the limiter's slots is free */
+export type Limiter = <R>(task: () => Promise<R>) => Promise<R>;
+
+/**
+ * Creates a limiter that several callers can share, so independent pipelines
+ * (e.g. one per venue) stay within a single concurrency budget.
+ */
+export function createLimiter(limit: number): Limiter {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  return async (task) => {
+    if (active < Math.max(1, limit)) {
+      active++;
+    } else {
+      // A finishing task hands its slot straight to the next waiter
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
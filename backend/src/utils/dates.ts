@@ -0,0 +1,17 @@
+/** DD-MM-YYYY to YYYY-MM-DD */
+export const toIsoDate = (dateStr: string): string => {
+  const [day, month, year] = dateStr.split("-");
+  return `${year}-${month}-${day}`;
+};
+
+/** YYYY-MM-DD to DD-MM-YYYY */
+export const fromIsoDate = (isoDate: string): string => {
+  const [year, month, day] = isoDate.split("-");
+  return `${day}-${month}-${year}`;
+};
+
+export const shiftDays = (isoDate: string, days: number): string => {
+  const date = new Date(`${isoDate}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+};
@@ -0,0 +1,96 @@
+import { AnalysisError } from "../types/weather.types";
+
+/**
+ * Maps an analysis failure to the HTTP status and body the API reports for
+ * it, matching on the messages thrown by the services.
+ */
+export function describeAnalysisError(error: unknown): AnalysisError {
+  const details = error instanceof Error ? error.message : "Unknown error";
+
+  if (details.includes("timeout")) {
+    return {
+      status: 504,
+      error: "Gateway Timeout",
+      message:
+        "The AI service took too long to respond. Please try again with a different date or location.",
+      details,
+    };
+  }
+
+  if (details.includes("circuit breaker is open")) {
+    return {
+      status: 503,
+      error: "Service Unavailable",
+      message:
+        "An upstream service is temporarily unavailable. Please try again shortly.",
+      details,
+    };
+  }
+
+  if (details.includes("failed schema validation")) {
+    return {
+      status: 502,
+      error: "Bad Gateway",
+      message:
+        "The AI service returned an incomplete analysis. Please try again.",
+      details,
+    };
+  }
+
+  if (details.includes("Data-only analysis unavailable")) {
+    return {
+      status: 502,
+      error: "Bad Gateway",
+      message:
+        "No weather data could be retrieved for a data-only analysis. Please try again or request a full analysis.",
+      details,
+    };
+  }
+
+  if (details.includes("Venue comparison unavailable")) {
+    return {
+      status: 502,
+      error: "Bad Gateway",
+      message:
+        "No weather data could be retrieved for any of the venues. Please try again shortly.",
+      details,
+    };
+  }
+
+  if (details.includes("Area analysis unavailable")) {
+    return {
+      status: 502,
+      error: "Bad Gateway",
+      message:
+        "No weather data could be retrieved for any point in the area. Please try again shortly.",
+      details,
+    };
+  }
+
+  if (details.includes("Forecast not supported")) {
+    return {
+      status: 501,
+      error: "Not Implemented",
+      message:
+        "The configured weather provider does not provide forecasts. Switch to a provider with forecasts (e.g. visualcrossing) to use this endpoint.",
+      details,
+    };
+  }
+
+  if (details.includes("Forecast unavailable")) {
+    return {
+      status: 502,
+      error: "Bad Gateway",
+      message:
+        "The forecast could not be retrieved from the weather provider. Please try again shortly.",
+      details,
+    };
+  }
+
+  return {
+    status: 500,
+    error: "Internal server error",
+    message: "Failed to process weather analysis request",
+    details,
+  };
+}
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { GeoPoint } from "../types/weather.types";
+import { pointInPolygon, polygonAreaSqKm, sampleGrid } from "./geometry";
+
+const point = (latitude: number, longitude: number): GeoPoint => ({
+  latitude,
+  longitude,
+});
+
+const square = [point(0, 0), point(0, 1), point(1, 1), point(1, 0)];
+
+// L-shape: the unit square minus its upper-right quarter
+const lShape = [
+  point(0, 0),
+  point(0, 1),
+  point(0.5, 1),
+  point(0.5, 0.5),
+  point(1, 0.5),
+  point(1, 0),
+];
+
+describe("geometry", () => {
+  describe("pointInPolygon", () => {
+    it("tells points inside a polygon from points outside it", () => {
+      assert.equal(pointInPolygon(point(0.5, 0.5), square), true);
+      assert.equal(pointInPolygon(point(1.5, 0.5), square), false);
+      assert.equal(pointInPolygon(point(0.5, -0.1), square), false);
+    });
+
+    it("handles concave polygons", () => {
+      assert.equal(pointInPolygon(point(0.25, 0.75), lShape), true);
+      assert.equal(pointInPolygon(point(0.75, 0.25), lShape), true);
+      assert.equal(pointInPolygon(point(0.75, 0.75), lShape), false);
+    });
+  });
+
+  describe("polygonAreaSqKm", () => {
+    it("measures a one-degree square at the equator", () => {
+      const kmPerDegree = (6371 * Math.PI) / 180;
+      const expected =
+        kmPerDegree * kmPerDegree * Math.cos((0.5 * Math.PI) / 180);
+      assert.ok(Math.abs(polygonAreaSqKm(square) - expected) < 1e-6);
+    });
+
+    it("does not depend on the winding order", () => {
+      assert.equal(
+        polygonAreaSqKm([...square].reverse()),
+        polygonAreaSqKm(square)
+      );
+    });
+
+    it("shrinks with the cosine of the latitude", () => {
+      const shifted = square.map((p) => point(p.latitude + 60, p.longitude));
+      const ratio = polygonAreaSqKm(shifted) / polygonAreaSqKm(square);
+      assert.ok(
+        Math.abs(
+          ratio -
+            Math.cos((60.5 * Math.PI) / 180) / Math.cos((0.5 * Math.PI) / 180)
+        ) < 1e-9
+      );
+    });
+
+    it("measures a concave polygon", () => {
+      assert.ok(
+        Math.abs(polygonAreaSqKm(lShape) / polygonAreaSqKm(square) - 0.75) <
+          1e-9
+      );
+    });
+  });
+
+  describe("sampleGrid", () => {
+    it("returns the cell centres of the bounding box grid", () => {
+      assert.deepEqual(sampleGrid(square, 2), [
+        point(0.25, 0.25),
+        point(0.25, 0.75),
+        point(0.75, 0.25),
+        point(0.75, 0.75),
+      ]);
+    });
+
+    it("drops centres outside the polygon", () => {
+      assert.deepEqual(sampleGrid(lShape, 2), [
+        point(0.25, 0.25),
+        point(0.25, 0.75),
+        point(0.75, 0.25),
+      ]);
+    });
+
+    it("falls back to the vertex mean when no centre is inside", () => {
+      const line = [point(0, 0), point(0, 1), point(0, 2)];
+      assert.deepEqual(sampleGrid(line, 3), [point(0, 1)]);
+    });
+  });
+});
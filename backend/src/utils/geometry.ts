@@ -0,0 +1,80 @@
+import { GeoPoint } from "../types/weather.types";
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Ray-casting test. Treats coordinates as planar, which is accurate enough
+ * for the event-sized areas this is used with (and wrong across the
+ * antimeridian).
+ */
+export function pointInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) /
+          (b.latitude - a.latitude) +
+          a.longitude
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** Shoelace area on an equirectangular projection around the polygon */
+export function polygonAreaSqKm(polygon: GeoPoint[]): number {
+  const meanLatitude =
+    polygon.reduce((sum, p) => sum + p.latitude, 0) / polygon.length;
+  const kmPerDegree = (EARTH_RADIUS_KM * Math.PI) / 180;
+  const kmPerDegreeLon = kmPerDegree * Math.cos(toRadians(meanLatitude));
+
+  let twiceArea = 0;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    twiceArea +=
+      polygon[j].longitude *
+        kmPerDegreeLon *
+        polygon[i].latitude *
+        kmPerDegree -
+      polygon[i].longitude * kmPerDegreeLon * polygon[j].latitude * kmPerDegree;
+  }
+  return Math.abs(twiceArea) / 2;
+}
+
+/**
+ * Centres of a size×size grid over the polygon's bounding box that fall
+ * inside it. A polygon too thin to contain any falls back to the mean of
+ * its vertices.
+ */
+export function sampleGrid(polygon: GeoPoint[], size: number): GeoPoint[] {
+  const latitudes = polygon.map((p) => p.latitude);
+  const longitudes = polygon.map((p) => p.longitude);
+  const minLat = Math.min(...latitudes);
+  const minLon = Math.min(...longitudes);
+  const latStep = (Math.max(...latitudes) - minLat) / size;
+  const lonStep = (Math.max(...longitudes) - minLon) / size;
+
+  const points: GeoPoint[] = [];
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      const point = {
+        latitude: minLat + (row + 0.5) * latStep,
+        longitude: minLon + (column + 0.5) * lonStep,
+      };
+      if (pointInPolygon(point, polygon)) points.push(point);
+    }
+  }
+
+  if (points.length > 0) return points;
+  return [
+    {
+      latitude: latitudes.reduce((sum, v) => sum + v, 0) / polygon.length,
+      longitude: longitudes.reduce((sum, v) => sum + v, 0) / polygon.length,
+    },
+  ];
+}
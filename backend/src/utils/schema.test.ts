@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { SchemaNode, validateSchema } from "./schema";
+
+const schema: SchemaNode = {
+  type: "object",
+  required: ["score", "summary", "values"],
+  properties: {
+    score: { type: "number", minimum: 0, maximum: 100 },
+    summary: { type: "string" },
+    level: { type: "string", enum: ["low", "high"] },
+    values: {
+      type: "array",
+      minItems: 2,
+      maxItems: 3,
+      items: { type: "number" },
+    },
+  },
+};
+
+describe("validateSchema", () => {
+  it("accepts a valid value", () => {
+    assert.deepEqual(
+      validateSchema(schema, { score: 50, summary: "ok", values: [1, 2] }),
+      []
+    );
+  });
+
+  it("reports missing required properties but not optional ones", () => {
+    assert.deepEqual(validateSchema(schema, { score: 50, values: [1, 2] }), [
+      "$.summary: is required",
+    ]);
+  });
+
+  it("reports type mismatches with their JSON path", () => {
+    assert.deepEqual(
+      validateSchema(schema, { score: "50", summary: null, values: [1, "2"] }),
+      [
+        "$.score: expected number, got string",
+        "$.summary: expected string, got null",
+        "$.values[1]: expected number, got string",
+      ]
+    );
+    assert.deepEqual(validateSchema(schema, [1]), [
+      "$: expected object, got array",
+    ]);
+  });
+
+  it("rejects numbers outside their bounds and non-finite numbers", () => {
+    const valid = { summary: "ok", values: [1, 2] };
+    assert.deepEqual(validateSchema(schema, { ...valid, score: 101 }), [
+      "$.score: 101 is above the maximum of 100",
+    ]);
+    assert.deepEqual(validateSchema(schema, { ...valid, score: -1 }), [
+      "$.score: -1 is below the minimum of 0",
+    ]);
+    assert.deepEqual(validateSchema(schema, { ...valid, score: NaN }), [
+      "$.score: expected number, got number",
+    ]);
+  });
+
+  it("checks array lengths", () => {
+    const valid = { score: 50, summary: "ok" };
+    assert.deepEqual(validateSchema(schema, { ...valid, values: [1] }), [
+      "$.values: expected at least 2 items, got 1",
+    ]);
+    assert.deepEqual(
+      validateSchema(schema, { ...valid, values: [1, 2, 3, 4] }),
+      ["$.values: expected at most 3 items, got 4"]
+    );
+  });
+
+  it("checks string enums", () => {
+    assert.deepEqual(
+      validateSchema(schema, {
+        score: 50,
+        summary: "ok",
+        values: [1, 2],
+        level: "medium",
+      }),
+      ['$.level: expected one of low, high, got "medium"']
+    );
+  });
+});
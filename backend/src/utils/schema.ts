@@ -0,0 +1,137 @@
+/**
+ * Minimal JSON schema subset used to validate model output at runtime. The
+ * node shapes follow the OpenAPI-style schema objects LLM APIs accept.
+ */
+export type SchemaNode =
+  | ObjectSchema
+  | ArraySchema
+  | NumberSchema
+  | StringSchema;
+
+export interface ObjectSchema {
+  type: "object";
+  properties: Record<string, SchemaNode>;
+  required?: string[];
+  description?: string;
+}
+
+export interface ArraySchema {
+  type: "array";
+  items: SchemaNode;
+  minItems?: number;
+  maxItems?: number;
+  description?: string;
+}
+
+export interface NumberSchema {
+  type: "number";
+  minimum?: number;
+  maximum?: number;
+  description?: string;
+}
+
+export interface StringSchema {
+  type: "string";
+  enum?: string[];
+  description?: string;
+}
+
+const describeType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+/**
+ * Checks `value` against `schema` and returns one message per violation,
+ * each prefixed with the JSON path of the offending value. An empty array
+ * means the value is valid.
+ */
+export function validateSchema(
+  schema: SchemaNode,
+  value: unknown,
+  path = "$"
+): string[] {
+  switch (schema.type) {
+    case "object": {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describeType(value)}`];
+      }
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, property]) => {
+        if (record[key] === undefined) {
+          return schema.required?.includes(key)
+            ? [`${path}.${key}: is required`]
+            : [];
+        }
+        return validateSchema(property, record[key], `${path}.${key}`);
+      });
+    }
+
+    case "array": {
+      if (!Array.isArray(value)) {
+        return [`${path}: expected array, got ${describeType(value)}`];
+      }
+      const errors: string[] = [];
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(
+          `${path}: expected at least ${schema.minItems} items, got ${value.length}`
+        );
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(
+          `${path}: expected at most ${schema.maxItems} items, got ${value.length}`
+        );
+      }
+      return errors.concat(
+        value.flatMap((item, index) =>
+          validateSchema(schema.items, item, `${path}[${index}]`)
+        )
+      );
+    }
+
+    case "number": {
+      if (typeof value !== "number" || !isFinite(value)) {
+        return [`${path}: expected number, got ${describeType(value)}`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${path}: ${value} is below the minimum of ${schema.minimum}`];
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        return [`${path}: ${value} is above the maximum of ${schema.maximum}`];
+      }
+      return [];
+    }
+
+    case "string": {
+      if (typeof value !== "string") {
+        return [`${path}: expected string, got ${describeType(value)}`];
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [
+          `${path}: expected one of ${schema.enum.join(", ")}, got "${value}"`,
+        ];
+      }
+      return [];
+    }
+  }
+}
+
+type RequiredKeys<T> = {
+  [K in keyof T]-?: undefined extends T[K] ? never : K;
+}[keyof T];
+
+/**
+ * Schema shape matching type `T`: every required property of `T` must have a
+ * schema of the matching kind. Optional properties are left out, since they
+ * are filled in after validation rather than produced by the model.
+ */
+export type SchemaFor<T> = T extends number
+  ? NumberSchema
+  : T extends string
+  ? StringSchema
+  : T extends (infer Item)[]
+  ? ArraySchema & { items: SchemaFor<Item> }
+  : ObjectSchema & {
+      properties: { [K in RequiredKeys<T>]: SchemaFor<T[K]> };
+    };
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  exceedancePercentage,
+  mean,
+  percentileRank,
+  presentValues,
+  quantile,
+  round2,
+  standardDeviation,
+} from "./statistics";
+
+describe("statistics", () => {
+  it("rounds to two decimal places", () => {
+    assert.equal(round2(1.005), 1);
+    assert.equal(round2(2.345678), 2.35);
+    assert.equal(round2(-0.125), -0.13);
+  });
+
+  it("drops null and NaN values", () => {
+    assert.deepEqual(presentValues([1, null, NaN, 0, 3]), [1, 0, 3]);
+  });
+
+  it("interpolates quantiles between neighbouring values", () => {
+    const sorted = [10, 20, 30, 40];
+    assert.equal(quantile(sorted, 0), 10);
+    assert.equal(quantile(sorted, 1), 40);
+    assert.equal(quantile(sorted, 0.5), 25);
+    assert.equal(quantile(sorted, 0.25), 17.5);
+    assert.equal(quantile([7], 0.9), 7);
+  });
+
+  it("counts ties as half below in the percentile rank", () => {
+    const values = [1, 2, 2, 3];
+    assert.equal(percentileRank(values, 2), 50);
+    assert.equal(percentileRank(values, 0), 0);
+    assert.equal(percentileRank(values, 5), 100);
+    assert.equal(percentileRank(values, 1), 12.5);
+  });
+
+  it("computes the exceedance share over present values only", () => {
+    assert.equal(
+      exceedancePercentage([35, 20, null, 33], (t) => t >= 32),
+      66.67
+    );
+    assert.equal(
+      exceedancePercentage([null, null], (t) => t >= 32),
+      null
+    );
+    assert.equal(
+      exceedancePercentage([], (t) => t >= 32),
+      null
+    );
+  });
+
+  it("computes the mean and population standard deviation", () => {
+    const values = [2, 4, 4, 4, 5, 5, 7, 9];
+    assert.equal(mean(values), 5);
+    assert.equal(standardDeviation(values), 2);
+    assert.equal(standardDeviation([3, 3, 3]), 0);
+  });
+});
@@ -0,0 +1,44 @@
+export const round2 = (value: number): number => parseFloat(value.toFixed(2));
+
+export const presentValues = (values: (number | null)[]): number[] =>
+  values.filter((v): v is number => v !== null && !isNaN(v));
+
+/** Linearly interpolated quantile (q in 0..1) of an ascending-sorted array */
+export function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Percentile rank (0-100) of `value` within `values`, counting ties as half
+ * below and half above.
+ */
+export function percentileRank(values: number[], value: number): number {
+  const below = values.filter((v) => v < value).length;
+  const equal = values.filter((v) => v === value).length;
+  return round2(((below + equal / 2) / values.length) * 100);
+}
+
+/**
+ * Share of values (0-100) for which `predicate` holds, or null when there are
+ * no values to judge from.
+ */
+export function exceedancePercentage(
+  values: (number | null)[],
+  predicate: (value: number) => boolean
+): number | null {
+  const present = presentValues(values);
+  if (present.length === 0) return null;
+  return round2((present.filter(predicate).length / present.length) * 100);
+}
+
+export const mean = (values: number[]): number =>
+  values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/** Population standard deviation */
+export function standardDeviation(values: number[]): number {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map((v) => (v - average) ** 2)));
+}
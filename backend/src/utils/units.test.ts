@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  addUnitNeutralFields,
+  formatQuantity,
+  fromMetric,
+  toMetric,
+  unitLabel,
+  unitName,
+} from "./units";
+
+describe("units", () => {
+  describe("fromMetric / toMetric", () => {
+    it("converts each quantity to imperial", () => {
+      assert.equal(fromMetric(20, "temperature", "imperial"), 68);
+      assert.equal(fromMetric(-40, "temperature", "imperial"), -40);
+      assert.equal(fromMetric(10, "temperatureChange", "imperial"), 18);
+      assert.equal(fromMetric(25.4, "precipitation", "imperial"), 1);
+      assert.equal(fromMetric(2.54, "snow", "imperial"), 1);
+      assert.equal(fromMetric(16.09344, "windSpeed", "imperial"), 10);
+      assert.equal(fromMetric(1.609344, "distance", "imperial"), 1);
+    });
+
+    it("rounds converted values to two decimal places", () => {
+      assert.equal(fromMetric(10, "precipitation", "imperial"), 0.39);
+      assert.equal(fromMetric(21.3, "temperature", "imperial"), 70.34);
+    });
+
+    it("passes metric values through untouched", () => {
+      assert.equal(fromMetric(21.337, "temperature", "metric"), 21.337);
+      assert.equal(toMetric(21.337, "temperature", "metric"), 21.337);
+    });
+
+    it("converts imperial values back to metric", () => {
+      assert.equal(toMetric(68, "temperature", "imperial"), 20);
+      assert.equal(toMetric(18, "temperatureChange", "imperial"), 10);
+      assert.equal(toMetric(1, "precipitation", "imperial"), 25.4);
+      assert.equal(toMetric(10, "windSpeed", "imperial"), 16.09);
+    });
+  });
+
+  describe("labels", () => {
+    it("names the unit of each system", () => {
+      assert.equal(unitLabel("temperature", "metric"), "°C");
+      assert.equal(unitLabel("windSpeed", "imperial"), "mph");
+      assert.equal(unitName("snow", "metric"), "centimetres");
+      assert.equal(unitName("precipitation", "imperial"), "inches");
+    });
+
+    it("formats degrees without a space and other units with one", () => {
+      assert.equal(formatQuantity(20, "temperature", "imperial"), "68°F");
+      assert.equal(formatQuantity(5, "precipitation", "metric"), "5 mm");
+      assert.equal(formatQuantity(25.4, "precipitation", "imperial"), "1 in");
+    });
+  });
+
+  describe("addUnitNeutralFields", () => {
+    it("adds a converted unit-neutral sibling next to each suffixed field", () => {
+      const converted = addUnitNeutralFields(
+        {
+          temperature_celsius: 20,
+          rainfall_mm: 25.4,
+          snowfall_cm: null,
+          windspeed_kph: 16.09344,
+          humidity_percent: 50,
+        },
+        "imperial"
+      );
+
+      assert.deepEqual(converted, {
+        temperature_celsius: 20,
+        temperature: 68,
+        rainfall_mm: 25.4,
+        rainfall: 1,
+        snowfall_cm: null,
+        snowfall: null,
+        windspeed_kph: 16.09344,
+        windspeed: 10,
+        humidity_percent: 50,
+      });
+    });
+
+    it("adds the neutral fields for metric requests too", () => {
+      assert.deepEqual(addUnitNeutralFields({ rainfall_mm: 3 }, "metric"), {
+        rainfall_mm: 3,
+        rainfall: 3,
+      });
+    });
+
+    it("walks nested objects and arrays", () => {
+      const converted = addUnitNeutralFields(
+        { days: [{ conditions: { temperature_max_celsius: 30 } }] },
+        "imperial"
+      );
+
+      assert.deepEqual(converted.days[0].conditions, {
+        temperature_max_celsius: 30,
+        temperature_max: 86,
+      });
+    });
+
+    it("converts spreads inside a suffixed object without the offset", () => {
+      const converted = addUnitNeutralFields(
+        { temperature_celsius: { mean: 10, range: 5, standard_deviation: 2 } },
+        "imperial"
+      ) as Record<string, unknown>;
+
+      assert.deepEqual(converted.temperature, {
+        mean: 50,
+        range: 9,
+        standard_deviation: 3.6,
+      });
+    });
+
+    it("never overwrites a field that already has the neutral name", () => {
+      const converted = addUnitNeutralFields(
+        { temperature: "warm", temperature_celsius: 20 },
+        "imperial"
+      );
+
+      assert.deepEqual(converted, {
+        temperature: "warm",
+        temperature_celsius: 20,
+      });
+    });
+
+    it("leaves the input unchanged", () => {
+      const input = { temperature_celsius: 20 };
+      addUnitNeutralFields(input, "imperial");
+
+      assert.deepEqual(input, { temperature_celsius: 20 });
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { UnitSystem } from "../types/weather.types";
+import { round2 } from "./statistics";
+
+/** Quantities whose units differ between the systems */
+export type Quantity =
+  | "temperature"
+  /** A difference between temperatures, which converts without an offset */
+  | "temperatureChange"
+  | "precipitation"
+  | "snow"
+  | "windSpeed"
+  | "distance";
+
+interface ImperialUnit {
+  label: string;
+  name: string;
+  fromMetric: (value: number) => number;
+  toMetric: (value: number) => number;
+}
+
+const METRIC_UNITS: Record<Quantity, { label: string; name: string }> = {
+  temperature: { label: "°C", name: "degrees Celsius" },
+  temperatureChange: { label: "°C", name: "degrees Celsius" },
+  precipitation: { label: "mm", name: "millimetres" },
+  snow: { label: "cm", name: "centimetres" },
+  windSpeed: { label: "km/h", name: "kilometres per hour" },
+  distance: { label: "km", name: "kilometres" },
+};
+
+const IMPERIAL_UNITS: Record<Quantity, ImperialUnit> = {
+  temperature: {
+    label: "°F",
+    name: "degrees Fahrenheit",
+    fromMetric: (c) => (c * 9) / 5 + 32,
+    toMetric: (f) => ((f - 32) * 5) / 9,
+  },
+  temperatureChange: {
+    label: "°F",
+    name: "degrees Fahrenheit",
+    fromMetric: (c) => (c * 9) / 5,
+    toMetric: (f) => (f * 5) / 9,
+  },
+  precipitation: {
+    label: "in",
+    name: "inches",
+    fromMetric: (mm) => mm / 25.4,
+    toMetric: (inches) => inches * 25.4,
+  },
+  snow: {
+    label: "in",
+    name: "inches",
+    fromMetric: (cm) => cm / 2.54,
+    toMetric: (inches) => inches * 2.54,
+  },
+  windSpeed: {
+    label: "mph",
+    name: "miles per hour",
+    fromMetric: (kph) => kph / 1.609344,
+    toMetric: (mph) => mph * 1.609344,
+  },
+  distance: {
+    label: "mi",
+    name: "miles",
+    fromMetric: (km) => km / 1.609344,
+    toMetric: (miles) => miles * 1.609344,
+  },
+};
+
+export const unitLabel = (quantity: Quantity, units: UnitSystem): string =>
+  (units === "imperial" ? IMPERIAL_UNITS : METRIC_UNITS)[quantity].label;
+
+export const unitName = (quantity: Quantity, units: UnitSystem): string =>
+  (units === "imperial" ? IMPERIAL_UNITS : METRIC_UNITS)[quantity].name;
+
+/** Metric values pass through untouched, so metric responses are unchanged */
+export const fromMetric = (
+  value: number,
+  quantity: Quantity,
+  units: UnitSystem
+): number =>
+  units === "imperial"
+    ? round2(IMPERIAL_UNITS[quantity].fromMetric(value))
+    : value;
+
+export const toMetric = (
+  value: number,
+  quantity: Quantity,
+  units: UnitSystem
+): number =>
+  units === "imperial"
+    ? round2(IMPERIAL_UNITS[quantity].toMetric(value))
+    : value;
+
+/** A metric value in the given system with its unit, e.g. "68°F" or "5 mm" */
+export const formatQuantity = (
+  value: number,
+  quantity: Quantity,
+  units: UnitSystem
+): string => {
+  const label = unitLabel(quantity, units);
+  return `${fromMetric(value, quantity, units)}${
+    label.startsWith("°") ? "" : " "
+  }${label}`;
+};
+
+// API field names end in their metric unit
+const SUFFIX_QUANTITIES: [string, Quantity][] = [
+  ["_celsius", "temperature"],
+  ["_mm", "precipitation"],
+  ["_cm", "snow"],
+  ["_kph", "windSpeed"],
+];
+
+// Spreads are differences between values, not values
+const CHANGE_KEYS = ["range", "standard_deviation"];
+
+const suffixOf = (key: string): [string, Quantity] | undefined =>
+  SUFFIX_QUANTITIES.find(([suffix]) => key.endsWith(suffix));
+
+/**
+ * Adds a unit-neutral sibling for every field named with a metric unit
+ * suffix anywhere in `value`: `temperature` next to `temperature_celsius`,
+ * `rainfall` next to `rainfall_mm`, holding the value in `units`. The
+ * suffixed fields keep their metric values, so their names stay true; they
+ * are deprecated aliases. A suffixed field holding an object, such as an
+ * area's spatial spread, gets a sibling with each number in it converted.
+ */
+export function addUnitNeutralFields<T>(value: T, units: UnitSystem): T {
+  const convert = (node: unknown, quantity: Quantity): unknown => {
+    if (typeof node === "number") return fromMetric(node, quantity, units);
+    if (Array.isArray(node)) return node.map((item) => convert(item, quantity));
+    if (node === null || typeof node !== "object") return node;
+
+    return Object.fromEntries(
+      Object.entries(node).map(([key, child]) => [
+        key,
+        convert(
+          child,
+          quantity === "temperature" && CHANGE_KEYS.includes(key)
+            ? "temperatureChange"
+            : quantity
+        ),
+      ])
+    );
+  };
+
+  const walk = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(walk);
+    if (node === null || typeof node !== "object") return node;
+
+    return Object.fromEntries(
+      Object.entries(node).flatMap(([key, child]) => {
+        const suffix = suffixOf(key);
+        if (!suffix) return [[key, walk(child)]];
+        const neutralKey = key.slice(0, -suffix[0].length);
+        // Never overwrite a field that already has the neutral name
+        return neutralKey in node
+          ? [[key, child]]
+          : [
+              [key, child],
+              [neutralKey, convert(child, suffix[1])],
+            ];
+      })
+    );
+  };
+
+  return walk(value) as T;
+}
@@ -0,0 +1,25 @@
+/** @type {import("jest").Config} */
+export default {
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/src/**/*.test.{ts,tsx}"],
+  moduleNameMapper: {
+    "\\.css$": "<rootDir>/src/test/styleMock.ts",
+    "^@/(.*)$": "<rootDir>/src/$1",
+  },
+  transform: {
+    // Jest loads CommonJS, so tests compile with their own options; tsc
+    // type-checks them with the app
+    "^.+\\.tsx?$": [
+      "ts-jest",
+      {
+        tsconfig: {
+          jsx: "react-jsx",
+          module: "commonjs",
+          moduleResolution: "node",
+          esModuleInterop: true,
+          isolatedModules: true,
+        },
+      },
+    ],
+  },
+};
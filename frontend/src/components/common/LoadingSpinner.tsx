@@ -1,15 +1,38 @@
 import "./LoadingSpinner.css";
 
+export type LoadingStepStatus =
+  | "pending"
+  | "active"
+  | "done"
+  | "failed"
+  | "skipped";
+
+export interface LoadingStep {
+  id: string;
+  label: string;
+  status: LoadingStepStatus;
+}
+
 interface LoadingSpinnerProps {
   message?: string;
   size?: "small" | "medium" | "large";
   variant?: "primary" | "light";
+  steps?: LoadingStep[];
 }
 
+const stepIcons: Record<LoadingStepStatus, string> = {
+  pending: "○",
+  active: "◌",
+  done: "✓",
+  failed: "✕",
+  skipped: "–",
+};
+
 export function LoadingSpinner({
   message = "Loading...",
   size = "medium",
   variant = "primary",
+  steps,
 }: LoadingSpinnerProps) {
   return (
     <div
@@ -44,6 +67,19 @@ export function LoadingSpinner({
         </p>
       )}
 
+      {steps && steps.length > 0 && (
+        <ol className="loading-steps">
+          {steps.map((step) => (
+            <li key={step.id} className={`loading-step ${step.status}`}>
+              <span className="step-icon" aria-hidden="true">
+                {stepIcons[step.status]}
+              </span>
+              <span className="step-label">{step.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
       <span className="sr-only">{message}</span>
     </div>
   );
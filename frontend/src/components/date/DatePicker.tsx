@@ -7,6 +7,13 @@ interface DatePickerProps {
   onChange: (date: DateQuery) => void;
   includeYear?: boolean;
   label?: string;
+  /**
+   * Range mode: passing onEndChange adds end month/day fields. The end date
+   * takes the start's year, or the next one when it falls earlier in the
+   * calendar (e.g. 30 December to 2 January).
+   */
+  endValue?: DateQuery;
+  onEndChange?: (date: DateQuery) => void;
 }
 
 const MONTHS = [
@@ -31,11 +38,16 @@ export function DatePicker({
   onChange,
   includeYear = true,
   label = "Select Date",
+  endValue,
+  onEndChange,
 }: DatePickerProps) {
+  const isRange = onEndChange !== undefined;
   const [month, setMonth] = useState(value.month);
   const [day, setDay] = useState(value.day);
   const [year, setYear] = useState(value.year || "");
   const [useHistorical, setUseHistorical] = useState(!value.year);
+  const [endMonth, setEndMonth] = useState(endValue?.month ?? value.month);
+  const [endDay, setEndDay] = useState(endValue?.day ?? value.day);
 
   useEffect(() => {
     onChange({
@@ -45,6 +57,16 @@ export function DatePicker({
     });
   }, [month, day, year, useHistorical]);
 
+  const endsNextYear = endMonth < month || (endMonth === month && endDay < day);
+
+  useEffect(() => {
+    onEndChange?.({
+      month: endMonth,
+      day: endDay,
+      year: useHistorical ? undefined : Number(year) + (endsNextYear ? 1 : 0),
+    });
+  }, [endMonth, endDay, year, useHistorical, endsNextYear]);
+
   const getDaysInMonth = (m: number, y?: number) => {
     const currentYear = y || new Date().getFullYear();
     return new Date(currentYear, m, 0).getDate();
@@ -63,6 +85,22 @@ export function DatePicker({
     [daysInMonth]
   );
 
+  const endDaysInMonth = getDaysInMonth(
+    endMonth,
+    year ? Number(year) + (endsNextYear ? 1 : 0) : undefined
+  );
+
+  useEffect(() => {
+    if (endDay > endDaysInMonth) {
+      setEndDay(endDaysInMonth);
+    }
+  }, [endDaysInMonth, endDay]);
+
+  const endDays = useMemo(
+    () => Array.from({ length: endDaysInMonth }, (_, i) => i + 1),
+    [endDaysInMonth]
+  );
+
   const currentYear = new Date().getFullYear();
 
   const recentYears = useMemo(
@@ -79,7 +117,9 @@ export function DatePicker({
 
       <div className="date-picker-fields">
         <div className="field-group">
-          <label htmlFor="month-select">Month</label>
+          <label htmlFor="month-select">
+            {isRange ? "Start Month" : "Month"}
+          </label>
           <select
             id="month-select"
             value={month}
@@ -95,7 +135,7 @@ export function DatePicker({
         </div>
 
         <div className="field-group">
-          <label htmlFor="day-select">Day</label>
+          <label htmlFor="day-select">{isRange ? "Start Day" : "Day"}</label>
           <select
             id="day-select"
             value={day}
@@ -147,6 +187,49 @@ export function DatePicker({
         )}
       </div>
 
+      {isRange && (
+        <div className="date-picker-fields date-picker-range-end">
+          <div className="field-group">
+            <label htmlFor="end-month-select">End Month</label>
+            <select
+              id="end-month-select"
+              value={endMonth}
+              onChange={(e) => setEndMonth(Number(e.target.value))}
+              className="date-select"
+            >
+              {MONTHS.map((m) => (
+                <option key={m.value} value={m.value}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="field-group">
+            <label htmlFor="end-day-select">End Day</label>
+            <select
+              id="end-day-select"
+              value={endDay}
+              onChange={(e) => setEndDay(Number(e.target.value))}
+              className="date-select"
+            >
+              {endDays.map((d) => (
+                <option key={d} value={d}>
+                  {d}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+
+      {isRange && endsNextYear && (
+        <p className="date-picker-info">
+          The event ends in the following year
+          {useHistorical ? "" : ` (${Number(year) + 1})`}
+        </p>
+      )}
+
       {useHistorical && (
         <p className="date-picker-info">
           Historical mode: Analyze likelihood across all available years
@@ -1,28 +1,111 @@
 import { useEffect, useRef, useCallback } from "react";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
-import type { Location, Coordinates } from "../../types/weather";
+import type {
+  Location,
+  Coordinates,
+  PolygonLocation,
+} from "../../types/weather";
 import "./LocationPicker.css";
 
 mapboxgl.accessToken = import.meta.env.VITE_MAPBOX_API_KEY || "";
 
+// Matches the backend's default MAX_AREA_VERTICES
+const MAX_AREA_VERTICES = 50;
+
+const AREA_SOURCE_ID = "area";
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Shoelace area on an equirectangular projection, as the backend computes it
+function polygonAreaSqKm(vertices: Coordinates[]): number {
+  if (vertices.length < 3) return 0;
+
+  const meanLat =
+    vertices.reduce((sum, vertex) => sum + vertex.lat, 0) / vertices.length;
+  const projected = vertices.map((vertex) => ({
+    x: toRadians(vertex.lon) * Math.cos(toRadians(meanLat)) * EARTH_RADIUS_KM,
+    y: toRadians(vertex.lat) * EARTH_RADIUS_KM,
+  }));
+
+  let twiceArea = 0;
+  projected.forEach((a, i) => {
+    const b = projected[(i + 1) % projected.length];
+    twiceArea += a.x * b.y - b.x * a.y;
+  });
+  return Math.round(Math.abs(twiceArea / 2) * 100) / 100;
+}
+
+function toPolygonLocation(vertices: Coordinates[]): PolygonLocation {
+  return {
+    type: "polygon",
+    coordinates: vertices,
+    name:
+      vertices.length > 0
+        ? `Custom area (${vertices.length} points)`
+        : undefined,
+    areaSqKm: polygonAreaSqKm(vertices),
+  };
+}
+
+// Vertices as points, plus the outline and fill once there are enough of them
+function toAreaFeatures(vertices: Coordinates[]): GeoJSON.FeatureCollection {
+  const positions = vertices.map((vertex) => [vertex.lon, vertex.lat]);
+  const features: GeoJSON.Feature[] = positions.map((position) => ({
+    type: "Feature",
+    properties: {},
+    geometry: { type: "Point", coordinates: position },
+  }));
+
+  if (positions.length >= 3) {
+    features.push({
+      type: "Feature",
+      properties: {},
+      geometry: {
+        type: "Polygon",
+        coordinates: [[...positions, positions[0]]],
+      },
+    });
+  } else if (positions.length === 2) {
+    features.push({
+      type: "Feature",
+      properties: {},
+      geometry: { type: "LineString", coordinates: positions },
+    });
+  }
+
+  return { type: "FeatureCollection", features };
+}
+
 interface LocationPickerProps {
   value: Location;
   onChange: (location: Location) => void;
   label?: string;
+  /** Offers drawing an area as well as picking a point */
+  allowArea?: boolean;
 }
 
 export function LocationPicker({
   value,
   onChange,
   label = "Select Location",
+  allowArea = false,
 }: LocationPickerProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const marker = useRef<mapboxgl.Marker | null>(null);
   const isMountedRef = useRef<boolean>(true);
   const geocodeTimeoutRef = useRef<number | null>(null);
-  const locationType = value.type;
+  // The map's click handler is registered once, so it reads the latest
+  // value through a ref rather than the value it was created with
+  const valueRef = useRef<Location>(value);
+  valueRef.current = value;
+  // Restored when switching back from area mode
+  const lastPointRef = useRef<Coordinates | null>(
+    value.type === "point" ? value.coordinates : null
+  );
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -54,7 +137,10 @@ export function LocationPicker({
           );
           const data = await response.json();
 
-          if (!isMountedRef.current) return;
+          // Skip stale results from before a switch to area mode
+          if (!isMountedRef.current || valueRef.current.type !== "point") {
+            return;
+          }
 
           if (data.features && data.features[0]) {
             const placeName = data.features[0].place_name;
@@ -74,6 +160,41 @@ export function LocationPicker({
     [updateLocation]
   );
 
+  const placeMarker = useCallback(
+    (coords: Coordinates) => {
+      lastPointRef.current = coords;
+
+      if (marker.current) {
+        marker.current.setLngLat([coords.lon, coords.lat]);
+      } else if (map.current) {
+        marker.current = new mapboxgl.Marker({ draggable: true })
+          .setLngLat([coords.lon, coords.lat])
+          .addTo(map.current);
+
+        marker.current.on("dragend", () => {
+          if (!marker.current) return;
+          const lngLat = marker.current.getLngLat();
+          const coords = { lat: lngLat.lat, lon: lngLat.lng };
+
+          lastPointRef.current = coords;
+          reverseGeocode(coords);
+        });
+      }
+    },
+    [reverseGeocode]
+  );
+
+  const addVertex = useCallback(
+    (coords: Coordinates) => {
+      const current = valueRef.current;
+      if (current.type !== "polygon") return;
+      if (current.coordinates.length >= MAX_AREA_VERTICES) return;
+
+      updateLocation(toPolygonLocation([...current.coordinates, coords]));
+    },
+    [updateLocation]
+  );
+
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
 
@@ -103,42 +224,58 @@ export function LocationPicker({
       "top-right"
     );
 
-    if (value.type === "point") {
-      marker.current = new mapboxgl.Marker({ draggable: true })
-        .setLngLat([value.coordinates.lon, value.coordinates.lat])
-        .addTo(map.current);
+    map.current.on("load", () => {
+      if (!map.current) return;
 
-      marker.current.on("dragend", () => {
-        if (!marker.current) return;
-        const lngLat = marker.current.getLngLat();
-        const coords = { lat: lngLat.lat, lon: lngLat.lng };
-
-        reverseGeocode(coords);
+      const current = valueRef.current;
+      map.current.addSource(AREA_SOURCE_ID, {
+        type: "geojson",
+        data: toAreaFeatures(
+          current.type === "polygon" ? current.coordinates : []
+        ),
       });
+      map.current.addLayer({
+        id: "area-fill",
+        type: "fill",
+        source: AREA_SOURCE_ID,
+        filter: ["==", ["geometry-type"], "Polygon"],
+        paint: { "fill-color": "#0960e1", "fill-opacity": 0.2 },
+      });
+      map.current.addLayer({
+        id: "area-outline",
+        type: "line",
+        source: AREA_SOURCE_ID,
+        filter: ["!=", ["geometry-type"], "Point"],
+        paint: { "line-color": "#0960e1", "line-width": 2 },
+      });
+      map.current.addLayer({
+        id: "area-vertices",
+        type: "circle",
+        source: AREA_SOURCE_ID,
+        filter: ["==", ["geometry-type"], "Point"],
+        paint: {
+          "circle-radius": 5,
+          "circle-color": "#ffffff",
+          "circle-stroke-color": "#0960e1",
+          "circle-stroke-width": 2,
+        },
+      });
+    });
+
+    if (value.type === "point") {
+      placeMarker(value.coordinates);
     }
 
     map.current.on("click", (e) => {
-      if (locationType === "point") {
-        const coords = { lat: e.lngLat.lat, lon: e.lngLat.lng };
-
-        if (marker.current) {
-          marker.current.setLngLat([coords.lon, coords.lat]);
-        } else if (map.current) {
-          marker.current = new mapboxgl.Marker({ draggable: true })
-            .setLngLat([coords.lon, coords.lat])
-            .addTo(map.current);
-
-          marker.current.on("dragend", () => {
-            if (!marker.current) return;
-            const lngLat = marker.current.getLngLat();
-            const coords = { lat: lngLat.lat, lon: lngLat.lng };
-
-            reverseGeocode(coords);
-          });
-        }
+      const coords = { lat: e.lngLat.lat, lon: e.lngLat.lng };
 
-        reverseGeocode(coords);
+      if (valueRef.current.type === "polygon") {
+        addVertex(coords);
+        return;
       }
+
+      placeMarker(coords);
+      reverseGeocode(coords);
     });
 
     return () => {
@@ -173,6 +310,54 @@ export function LocationPicker({
     }
   }, [value]);
 
+  // A double click would otherwise zoom and add two corners
+  useEffect(() => {
+    if (!map.current) return;
+    if (value.type === "polygon") {
+      map.current.doubleClickZoom.disable();
+    } else {
+      map.current.doubleClickZoom.enable();
+    }
+  }, [value.type]);
+
+  useEffect(() => {
+    const source =
+      map.current?.getSource<mapboxgl.GeoJSONSource>(AREA_SOURCE_ID);
+    // Before the style loads; the load handler draws the current value
+    if (!source) return;
+
+    source.setData(
+      toAreaFeatures(value.type === "polygon" ? value.coordinates : [])
+    );
+  }, [value]);
+
+  const switchToPoint = () => {
+    const center = map.current?.getCenter();
+    const coords = lastPointRef.current ??
+      (value.type === "polygon" ? value.coordinates[0] : undefined) ?? {
+        lat: center?.lat ?? 34.0522,
+        lon: center?.lng ?? -118.2437,
+      };
+
+    updateLocation({ type: "point", coordinates: coords });
+    placeMarker(coords);
+    reverseGeocode(coords);
+  };
+
+  const switchToArea = () => {
+    marker.current?.remove();
+    marker.current = null;
+    updateLocation(toPolygonLocation([]));
+  };
+
+  // The area picker is only offered to some queries; fall back to a point
+  // when the query changes to one without it
+  useEffect(() => {
+    if (!allowArea && value.type === "polygon") {
+      switchToPoint();
+    }
+  }, [allowArea]);
+
   const handleManualCoordinates = () => {
     const lat = prompt("Enter latitude (-90 to 90):");
     const lon = prompt("Enter longitude (-180 to 180):");
@@ -198,22 +383,12 @@ export function LocationPicker({
           });
         }
 
-        if (marker.current) {
-          marker.current.setLngLat([lonNum, latNum]);
-        } else if (map.current) {
-          marker.current = new mapboxgl.Marker({ draggable: true })
-            .setLngLat([lonNum, latNum])
-            .addTo(map.current);
-
-          marker.current.on("dragend", () => {
-            if (!marker.current) return;
-            const lngLat = marker.current.getLngLat();
-            const coords = { lat: lngLat.lat, lon: lngLat.lng };
-
-            reverseGeocode(coords);
-          });
+        if (value.type === "polygon") {
+          addVertex(coords);
+          return;
         }
 
+        placeMarker(coords);
         reverseGeocode(coords);
       } else {
         alert(
@@ -227,10 +402,40 @@ export function LocationPicker({
     <div className="location-picker">
       <label className="location-picker-label">{label}</label>
 
+      {allowArea && (
+        <div className="location-mode" role="group" aria-label="Location type">
+          <button
+            type="button"
+            className={`location-mode-button${
+              value.type === "point" ? " active" : ""
+            }`}
+            aria-pressed={value.type === "point"}
+            onClick={() => value.type !== "point" && switchToPoint()}
+          >
+            📍 Point
+          </button>
+          <button
+            type="button"
+            className={`location-mode-button${
+              value.type === "polygon" ? " active" : ""
+            }`}
+            aria-pressed={value.type === "polygon"}
+            onClick={() => value.type !== "polygon" && switchToArea()}
+          >
+            🗺️ Area
+          </button>
+        </div>
+      )}
+
       <div className="location-info">
         <div className="location-name">
-          <strong>Selected Location:</strong>{" "}
-          {value.name || "Click on map to select"}
+          <strong>
+            {value.type === "polygon" ? "Selected Area:" : "Selected Location:"}
+          </strong>{" "}
+          {value.name ||
+            (value.type === "polygon"
+              ? "Click on the map to add corners"
+              : "Click on map to select")}
         </div>
         {value.type === "point" && (
           <div className="coordinates">
@@ -238,33 +443,58 @@ export function LocationPicker({
             {value.coordinates.lon.toFixed(6)}
           </div>
         )}
+        {value.type === "polygon" && value.coordinates.length >= 3 && (
+          <div className="coordinates">
+            Area: {value.areaSqKm?.toFixed(2)} km²
+          </div>
+        )}
       </div>
 
       <div className="map-container" ref={mapContainer} />
 
       <div className="location-controls">
+        {value.type === "polygon" && (
+          <div className="area-controls">
+            <button
+              type="button"
+              onClick={() =>
+                updateLocation(
+                  toPolygonLocation(value.coordinates.slice(0, -1))
+                )
+              }
+              className="btn-secondary"
+              disabled={value.coordinates.length === 0}
+            >
+              ↩ Undo Last Corner
+            </button>
+            <button
+              type="button"
+              onClick={() => updateLocation(toPolygonLocation([]))}
+              className="btn-secondary"
+              disabled={value.coordinates.length === 0}
+            >
+              ✕ Clear Area
+            </button>
+          </div>
+        )}
+
         <button
           type="button"
           onClick={handleManualCoordinates}
           className="btn-secondary"
         >
-          Enter Coordinates Manually
+          {value.type === "polygon"
+            ? "Add Corner by Coordinates"
+            : "Enter Coordinates Manually"}
         </button>
 
         <div className="location-tip">
-          <strong>Tip:</strong> Click anywhere on the map to select a location,
-          or drag the marker to adjust.
+          <strong>Tip:</strong>{" "}
+          {value.type === "polygon"
+            ? `Click on the map to add the area's corners in order (at least 3, up to ${MAX_AREA_VERTICES}). The outline closes back to the first corner.`
+            : "Click anywhere on the map to select a location, or drag the marker to adjust."}
         </div>
       </div>
-
-      {locationType === "polygon" && (
-        <div className="polygon-notice">
-          <p>
-            <strong>Note:</strong> Polygon selection coming soon. Using point
-            location for now.
-          </p>
-        </div>
-      )}
     </div>
   );
 }
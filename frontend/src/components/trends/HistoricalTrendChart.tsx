@@ -10,6 +10,7 @@ import {
 } from "recharts";
 import { Tooltip as InfoTooltip } from "../common/Tooltip";
 import type { HistoricalTrend } from "../../types/weather";
+import { formatWithUnit } from "../../utils/units";
 import "./HistoricalTrendChart.css";
 
 interface HistoricalTrendChartProps {
@@ -19,17 +20,22 @@ interface HistoricalTrendChartProps {
 const variableNames: Record<string, string> = {
   T2M: "Temperature",
   PRECTOT: "Precipitation",
+  PRECTOTCORR: "Precipitation",
   U10M: "Wind Speed (U)",
   V10M: "Wind Speed (V)",
+  WS10M: "Wind Speed",
   QV2M: "Humidity",
+  RH2M: "Relative Humidity",
+  ALLSKY_SFC_UV_INDEX: "UV Index",
   WIND_SPEED: "Wind Speed",
 };
 
 const getUnitDisplay = (variable: string): string => {
   if (variable === "T2M") return "°C";
-  if (variable === "PRECTOT") return "mm";
-  if (variable.includes("WIND")) return "m/s";
+  if (variable.startsWith("PRECTOT")) return "mm";
+  if (variable.includes("WIND") || variable === "WS10M") return "m/s";
   if (variable === "QV2M") return "g/kg";
+  if (variable === "RH2M") return "%";
   return "";
 };
 
@@ -43,7 +49,11 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
   }));
 
   const variableName = variableNames[trend.variable] || trend.variable;
-  const unit = getUnitDisplay(trend.variable);
+  // Data points carry the units of the response they were taken from
+  const unit = trend.dataPoints[0]?.unit || getUnitDisplay(trend.variable);
+
+  const formatStatistic = (value: number | null | undefined): string =>
+    value != null ? formatWithUnit(value.toFixed(2), unit) : "N/A";
 
   const getTrendIcon = () => {
     if (trend.trendDirection === "increasing") return "📈";
@@ -65,6 +75,11 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
           <p className="chart-subtitle">
             {trend.dateRange.start} to {trend.dateRange.end}
           </p>
+          <p className={`chart-source source-${trend.source || "model"}`}>
+            {trend.source === "observed"
+              ? `Observed data: ${trend.metadata.dataSource}`
+              : `Estimated by ${trend.metadata.dataSource}`}
+          </p>
         </div>
 
         <div className="trend-indicator">
@@ -99,7 +114,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             stroke="#666"
             tick={{ fontSize: 12 }}
             label={{
-              value: `${variableName} (${unit})`,
+              value: unit ? `${variableName} (${unit})` : variableName,
               angle: -90,
               position: "insideLeft",
             }}
@@ -139,10 +154,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             </InfoTooltip>
           </div>
           <div className="stat-value">
-            {trend.statistics.mean != null
-              ? trend.statistics.mean.toFixed(2)
-              : "N/A"}{" "}
-            {unit}
+            {formatStatistic(trend.statistics.mean)}
           </div>
         </div>
 
@@ -153,10 +165,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             </InfoTooltip>
           </div>
           <div className="stat-value">
-            {trend.statistics.median != null
-              ? trend.statistics.median.toFixed(2)
-              : "N/A"}{" "}
-            {unit}
+            {formatStatistic(trend.statistics.median)}
           </div>
         </div>
 
@@ -167,10 +176,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             </InfoTooltip>
           </div>
           <div className="stat-value">
-            {trend.statistics.stdDev != null
-              ? trend.statistics.stdDev.toFixed(2)
-              : "N/A"}{" "}
-            {unit}
+            {formatStatistic(trend.statistics.stdDev)}
           </div>
         </div>
 
@@ -181,10 +187,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             </InfoTooltip>
           </div>
           <div className="stat-value">
-            {trend.statistics.percentile10 != null
-              ? trend.statistics.percentile10.toFixed(2)
-              : "N/A"}{" "}
-            {unit}
+            {formatStatistic(trend.statistics.percentile10)}
           </div>
         </div>
 
@@ -195,10 +198,7 @@ export function HistoricalTrendChart({ trend }: HistoricalTrendChartProps) {
             </InfoTooltip>
           </div>
           <div className="stat-value">
-            {trend.statistics.percentile90 != null
-              ? trend.statistics.percentile90.toFixed(2)
-              : "N/A"}{" "}
-            {unit}
+            {formatStatistic(trend.statistics.percentile90)}
           </div>
         </div>
       </div>
@@ -0,0 +1,286 @@
+import type {
+  AreaAnalysisResponse,
+  AreaCell,
+  AreaVariable,
+  ConditionsBasis,
+  Location,
+  UnitSystem,
+} from "../../types/weather";
+import { formatQuantity, type Quantity, unitLabel } from "../../utils/units";
+import "./WeatherReportDisplay.css";
+import "./RangeReportDisplay.css";
+import "./AreaReportDisplay.css";
+
+interface AreaReportDisplayProps {
+  report: AreaAnalysisResponse;
+  location: Location;
+}
+
+const BASIS_LABELS: Record<ConditionsBasis, string> = {
+  observation: "Observed",
+  forecast: "Forecast",
+  climatology: "Historical",
+};
+
+const VARIABLE_LABELS: Record<
+  AreaVariable,
+  { label: string; quantity: Quantity | null }
+> = {
+  comfort_score: { label: "Comfort score", quantity: null },
+  temperature: { label: "Temperature", quantity: "temperature" },
+  rainfall: { label: "Rainfall", quantity: "precipitation" },
+  windspeed: { label: "Wind speed", quantity: "windSpeed" },
+};
+
+const getComfortColor = (score: number): string => {
+  if (score >= 75) return "#388e3c";
+  if (score >= 50) return "#fbc02d";
+  if (score >= 25) return "#f57c00";
+  return "#c62828";
+};
+
+// Area dates arrive as DD-MM-YYYY
+const formatDay = (date: string): string => {
+  const [day, month, year] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(
+    undefined,
+    {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+      timeZone: "UTC",
+    }
+  );
+};
+
+const formatPoint = (point: { latitude: number; longitude: number }) =>
+  `${point.latitude.toFixed(4)}, ${point.longitude.toFixed(4)}`;
+
+function AreaCellCard({
+  cell,
+  isWorst,
+  units,
+}: {
+  cell: AreaCell;
+  isWorst: boolean;
+  units?: UnitSystem;
+}) {
+  const conditions = cell.expected_conditions;
+  const score = cell.comfortability_score.score;
+
+  return (
+    <div className={`range-day-card${isWorst ? " area-cell-worst" : ""}`}>
+      <div className="range-day-header">
+        <span className="range-day-date area-cell-point">
+          {formatPoint(cell)}
+        </span>
+        <span className={`range-day-basis basis-${cell.basis}`}>
+          {BASIS_LABELS[cell.basis]}
+        </span>
+      </div>
+      <div
+        className="range-day-score"
+        style={{ color: getComfortColor(score) }}
+      >
+        {score}%
+      </div>
+      <ul className="range-day-details">
+        <li>
+          🌡️{" "}
+          {formatQuantity(
+            conditions.temperature_min,
+            "temperature",
+            units
+          )}{" "}
+          to{" "}
+          {formatQuantity(
+            conditions.temperature_max,
+            "temperature",
+            units
+          )}
+        </li>
+        <li>
+          🌧️ {formatQuantity(conditions.rainfall, "precipitation", units)}
+        </li>
+        {conditions.windspeed !== null && (
+          <li>
+            💨 {formatQuantity(conditions.windspeed, "windSpeed", units)}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export function AreaReportDisplay({
+  report,
+  location,
+}: AreaReportDisplayProps) {
+  const { aggregate, request_parameters, metadata } = report;
+  const { area_mean, worst_cell, spatial_spread } = aggregate;
+  const historical = metadata.historical;
+  const yearsAnalyzed = historical
+    ? historical.yearsRequested.length - historical.missingYears.length
+    : 0;
+  const meanComfort = area_mean.comfort_score ?? worst_cell.score;
+
+  return (
+    <div className="weather-report-display">
+      <div className="report-summary">
+        <div className="summary-header">
+          <div className="location-info">
+            <h3 className="location-name">
+              🗺️ {location.name || "Selected Area"}
+            </h3>
+            <p className="coordinates">
+              {formatDay(request_parameters.date)} ·{" "}
+              {request_parameters.area_sq_km} km² ·{" "}
+              {report.sample_points.length} sample points
+            </p>
+          </div>
+
+          <div className="comfort-score-container">
+            <div className="comfort-score">
+              <div
+                className="comfort-value"
+                style={{ color: getComfortColor(meanComfort) }}
+              >
+                {meanComfort}%
+              </div>
+              <div className="comfort-label">Area Average Comfort</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="summary-details">
+          <div className="detail-item">
+            <span className="detail-icon">⚠️</span>
+            <div className="detail-content">
+              <div className="detail-label">Worst Point</div>
+              <div className="detail-value">
+                {formatPoint(worst_cell)} ({worst_cell.score}%)
+              </div>
+            </div>
+          </div>
+          {area_mean.temperature !== undefined && (
+            <div className="detail-item">
+              <span className="detail-icon">🌡️</span>
+              <div className="detail-content">
+                <div className="detail-label">Mean Temperature</div>
+                <div className="detail-value">
+                  {formatQuantity(
+                    area_mean.temperature,
+                    "temperature",
+                    metadata.units
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+          {area_mean.rainfall !== undefined && (
+            <div className="detail-item">
+              <span className="detail-icon">🌧️</span>
+              <div className="detail-content">
+                <div className="detail-label">Mean Rainfall</div>
+                <div className="detail-value">
+                  {formatQuantity(
+                    area_mean.rainfall,
+                    "precipitation",
+                    metadata.units
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="conditions-section">
+        <h2 className="section-title">Spread Across the Area</h2>
+        <p className="section-description">Worst point: {worst_cell.summary}</p>
+        <table className="area-spread-table">
+          <thead>
+            <tr>
+              <th scope="col">Variable</th>
+              <th scope="col">Mean</th>
+              <th scope="col">Min</th>
+              <th scope="col">Max</th>
+              <th scope="col">Range</th>
+              <th scope="col">Std. dev.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(VARIABLE_LABELS) as AreaVariable[]).map(
+              (variable) => {
+                const spread = spatial_spread[variable];
+                if (!spread) return null;
+                const { label, quantity } = VARIABLE_LABELS[variable];
+                const unit = quantity
+                  ? unitLabel(quantity, metadata.units)
+                  : "%";
+                return (
+                  <tr key={variable}>
+                    <th scope="row">
+                      {label} ({unit})
+                    </th>
+                    <td>{area_mean[variable]}</td>
+                    <td>{spread.min}</td>
+                    <td>{spread.max}</td>
+                    <td>{spread.range}</td>
+                    <td>{spread.standard_deviation}</td>
+                  </tr>
+                );
+              }
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="conditions-section">
+        <h2 className="section-title">Sample Points</h2>
+        <div className="range-days-grid">
+          {report.cells.map((cell) => (
+            <AreaCellCard
+              key={`${cell.latitude},${cell.longitude}`}
+              cell={cell}
+              units={metadata.units}
+              isWorst={
+                cell.latitude === worst_cell.latitude &&
+                cell.longitude === worst_cell.longitude
+              }
+            />
+          ))}
+        </div>
+        {report.failed_points.length > 0 && (
+          <p className="area-failed-note">
+            No data for {report.failed_points.length} of the grid points:{" "}
+            {report.failed_points.map(formatPoint).join("; ")}
+          </p>
+        )}
+      </div>
+
+      <div className="report-note">
+        <h4>📌 Understanding the Results</h4>
+        <ul>
+          <li>
+            <strong>Sample points</strong> are the centres of a regular grid
+            over the area that fall inside it; each uses{" "}
+            {metadata.provider?.displayName || "the weather provider"}'s data
+            for that point
+            {yearsAnalyzed > 0 &&
+              ` and ${yearsAnalyzed} years of records around the same date`}
+          </li>
+          <li>
+            <strong>Spread</strong> shows how much conditions vary between the
+            sample points; a small range means the area behaves as one place
+          </li>
+          <li>
+            <strong>Comfort scores</strong> are computed by fixed rules from
+            temperature, rain, wind, humidity and UV, without AI analysis
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,261 @@
+import { useMemo, useState } from "react";
+import type {
+  BestDateCandidate,
+  BestDatesResponse,
+  Location,
+} from "../../types/weather";
+import { formatQuantity } from "../../utils/units";
+import "./WeatherReportDisplay.css";
+import "./BestDatesCalendar.css";
+
+interface BestDatesCalendarProps {
+  result: BestDatesResponse;
+  location: Location;
+}
+
+// How many dates at each end of the ranking are highlighted
+const HIGHLIGHT_COUNT = 3;
+
+const WEEKDAY_HEADERS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Candidate dates arrive as DD-MM-YYYY
+const parseDate = (date: string): Date => {
+  const [day, month, year] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const toKey = (date: Date): string =>
+  [
+    String(date.getUTCDate()).padStart(2, "0"),
+    String(date.getUTCMonth() + 1).padStart(2, "0"),
+    date.getUTCFullYear(),
+  ].join("-");
+
+const formatDay = (date: string): string =>
+  parseDate(date).toLocaleDateString(undefined, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+// Red (0) through amber to green (100)
+const getHeatColor = (score: number): string =>
+  `hsl(${Math.round(score * 1.2)}, 65%, 48%)`;
+
+/** Every month from the start's to the end's, as its first day */
+const listMonths = (start: Date, end: Date): Date[] => {
+  const months: Date[] = [];
+  for (
+    let month = new Date(
+      Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1)
+    );
+    month <= end;
+    month = new Date(
+      Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1)
+    )
+  ) {
+    months.push(month);
+  }
+  return months;
+};
+
+export function BestDatesCalendar({
+  result,
+  location,
+}: BestDatesCalendarProps) {
+  const { candidates, request_parameters, metadata } = result;
+  const [selected, setSelected] = useState<BestDateCandidate | undefined>(
+    candidates[0]
+  );
+
+  const start = parseDate(request_parameters.start_date);
+  const end = parseDate(request_parameters.end_date);
+  const months = listMonths(start, end);
+
+  const byDate = useMemo(
+    () => new Map(candidates.map((candidate) => [candidate.date, candidate])),
+    [candidates]
+  );
+  const worstRank = candidates.length - HIGHLIGHT_COUNT;
+
+  const renderMonth = (month: Date) => {
+    const year = month.getUTCFullYear();
+    const monthIndex = month.getUTCMonth();
+    const daysInMonth = new Date(
+      Date.UTC(year, monthIndex + 1, 0)
+    ).getUTCDate();
+    const leadingBlanks = month.getUTCDay();
+
+    return (
+      <div key={`${year}-${monthIndex}`} className="calendar-month">
+        <h4 className="calendar-month-title">
+          {month.toLocaleDateString(undefined, {
+            month: "long",
+            year: "numeric",
+            timeZone: "UTC",
+          })}
+        </h4>
+        <div className="calendar-grid">
+          {WEEKDAY_HEADERS.map((weekday) => (
+            <div key={weekday} className="calendar-weekday">
+              {weekday}
+            </div>
+          ))}
+          {Array.from({ length: leadingBlanks }, (_, i) => (
+            <div key={`blank-${i}`} />
+          ))}
+          {Array.from({ length: daysInMonth }, (_, i) => {
+            const date = new Date(Date.UTC(year, monthIndex, i + 1));
+            const candidate = byDate.get(toKey(date));
+
+            if (!candidate) {
+              const inWindow = date >= start && date <= end;
+              return (
+                <div
+                  key={i}
+                  className={`calendar-day ${
+                    inWindow ? "calendar-day-excluded" : "calendar-day-outside"
+                  }`}
+                >
+                  {i + 1}
+                </div>
+              );
+            }
+
+            const isBest = candidate.rank <= HIGHLIGHT_COUNT;
+            const isWorst = !isBest && candidate.rank > worstRank;
+            return (
+              <button
+                key={i}
+                type="button"
+                className={[
+                  "calendar-day",
+                  "calendar-day-candidate",
+                  isBest && "calendar-day-best",
+                  isWorst && "calendar-day-worst",
+                  selected?.date === candidate.date && "calendar-day-selected",
+                ]
+                  .filter(Boolean)
+                  .join(" ")}
+                style={{
+                  backgroundColor: getHeatColor(
+                    candidate.comfortability_score.score
+                  ),
+                }}
+                title={`${formatDay(candidate.date)}: ${
+                  candidate.comfortability_score.score
+                }% (rank ${candidate.rank})`}
+                onClick={() => setSelected(candidate)}
+              >
+                {i + 1}
+                {isBest && <span className="calendar-day-marker">★</span>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="weather-report-display best-dates">
+      <div className="report-summary">
+        <div className="summary-header">
+          <div className="location-info">
+            <h3 className="location-name">
+              📍 {location.name || "Selected Location"}
+            </h3>
+            <p className="coordinates">
+              {candidates.length} candidate dates
+              {request_parameters.weekdays.length > 0 &&
+                ` (${request_parameters.weekdays.join(", ")})`}{" "}
+              between {formatDay(request_parameters.start_date)} and{" "}
+              {formatDay(request_parameters.end_date)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="calendar-legend">
+        <span>Less comfortable</span>
+        <span className="calendar-legend-scale" />
+        <span>More comfortable</span>
+        <span className="calendar-legend-item">★ Best {HIGHLIGHT_COUNT}</span>
+        <span className="calendar-legend-item calendar-legend-worst">
+          Worst {HIGHLIGHT_COUNT}
+        </span>
+      </div>
+
+      <div className="calendar-months">{months.map(renderMonth)}</div>
+
+      {selected && (
+        <div className="best-date-details">
+          <h3 className="section-title">
+            #{selected.rank} · {formatDay(selected.date)}
+          </h3>
+          <div className="summary-details">
+            <div className="detail-item">
+              <span className="detail-icon">😊</span>
+              <div className="detail-content">
+                <div className="detail-label">Comfort Score</div>
+                <div className="detail-value">
+                  {selected.comfortability_score.score}%
+                </div>
+              </div>
+            </div>
+            <div className="detail-item">
+              <span className="detail-icon">🌡️</span>
+              <div className="detail-content">
+                <div className="detail-label">Typical Range</div>
+                <div className="detail-value">
+                  {formatQuantity(
+                    selected.expected_conditions.temperature_min,
+                    "temperature",
+                    metadata.units
+                  )}{" "}
+                  to{" "}
+                  {formatQuantity(
+                    selected.expected_conditions.temperature_max,
+                    "temperature",
+                    metadata.units
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="detail-item">
+              <span className="detail-icon">☔</span>
+              <div className="detail-content">
+                <div className="detail-label">Wet Day Chance</div>
+                <div className="detail-value">
+                  {selected.wet_day_probability}%
+                </div>
+              </div>
+            </div>
+          </div>
+          <ul className="best-date-reasons">
+            {selected.reasons.map((reason, idx) => (
+              <li key={idx}>{reason}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="report-note">
+        <h4>📌 Understanding the Results</h4>
+        <ul>
+          <li>
+            Each date is scored from the weather recorded around the same date
+            in past years, so the ranking shows which dates are usually best,
+            not a forecast
+          </li>
+          <li>
+            Click a date to see why it ranks where it does; dates outside the
+            weekday filter are greyed out
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment jsdom
+ */
+import { afterEach, describe, expect, it } from "@jest/globals";
+import { cleanup, render, screen } from "@testing-library/react";
+import type { ForecastDay, ForecastResponse } from "../../types/weather";
+import { ForecastStrip } from "./ForecastStrip";
+
+const day = (overrides: Partial<ForecastDay>): ForecastDay => ({
+  date: "15-07-2025",
+  is_target: false,
+  conditions: "Partially cloudy",
+  description: null,
+  temperature: 77,
+  temperature_max: 84.2,
+  temperature_min: 68.9,
+  rainfall: 0.5,
+  precipitation_probability: null,
+  windspeed: 9.3,
+  humidity_percent: 60,
+  uv_index: 7,
+  temperature_celsius: 25,
+  temperature_max_celsius: 29,
+  temperature_min_celsius: 20.5,
+  rainfall_mm: 12.7,
+  windspeed_kph: 15,
+  ...overrides,
+});
+
+const forecast = (days: ForecastDay[]): ForecastResponse => ({
+  request_parameters: {
+    latitude: "40.71",
+    longitude: "-74.01",
+    date: "15-07-2025",
+    start_date: "14-07-2025",
+    end_date: "16-07-2025",
+  },
+  days,
+  metadata: {
+    units: "imperial",
+    provider: { name: "visualcrossing", displayName: "Visual Crossing" },
+  },
+});
+
+describe("ForecastStrip", () => {
+  afterEach(cleanup);
+
+  it("shows each day in the requested units", () => {
+    render(
+      <ForecastStrip
+        forecast={forecast([
+          day({ date: "14-07-2025" }),
+          day({ is_target: true, precipitation_probability: 40 }),
+        ])}
+      />
+    );
+
+    const cards = screen.getAllByRole("listitem");
+    expect(cards).toHaveLength(2);
+    expect(cards[0].textContent).toContain("84° 69°");
+    expect(cards[0].textContent).toContain("0.5 in");
+    expect(cards[1].textContent).toContain("Event day");
+    expect(cards[1].textContent).toContain("40%");
+    expect(screen.getByText(/Forecast from Visual Crossing/)).toBeTruthy();
+  });
+
+  it("renders nothing without forecast days", () => {
+    const { container } = render(<ForecastStrip forecast={forecast([])} />);
+
+    expect(container.innerHTML).toBe("");
+  });
+});
@@ -0,0 +1,115 @@
+import type {
+  ForecastDay,
+  ForecastResponse,
+  UnitSystem,
+} from "../../types/weather";
+import { formatQuantity } from "../../utils/units";
+import "./ForecastStrip.css";
+
+interface ForecastStripProps {
+  forecast: ForecastResponse;
+}
+
+// Checked in order; provider condition texts often combine several
+// (e.g. "Rain, Partially cloudy")
+const CONDITION_ICONS: [RegExp, string][] = [
+  [/thunder|storm/i, "⛈️"],
+  [/snow|ice|freezing/i, "🌨️"],
+  [/rain|drizzle|shower/i, "🌧️"],
+  [/fog|mist|haze/i, "🌫️"],
+  [/overcast/i, "☁️"],
+  [/cloud/i, "⛅"],
+  [/clear|sun/i, "☀️"],
+];
+
+const getConditionIcon = (conditions: string | null): string =>
+  CONDITION_ICONS.find(([pattern]) => pattern.test(conditions ?? ""))?.[1] ??
+  "🌡️";
+
+// Forecast dates arrive as DD-MM-YYYY
+const parseDate = (date: string): Date => {
+  const [day, month, year] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+function ForecastDayCard({
+  day,
+  units,
+}: {
+  day: ForecastDay;
+  units?: UnitSystem;
+}) {
+  const date = parseDate(day.date);
+
+  return (
+    <li
+      className={`forecast-day${day.is_target ? " forecast-day-target" : ""}`}
+      title={day.description ?? undefined}
+    >
+      <div className="forecast-day-weekday">
+        {day.is_target
+          ? "Event day"
+          : date.toLocaleDateString(undefined, {
+              weekday: "short",
+              timeZone: "UTC",
+            })}
+      </div>
+      <div className="forecast-day-date">
+        {date.toLocaleDateString(undefined, {
+          day: "numeric",
+          month: "short",
+          timeZone: "UTC",
+        })}
+      </div>
+      <div className="forecast-day-icon" aria-hidden="true">
+        {getConditionIcon(day.conditions)}
+      </div>
+      <div className="forecast-day-conditions">
+        {day.conditions ?? "No description"}
+      </div>
+      <div className="forecast-day-temperature">
+        <span className="forecast-day-max">
+          {Math.round(day.temperature_max)}°
+        </span>{" "}
+        <span className="forecast-day-min">
+          {Math.round(day.temperature_min)}°
+        </span>
+      </div>
+      <div className="forecast-day-precipitation">
+        💧{" "}
+        {day.precipitation_probability !== null
+          ? `${Math.round(day.precipitation_probability)}%`
+          : formatQuantity(day.rainfall, "precipitation", units)}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Horizontal strip of the provider's daily forecast around the event date,
+ * with the event day highlighted.
+ */
+export function ForecastStrip({ forecast }: ForecastStripProps) {
+  if (forecast.days.length === 0) return null;
+
+  return (
+    <section className="forecast-strip" aria-label="Day-by-day forecast">
+      <h3 className="forecast-strip-title">🗓️ Forecast Around Your Event</h3>
+      <ol className="forecast-strip-days">
+        {forecast.days.map((day) => (
+          <ForecastDayCard
+            key={day.date}
+            day={day}
+            units={forecast.metadata.units}
+          />
+        ))}
+      </ol>
+      <p className="forecast-strip-source">
+        Forecast from{" "}
+        {forecast.metadata.provider?.displayName || "the weather provider"}.
+        Precipitation shows the chance of rain, or the expected amount where no
+        chance is given.
+      </p>
+    </section>
+  );
+}
@@ -0,0 +1,180 @@
+import {
+  ComposedChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+  ReferenceArea,
+  ResponsiveContainer,
+  Tooltip,
+} from "recharts";
+import type { EventWindowAnalysis, UnitSystem } from "../../types/weather";
+import { formatWithUnit, unitLabel } from "../../utils/units";
+import "./HourlyTimelineChart.css";
+
+interface HourlyTimelineChartProps {
+  eventWindow: EventWindowAnalysis;
+  /** The units of the report the event window belongs to */
+  units?: UnitSystem;
+}
+
+const formatHour = (hour: number): string =>
+  `${hour.toString().padStart(2, "0")}:00`;
+
+const formatValue = (value: number | null, unit: string): string =>
+  value === null ? "—" : formatWithUnit(value, unit);
+
+const BASIS_LABELS: Record<EventWindowAnalysis["basis"], string> = {
+  observation: "Observed hourly conditions",
+  forecast: "Hourly forecast",
+  climatology: "Typical hourly conditions from past years",
+};
+
+export function HourlyTimelineChart({
+  eventWindow,
+  units,
+}: HourlyTimelineChartProps) {
+  const temperatureUnit = unitLabel("temperature", units);
+  const precipitationUnit = unitLabel("precipitation", units);
+  const windSpeedUnit = unitLabel("windSpeed", units);
+
+  const chartData = eventWindow.hourly.map((hour) => ({
+    label: formatHour(hour.hour),
+    temperature: hour.temperature,
+    rainChance: hour.precipitation_probability,
+  }));
+
+  const eventHours = eventWindow.hourly.filter((h) => h.in_event_window);
+  const { setup } = eventWindow;
+
+  return (
+    <div className="hourly-timeline">
+      <h3 className="section-title">
+        ⏰ Event Hours: {eventWindow.start_time}–{eventWindow.end_time}
+      </h3>
+      <p className="section-description">
+        {BASIS_LABELS[eventWindow.basis]}. The comfort score covers only the
+        event hours; the whole day scores{" "}
+        {eventWindow.day_comfortability_score.score}%.
+      </p>
+
+      <div className="hourly-timeline-body">
+        <ResponsiveContainer width="100%" height={320}>
+          <ComposedChart
+            data={chartData}
+            margin={{ top: 20, right: 20, left: 0, bottom: 10 }}
+          >
+            <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+            <XAxis
+              dataKey="label"
+              stroke="#666"
+              tick={{ fontSize: 12 }}
+              interval={2}
+            />
+            <YAxis
+              yAxisId="temperature"
+              stroke="#666"
+              tick={{ fontSize: 12 }}
+              unit={temperatureUnit}
+            />
+            <YAxis
+              yAxisId="rain"
+              orientation="right"
+              domain={[0, 100]}
+              stroke="#666"
+              tick={{ fontSize: 12 }}
+              unit="%"
+            />
+            <Tooltip />
+            <Legend />
+
+            {setup && (
+              <ReferenceArea
+                yAxisId="temperature"
+                x1={formatHour(setup.start_hour)}
+                x2={formatHour(setup.end_hour)}
+                fill="#ffb74d"
+                fillOpacity={0.2}
+                label={{ value: "Setup", position: "insideTop", fontSize: 12 }}
+              />
+            )}
+            {eventHours.length > 0 && (
+              <ReferenceArea
+                yAxisId="temperature"
+                x1={formatHour(eventHours[0].hour)}
+                x2={formatHour(eventHours[eventHours.length - 1].hour)}
+                fill="#0960e1"
+                fillOpacity={0.12}
+                label={{ value: "Event", position: "insideTop", fontSize: 12 }}
+              />
+            )}
+
+            <Bar
+              yAxisId="rain"
+              dataKey="rainChance"
+              name="Chance of rain (%)"
+              fill="#4fc3f7"
+              barSize={10}
+            />
+            <Line
+              yAxisId="temperature"
+              type="monotone"
+              dataKey="temperature"
+              name={`Temperature (${temperatureUnit})`}
+              stroke="#e53935"
+              strokeWidth={2}
+              dot={false}
+              connectNulls
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+
+        <dl className="hourly-timeline-stats">
+          <div>
+            <dt>Chance of rain during the event</dt>
+            <dd>{formatValue(eventWindow.rain_probability, "%")}</dd>
+          </div>
+          <div>
+            <dt>Expected rainfall</dt>
+            <dd>
+              {formatValue(eventWindow.expected_rainfall, precipitationUnit)}
+            </dd>
+          </div>
+          <div>
+            <dt>Peak heat</dt>
+            <dd>
+              {formatValue(eventWindow.peak_temperature, temperatureUnit)}
+              {eventWindow.peak_hour !== null &&
+                ` at ${formatHour(eventWindow.peak_hour)}`}
+            </dd>
+          </div>
+          <div>
+            <dt>Coolest</dt>
+            <dd>
+              {formatValue(eventWindow.min_temperature, temperatureUnit)}
+            </dd>
+          </div>
+          <div>
+            <dt>Strongest wind</dt>
+            <dd>{formatValue(eventWindow.windspeed, windSpeedUnit)}</dd>
+          </div>
+          {setup && (
+            <div>
+              <dt>
+                Wind during setup ({formatHour(setup.start_hour)}–
+                {formatHour(setup.end_hour + 1)})
+              </dt>
+              <dd>
+                {formatValue(setup.windspeed, windSpeedUnit)}
+                {setup.gust !== null &&
+                  `, gusts to ${formatValue(setup.gust, windSpeedUnit)}`}
+              </dd>
+            </div>
+          )}
+        </dl>
+      </div>
+    </div>
+  );
+}
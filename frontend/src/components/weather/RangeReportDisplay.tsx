@@ -0,0 +1,203 @@
+import type {
+  ConditionsBasis,
+  Location,
+  RangeAnalysisResponse,
+  RangeDay,
+  UnitSystem,
+} from "../../types/weather";
+import { formatQuantity } from "../../utils/units";
+import "./WeatherReportDisplay.css";
+import "./RangeReportDisplay.css";
+
+interface RangeReportDisplayProps {
+  report: RangeAnalysisResponse;
+  location: Location;
+}
+
+const BASIS_LABELS: Record<ConditionsBasis, string> = {
+  observation: "Observed",
+  forecast: "Forecast",
+  climatology: "Historical",
+};
+
+const getComfortColor = (score: number): string => {
+  if (score >= 75) return "#388e3c";
+  if (score >= 50) return "#fbc02d";
+  if (score >= 25) return "#f57c00";
+  return "#c62828";
+};
+
+// Range dates arrive as DD-MM-YYYY
+const formatDay = (date: string, withYear = false): string => {
+  const [day, month, year] = date.split("-").map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString(
+    undefined,
+    {
+      weekday: "short",
+      day: "numeric",
+      month: "short",
+      year: withYear ? "numeric" : undefined,
+      timeZone: "UTC",
+    }
+  );
+};
+
+// Matches the backend's wet-day threshold of 1 mm
+const WET_DAY_THRESHOLD: Record<UnitSystem, string> = {
+  metric: "1 mm",
+  imperial: "0.04 in",
+};
+
+function RangeDayCard({ day, units }: { day: RangeDay; units?: UnitSystem }) {
+  const conditions = day.expected_conditions;
+  const score = day.comfortability_score.score;
+
+  return (
+    <div className="range-day-card">
+      <div className="range-day-header">
+        <span className="range-day-date">{formatDay(day.date)}</span>
+        <span className={`range-day-basis basis-${day.basis}`}>
+          {BASIS_LABELS[day.basis]}
+        </span>
+      </div>
+      <div
+        className="range-day-score"
+        style={{ color: getComfortColor(score) }}
+      >
+        {score}%
+      </div>
+      <ul className="range-day-details">
+        <li>
+          🌡️{" "}
+          {formatQuantity(
+            conditions.temperature_min,
+            "temperature",
+            units
+          )}{" "}
+          to{" "}
+          {formatQuantity(
+            conditions.temperature_max,
+            "temperature",
+            units
+          )}
+        </li>
+        <li>🌧️ {day.wet_day_probability}% chance of a wet day</li>
+        {conditions.windspeed !== null && (
+          <li>
+            💨 {formatQuantity(conditions.windspeed, "windSpeed", units)}
+          </li>
+        )}
+      </ul>
+    </div>
+  );
+}
+
+export function RangeReportDisplay({
+  report,
+  location,
+}: RangeReportDisplayProps) {
+  const { summary, request_parameters, metadata } = report;
+  const historical = metadata.historical;
+  const yearsAnalyzed = historical
+    ? historical.yearsRequested.length - historical.missingYears.length
+    : 0;
+
+  return (
+    <div className="weather-report-display">
+      <div className="report-summary">
+        <div className="summary-header">
+          <div className="location-info">
+            <h3 className="location-name">
+              📍 {location.name || "Selected Location"}
+            </h3>
+            <p className="coordinates">
+              {formatDay(request_parameters.start_date, true)} –{" "}
+              {formatDay(request_parameters.end_date, true)} (
+              {summary.day_count} days)
+            </p>
+          </div>
+
+          <div className="comfort-score-container">
+            <div className="comfort-score">
+              <div
+                className="comfort-value"
+                style={{
+                  color: getComfortColor(summary.average_comfort_score),
+                }}
+              >
+                {summary.average_comfort_score}%
+              </div>
+              <div className="comfort-label">Average Comfort</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="summary-details">
+          <div className="detail-item">
+            <span className="detail-icon">☀️</span>
+            <div className="detail-content">
+              <div className="detail-label">Best Day</div>
+              <div className="detail-value">
+                {formatDay(summary.best_day.date)} ({summary.best_day.score}%)
+              </div>
+            </div>
+          </div>
+          <div className="detail-item">
+            <span className="detail-icon">⛈️</span>
+            <div className="detail-content">
+              <div className="detail-label">Worst Day</div>
+              <div className="detail-value">
+                {formatDay(summary.worst_day.date)} ({summary.worst_day.score}
+                %)
+              </div>
+            </div>
+          </div>
+          <div className="detail-item">
+            <span className="detail-icon">☔</span>
+            <div className="detail-content">
+              <div className="detail-label">At Least One Wet Day</div>
+              <div className="detail-value">
+                {summary.wet_day_probability}% (≈{summary.expected_wet_days} wet
+                days)
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="conditions-section">
+        <h2 className="section-title">Day by Day</h2>
+        <p className="section-description">
+          Worst day: {summary.worst_day.summary}
+        </p>
+        <div className="range-days-grid">
+          {report.days.map((day) => (
+            <RangeDayCard key={day.date} day={day} units={metadata.units} />
+          ))}
+        </div>
+      </div>
+
+      <div className="report-note">
+        <h4>📌 Understanding the Results</h4>
+        <ul>
+          <li>
+            <strong>Observed</strong> and <strong>Forecast</strong> days use{" "}
+            {metadata.provider?.displayName || "the weather provider"}'s data
+            for that day; <strong>Historical</strong> days use {yearsAnalyzed}{" "}
+            years of records around the same date
+          </li>
+          <li>
+            <strong>Wet day</strong> means at least{" "}
+            {WET_DAY_THRESHOLD[metadata.units ?? "metric"]} of precipitation.
+            The chance of at least one wet day counts past years in which any of
+            the historical days was wet, combined with the forecast days
+          </li>
+          <li>
+            <strong>Comfort scores</strong> are computed by fixed rules from
+            temperature, rain, wind, humidity and UV, without AI analysis
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { WeatherConditionCard } from "./WeatherConditionCard";
+import type {
+  RankedVenue,
+  VenueComparisonReport,
+  VenueQuery,
+} from "../../types/weather";
+import "./WeatherReportDisplay.css";
+import "./VenueComparisonDisplay.css";
+
+interface VenueComparisonDisplayProps {
+  comparison: VenueComparisonReport;
+}
+
+const getComfortColor = (score: number): string => {
+  if (score >= 75) return "#388e3c";
+  if (score >= 50) return "#fbc02d";
+  if (score >= 25) return "#f57c00";
+  return "#c62828";
+};
+
+const describeVenue = (venue: VenueQuery): string =>
+  venue.name ||
+  `${Number(venue.latitude).toFixed(4)}°N, ${Number(venue.longitude).toFixed(
+    4
+  )}°E`;
+
+function VenueCard({ venue }: { venue: RankedVenue }) {
+  const { report } = venue;
+
+  return (
+    <div
+      className={`weather-report-display venue-card${
+        venue.rank === 1 ? " venue-card-best" : ""
+      }`}
+    >
+      <div className="venue-rank">
+        {venue.rank === 1 ? "🏆 Best match" : `#${venue.rank}`}
+      </div>
+
+      <div className="report-summary">
+        <div className="summary-header">
+          <div className="location-info">
+            <h3 className="location-name">📍 {describeVenue(venue.venue)}</h3>
+            {venue.venue.name && (
+              <p className="coordinates">
+                {Number(venue.venue.latitude).toFixed(4)}°N,{" "}
+                {Number(venue.venue.longitude).toFixed(4)}°E
+              </p>
+            )}
+          </div>
+
+          <div className="comfort-score-container">
+            <div className="comfort-score">
+              <div
+                className="comfort-value"
+                style={{ color: getComfortColor(venue.comfort_score) }}
+              >
+                {venue.comfort_score}%
+              </div>
+              <div className="comfort-label">Comfort Score</div>
+              <div className="comfort-summary">{report.profile.summary}</div>
+            </div>
+          </div>
+        </div>
+
+        <div className="summary-details">
+          <div className="detail-item">
+            <span className="detail-icon">📊</span>
+            <div className="detail-content">
+              <div className="detail-label">Ranking Score</div>
+              <div className="detail-value">{venue.ranking_score}</div>
+            </div>
+          </div>
+          <div className="detail-item">
+            <span className="detail-icon">🌧️</span>
+            <div className="detail-content">
+              <div className="detail-label">Rain Chance</div>
+              <div className="detail-value">{venue.rain_probability}%</div>
+            </div>
+          </div>
+          <div className="detail-item">
+            <span className="detail-icon">🌡️</span>
+            <div className="detail-content">
+              <div className="detail-label">Heat / Cold Risk</div>
+              <div className="detail-value">
+                {venue.heat_risk}% / {venue.cold_risk}%
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="conditions-section">
+        <h3 className="section-title">Weather Condition Likelihood</h3>
+        <div className="conditions-grid venue-conditions-grid">
+          {report.profile.conditions.map((condition, idx) => (
+            <WeatherConditionCard key={idx} condition={condition} />
+          ))}
+        </div>
+      </div>
+
+      {report.profile.riskFactors.length > 0 && (
+        <div className="activities-section">
+          <h3 className="section-title">⚠️ Warnings</h3>
+          <ul className="venue-warnings">
+            {report.profile.riskFactors.map((warning, idx) => (
+              <li key={idx}>{warning}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function VenueComparisonDisplay({
+  comparison,
+}: VenueComparisonDisplayProps) {
+  return (
+    <div className="venue-comparison">
+      <div className="venue-comparison-grid">
+        {comparison.venues.map((venue) => (
+          <VenueCard
+            key={`${venue.venue.latitude},${venue.venue.longitude}`}
+            venue={venue}
+          />
+        ))}
+      </div>
+
+      {comparison.failed.length > 0 && (
+        <div className="degraded-banner" role="status">
+          <strong>⚠️ Some venues could not be analyzed</strong>
+          <span>
+            {comparison.failed
+              .map((failed) => describeVenue(failed.venue))
+              .join(", ")}
+          </span>
+        </div>
+      )}
+
+      <div className="report-note">
+        <h4>📌 How venues are ranked</h4>
+        <ul>
+          <li>
+            The ranking score weighs the comfort score (50%), the chance of
+            staying dry (30%) and the chance of avoiding very hot or very cold
+            weather (20%)
+          </li>
+          <li>
+            Every venue is analyzed from the same weather data provider and
+            historical years, using rule-based recommendations without AI
+            analysis
+          </li>
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
 import type { WeatherCondition } from "../../types/weather";
+import { formatWithUnit } from "../../utils/units";
 import "./WeatherConditionCard.css";
 
 interface WeatherConditionCardProps {
@@ -21,6 +22,16 @@ const conditionColors: Record<string, string> = {
   "Very Uncomfortable": "uncomfortable",
 };
 
+const formatPercentile = (percentile: number): string => {
+  const rounded = Math.round(percentile);
+  const lastTwo = rounded % 100;
+  const suffix =
+    lastTwo >= 11 && lastTwo <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][rounded % 10] || "th";
+  return `${rounded}${suffix} percentile`;
+};
+
 export function WeatherConditionCard({ condition }: WeatherConditionCardProps) {
   const icon = conditionIcons[condition.condition] || "🌤️";
   const colorTheme = conditionColors[condition.condition] || "default";
@@ -36,6 +47,9 @@ export function WeatherConditionCard({ condition }: WeatherConditionCardProps) {
 
   const riskLevel = getRiskLevel(likelihood);
 
+  const formatRangeValue = (value: number): string =>
+    formatWithUnit(Number(value.toFixed(1)), condition.unit);
+
   return (
     <div className={`weather-condition-card theme-${colorTheme}`}>
       <div className="card-header">
@@ -68,7 +82,7 @@ export function WeatherConditionCard({ condition }: WeatherConditionCardProps) {
       <div className="threshold-info">
         <span className="threshold-label">Threshold:</span>
         <span className="threshold-value">
-          {condition.threshold} {condition.unit}
+          {formatWithUnit(condition.threshold, condition.unit)}
         </span>
       </div>
 
@@ -77,18 +91,35 @@ export function WeatherConditionCard({ condition }: WeatherConditionCardProps) {
           <div className="range-label">Historical Range:</div>
           <div className="range-values">
             <span className="range-item">
-              Min: {condition.historicalRange.min.toFixed(1)} {condition.unit}
+              Min: {formatRangeValue(condition.historicalRange.min)}
             </span>
             <span className="range-item">
-              Median: {condition.historicalRange.median.toFixed(1)}{" "}
-              {condition.unit}
+              Median: {formatRangeValue(condition.historicalRange.median)}
             </span>
             <span className="range-item">
-              Max: {condition.historicalRange.max.toFixed(1)} {condition.unit}
+              Max: {formatRangeValue(condition.historicalRange.max)}
             </span>
           </div>
         </div>
       )}
+
+      {condition.percentile !== undefined && condition.confidence && (
+        <div className="distribution-info">
+          <span className="distribution-percentile">
+            {formatPercentile(condition.percentile)} historically
+          </span>
+          <span
+            className={`confidence-badge confidence-${condition.confidence}`}
+            title={
+              condition.sampleSize !== undefined
+                ? `Based on ${condition.sampleSize} historical days`
+                : undefined
+            }
+          >
+            {condition.confidence} confidence
+          </span>
+        </div>
+      )}
     </div>
   );
 }
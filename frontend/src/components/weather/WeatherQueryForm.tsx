@@ -1,9 +1,53 @@
 import { useState, useCallback } from "react";
 import { LocationPicker } from "../location/LocationPicker";
 import { DatePicker } from "../date/DatePicker";
-import type { WeatherQuery, Location, DateQuery } from "../../types/weather";
+import type {
+  WeatherQuery,
+  Location,
+  DateQuery,
+  PointLocation,
+  Weekday,
+  EventTime,
+  UnitSystem,
+} from "../../types/weather";
+import {
+  UNIT_SYSTEM_OPTIONS,
+  loadUnitPreference,
+  saveUnitPreference,
+} from "../../utils/units";
 import "./WeatherQueryForm.css";
 
+// Matches the backend's default MAX_RANGE_DAYS
+const MAX_RANGE_DAYS = 14;
+
+// Matches the backend's default MAX_COMPARE_VENUES
+const MAX_COMPARE_VENUES = 5;
+
+// Matches the backend's default MAX_BEST_DATES_WINDOW_DAYS
+const MAX_BEST_DATES_WINDOW_DAYS = 92;
+
+type QueryKind = "single" | "range" | "compare" | "best-date";
+
+const QUERY_KINDS: { value: QueryKind; label: string }[] = [
+  { value: "single", label: "Single date" },
+  { value: "range", label: `Multi-day event (up to ${MAX_RANGE_DAYS} days)` },
+  {
+    value: "compare",
+    label: `Compare venues (up to ${MAX_COMPARE_VENUES} locations)`,
+  },
+  { value: "best-date", label: "Find the best date in a window" },
+];
+
+const WEEKDAY_OPTIONS: { value: Weekday; label: string }[] = [
+  { value: 1, label: "Mon" },
+  { value: 2, label: "Tue" },
+  { value: 3, label: "Wed" },
+  { value: 4, label: "Thu" },
+  { value: 5, label: "Fri" },
+  { value: 6, label: "Sat" },
+  { value: 0, label: "Sun" },
+];
+
 interface WeatherQueryFormProps {
   onSubmit: (query: WeatherQuery) => void;
   isLoading?: boolean;
@@ -25,6 +69,27 @@ export function WeatherQueryForm({
     year: new Date().getFullYear(),
   });
 
+  const [dataOnly, setDataOnly] = useState(false);
+
+  const [eventTime, setEventTime] = useState<EventTime>({ start: "", end: "" });
+
+  const [units, setUnits] = useState<UnitSystem>(loadUnitPreference);
+
+  const [kind, setKind] = useState<QueryKind>("single");
+
+  const [endDate, setEndDate] = useState<DateQuery>(date);
+
+  const [venues, setVenues] = useState<PointLocation[]>([]);
+
+  const [weekdays, setWeekdays] = useState<Weekday[]>([]);
+
+  const hasEndDate = kind === "range" || kind === "best-date";
+
+  const isSinglePoint = kind === "single" && location.type === "point";
+
+  const hasEventTime =
+    isSinglePoint && Boolean(eventTime.start || eventTime.end);
+
   const [errors, setErrors] = useState<string[]>([]);
 
   const handleLocationChange = useCallback((newLocation: Location) => {
@@ -35,6 +100,23 @@ export function WeatherQueryForm({
     setDate(newDate);
   }, []);
 
+  const handleEndDateChange = useCallback((newDate: DateQuery) => {
+    setEndDate(newDate);
+  }, []);
+
+  const handleAddVenue = () => {
+    if (location.type !== "point") return;
+    const { lat, lon } = location.coordinates;
+    setVenues((previous) =>
+      previous.some(
+        (venue) =>
+          venue.coordinates.lat === lat && venue.coordinates.lon === lon
+      )
+        ? previous
+        : [...previous, location]
+    );
+  };
+
   const validateForm = (): boolean => {
     const newErrors: string[] = [];
 
@@ -46,6 +128,8 @@ export function WeatherQueryForm({
       if (lon < -180 || lon > 180) {
         newErrors.push("Longitude must be between -180 and 180");
       }
+    } else if (location.coordinates.length < 3) {
+      newErrors.push("Add at least three corners to the area");
     }
 
     if (date.month < 1 || date.month > 12) {
@@ -58,6 +142,51 @@ export function WeatherQueryForm({
       newErrors.push("Year must be between 1980 and 2100");
     }
 
+    if (hasEventTime) {
+      if (!eventTime.start || !eventTime.end) {
+        newErrors.push("Give both a start and an end time, or neither");
+      } else if (eventTime.end <= eventTime.start) {
+        newErrors.push("The event must end after it starts, on the same day");
+      }
+    }
+
+    if (kind === "compare" && venues.length < 2) {
+      newErrors.push("Add at least two venues to compare");
+    }
+
+    if (hasEndDate) {
+      // The picker only lets the end spill into the following year, so the
+      // length is the calendar distance, wrapping at the year end
+      const startYear = date.year || new Date().getFullYear();
+      const start = Date.UTC(startYear, date.month - 1, date.day);
+      const end = Date.UTC(
+        endDate.year || startYear,
+        endDate.month - 1,
+        endDate.day
+      );
+      let dayCount = Math.round((end - start) / 86_400_000) + 1;
+      if (dayCount < 1) dayCount += 365;
+      if (kind === "range" && dayCount > MAX_RANGE_DAYS) {
+        newErrors.push(`Events can span at most ${MAX_RANGE_DAYS} days`);
+      }
+      if (kind === "best-date" && dayCount > MAX_BEST_DATES_WINDOW_DAYS) {
+        newErrors.push(
+          `The search window can span at most ${MAX_BEST_DATES_WINDOW_DAYS} days`
+        );
+      }
+      if (
+        kind === "best-date" &&
+        weekdays.length > 0 &&
+        dayCount < 7 &&
+        !Array.from(
+          { length: dayCount },
+          (_, i) => new Date(start + i * 86_400_000).getUTCDay() as Weekday
+        ).some((weekday) => weekdays.includes(weekday))
+      ) {
+        newErrors.push("None of the days in the window fall on those weekdays");
+      }
+    }
+
     setErrors(newErrors);
     return newErrors.length === 0;
   };
@@ -72,6 +201,12 @@ export function WeatherQueryForm({
     const query: WeatherQuery = {
       location,
       date,
+      mode: dataOnly && isSinglePoint ? "data-only" : undefined,
+      endDate: hasEndDate ? endDate : undefined,
+      venues: kind === "compare" ? venues : undefined,
+      bestDateSearch: kind === "best-date" ? { weekdays } : undefined,
+      eventTime: hasEventTime ? eventTime : undefined,
+      units,
     };
 
     onSubmit(query);
@@ -99,19 +234,177 @@ export function WeatherQueryForm({
         </div>
       )}
 
+      <fieldset className="query-kind">
+        <legend>What would you like to know?</legend>
+        {QUERY_KINDS.map((option) => (
+          <label key={option.value} className="form-option">
+            <input
+              type="radio"
+              name="query-kind"
+              value={option.value}
+              checked={kind === option.value}
+              onChange={() => {
+                setKind(option.value);
+                setEndDate(date);
+              }}
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+
       <LocationPicker
         value={location}
         onChange={handleLocationChange}
-        label="📍 Event Location"
+        label={kind === "compare" ? "📍 Candidate Venue" : "📍 Event Location"}
+        allowArea={kind === "single"}
       />
 
+      {kind === "compare" && (
+        <div className="venue-list">
+          <button
+            type="button"
+            className="btn-add-venue"
+            onClick={handleAddVenue}
+            disabled={
+              location.type !== "point" || venues.length >= MAX_COMPARE_VENUES
+            }
+          >
+            ➕ Add this location ({venues.length}/{MAX_COMPARE_VENUES})
+          </button>
+          {venues.length > 0 && (
+            <ul>
+              {venues.map((venue, idx) => (
+                <li key={`${venue.coordinates.lat},${venue.coordinates.lon}`}>
+                  <span>
+                    {venue.name ||
+                      `${venue.coordinates.lat.toFixed(
+                        4
+                      )}, ${venue.coordinates.lon.toFixed(4)}`}
+                  </span>
+                  <button
+                    type="button"
+                    className="btn-remove-venue"
+                    aria-label={`Remove ${venue.name || "venue"}`}
+                    onClick={() =>
+                      setVenues((previous) =>
+                        previous.filter((_, i) => i !== idx)
+                      )
+                    }
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       <DatePicker
+        // Remount when the end fields come or go so they start from the
+        // current date
+        key={hasEndDate ? "range" : "single"}
         value={date}
         onChange={handleDateChange}
         includeYear={true}
-        label="📅 Event Date"
+        label={
+          kind === "best-date"
+            ? "📅 Search Window"
+            : kind === "range"
+            ? "📅 Event Dates"
+            : "📅 Event Date"
+        }
+        endValue={hasEndDate ? endDate : undefined}
+        onEndChange={hasEndDate ? handleEndDateChange : undefined}
       />
 
+      {kind === "best-date" && (
+        <fieldset className="weekday-filter">
+          <legend>Only these weekdays (leave empty for every day)</legend>
+          {WEEKDAY_OPTIONS.map((option) => (
+            <label key={option.value} className="weekday-option">
+              <input
+                type="checkbox"
+                checked={weekdays.includes(option.value)}
+                onChange={(e) =>
+                  setWeekdays((previous) =>
+                    e.target.checked
+                      ? [...previous, option.value]
+                      : previous.filter((weekday) => weekday !== option.value)
+                  )
+                }
+              />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+      )}
+
+      {isSinglePoint && (
+        <fieldset className="event-time">
+          <legend>⏰ Event hours (optional)</legend>
+          <label>
+            Start
+            <input
+              type="time"
+              step={900}
+              value={eventTime.start}
+              onChange={(e) =>
+                setEventTime((previous) => ({
+                  ...previous,
+                  start: e.target.value,
+                }))
+              }
+            />
+          </label>
+          <label>
+            End
+            <input
+              type="time"
+              step={900}
+              value={eventTime.end}
+              onChange={(e) =>
+                setEventTime((previous) => ({
+                  ...previous,
+                  end: e.target.value,
+                }))
+              }
+            />
+          </label>
+        </fieldset>
+      )}
+
+      <fieldset className="unit-system">
+        <legend>📏 Units</legend>
+        {UNIT_SYSTEM_OPTIONS.map((option) => (
+          <label key={option.value} className="unit-option">
+            <input
+              type="radio"
+              name="unit-system"
+              value={option.value}
+              checked={units === option.value}
+              onChange={() => {
+                setUnits(option.value);
+                saveUnitPreference(option.value);
+              }}
+            />
+            {option.label}
+          </label>
+        ))}
+      </fieldset>
+
+      {isSinglePoint && (
+        <label className="form-option">
+          <input
+            type="checkbox"
+            checked={dataOnly}
+            onChange={(e) => setDataOnly(e.target.checked)}
+          />
+          Skip AI analysis (faster, rule-based recommendations)
+        </label>
+      )}
+
       <div className="form-actions">
         <button
           type="submit"
@@ -1,9 +1,14 @@
 import { WeatherConditionCard } from "./WeatherConditionCard";
-import type { WeatherReport } from "../../types/weather";
+import { ForecastStrip } from "./ForecastStrip";
+import { HourlyTimelineChart } from "./HourlyTimelineChart";
+import type { ForecastResponse, WeatherReport } from "../../types/weather";
+import { UNIT_SYSTEM_OPTIONS } from "../../utils/units";
 import "./WeatherReportDisplay.css";
 
 interface WeatherReportDisplayProps {
   report: WeatherReport;
+  /** Shown under the summary for dates within the forecast horizon */
+  forecast?: ForecastResponse | null;
 }
 
 const getAQIColor = (aqi: number): string => {
@@ -38,7 +43,10 @@ const getAQIDescription = (aqi: number): string => {
   return "Health warning of emergency conditions: everyone is more likely to be affected.";
 };
 
-export function WeatherReportDisplay({ report }: WeatherReportDisplayProps) {
+export function WeatherReportDisplay({
+  report,
+  forecast,
+}: WeatherReportDisplayProps) {
   const formatDate = (date: typeof report.query.date): string => {
     const monthNames = [
       "January",
@@ -101,8 +109,26 @@ export function WeatherReportDisplay({ report }: WeatherReportDisplayProps) {
     return "#c62828";
   };
 
+  const analysisInfo = report.geminiData?.metadata?.analysis;
+  const units = report.geminiData?.metadata?.units ?? "metric";
+
   return (
     <div className="weather-report-display">
+      {analysisInfo?.degraded && (
+        <div className="degraded-banner" role="status">
+          <strong>
+            {analysisInfo.fallbackReason
+              ? "⚠️ AI analysis unavailable"
+              : "ℹ️ Data-only analysis"}
+          </strong>
+          <span>
+            {analysisInfo.fallbackReason
+              ? "The AI service could not complete this analysis, so the score, suggestions and warnings were generated from the weather data by fixed rules."
+              : "The score, suggestions and warnings were generated from the weather data by fixed rules, without AI analysis."}
+          </span>
+        </div>
+      )}
+
       <div className="report-summary">
         <div className="summary-header">
           <div className="location-info">
@@ -158,9 +184,42 @@ export function WeatherReportDisplay({ report }: WeatherReportDisplayProps) {
               </div>
             </div>
           </div>
+          {report.geminiData?.event_window && (
+            <div className="detail-item">
+              <span className="detail-icon">⏰</span>
+              <div className="detail-content">
+                <div className="detail-label">Event Hours</div>
+                <div className="detail-value">
+                  {report.geminiData.event_window.start_time}–
+                  {report.geminiData.event_window.end_time}
+                </div>
+              </div>
+            </div>
+          )}
+          <div className="detail-item">
+            <span className="detail-icon">📏</span>
+            <div className="detail-content">
+              <div className="detail-label">Units</div>
+              <div className="detail-value">
+                {
+                  UNIT_SYSTEM_OPTIONS.find((option) => option.value === units)
+                    ?.label
+                }
+              </div>
+            </div>
+          </div>
         </div>
       </div>
 
+      {forecast && <ForecastStrip forecast={forecast} />}
+
+      {report.geminiData?.event_window && (
+        <HourlyTimelineChart
+          eventWindow={report.geminiData.event_window}
+          units={units}
+        />
+      )}
+
       <div className="conditions-section">
         <h3 className="section-title">Weather Condition Likelihood</h3>
         <p className="section-description">
@@ -348,6 +407,10 @@ export function WeatherReportDisplay({ report }: WeatherReportDisplayProps) {
             <strong>Historical analysis</strong> uses{" "}
             {report.metadata.yearsAnalyzed} years of climate data
           </li>
+          <li>
+            <strong>Summary, activities and warnings</strong> are written by{" "}
+            {report.metadata.dataSource}
+          </li>
           <li>
             Past patterns don't guarantee future weather, but help inform
             planning decisions
@@ -1,9 +1,17 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import "./HomePage.css";
 import { WeatherQueryForm } from "../components/weather/WeatherQueryForm";
 import { WeatherReportDisplay } from "../components/weather/WeatherReportDisplay";
 import { HistoricalTrendChart } from "../components/trends/HistoricalTrendChart";
-import { LoadingSpinner } from "../components/common/LoadingSpinner";
+import { WeatherConditionCard } from "../components/weather/WeatherConditionCard";
+import { RangeReportDisplay } from "../components/weather/RangeReportDisplay";
+import { VenueComparisonDisplay } from "../components/weather/VenueComparisonDisplay";
+import { BestDatesCalendar } from "../components/weather/BestDatesCalendar";
+import { AreaReportDisplay } from "../components/weather/AreaReportDisplay";
+import {
+  LoadingSpinner,
+  type LoadingStep,
+} from "../components/common/LoadingSpinner";
 import { ErrorMessage } from "../components/common/ErrorMessage";
 import type {
   WeatherQuery,
@@ -11,12 +19,83 @@ import type {
   HistoricalTrend,
   LoadingState,
   ApiError,
+  AnalysisProgress,
+  AnalysisStage,
+  PreliminaryReport,
+  RangeAnalysisResponse,
+  VenueComparisonReport,
+  BestDatesResponse,
+  AreaAnalysisResponse,
+  ForecastResponse,
 } from "../types/weather";
 import {
   fetchWeatherReport,
+  fetchRangeReport,
+  fetchVenueComparison,
+  fetchBestDates,
+  fetchAreaReport,
+  fetchForecast,
+  isWithinForecastHorizon,
   createHistoricalTrendFromData,
+  createPreliminaryConditions,
 } from "../services/weatherApi";
 
+const INITIAL_STEPS: LoadingStep[] = [
+  {
+    id: "target_day",
+    label: "Fetching data for the selected day",
+    status: "pending",
+  },
+  { id: "historical", label: "Fetching historical years", status: "pending" },
+  { id: "statistics", label: "Computing statistics", status: "pending" },
+  { id: "gemini", label: "Generating AI analysis", status: "pending" },
+];
+
+const STEP_FOR_STAGE: Record<AnalysisStage, string> = {
+  target_day: "target_day",
+  historical_year: "historical",
+  statistics: "statistics",
+  gemini_started: "gemini",
+  gemini_finished: "gemini",
+};
+
+// Moves the step list forward for a progress event. Steps before the one the
+// event belongs to are closed off: active ones as done, untouched ones as
+// skipped (e.g. no target-day fetch for far-future dates).
+function applyProgress(
+  steps: LoadingStep[],
+  progress: AnalysisProgress
+): LoadingStep[] {
+  const index = steps.findIndex(
+    (step) => step.id === STEP_FOR_STAGE[progress.stage]
+  );
+
+  return steps.map((step, i) => {
+    if (i < index) {
+      if (step.status === "active") return { ...step, status: "done" };
+      if (step.status === "pending") return { ...step, status: "skipped" };
+      return step;
+    }
+    if (i > index) return step;
+
+    if (progress.stage === "historical_year") {
+      return {
+        ...step,
+        label: `Fetching historical years (${progress.completed}/${progress.total})`,
+        status: progress.completed === progress.total ? "done" : "active",
+      };
+    }
+    if (progress.ok === undefined) return { ...step, status: "active" };
+    return { ...step, status: progress.ok ? "done" : "failed" };
+  });
+}
+
+function getQueryCoordinates(location: WeatherQuery["location"]) {
+  return location.type === "point"
+    ? location.coordinates
+    : location.coordinates[0];
+}
+
 export function HomePage() {
   const [loadingState, setLoadingState] = useState<LoadingState>("idle");
   const [weatherReport, setWeatherReport] = useState<WeatherReport | null>(
@@ -30,23 +109,120 @@ export function HomePage() {
   const [snowfallTrend, setSnowfallTrend] = useState<HistoricalTrend | null>(
     null
   );
+  const [rangeReport, setRangeReport] = useState<RangeAnalysisResponse | null>(
+    null
+  );
+  const [venueComparison, setVenueComparison] =
+    useState<VenueComparisonReport | null>(null);
+  const [bestDates, setBestDates] = useState<BestDatesResponse | null>(null);
+  const [areaReport, setAreaReport] = useState<AreaAnalysisResponse | null>(
+    null
+  );
+  const [forecast, setForecast] = useState<ForecastResponse | null>(null);
   const [error, setError] = useState<ApiError | null>(null);
   const [lastQuery, setLastQuery] = useState<WeatherQuery | null>(null);
+  const [progressSteps, setProgressSteps] =
+    useState<LoadingStep[]>(INITIAL_STEPS);
+  const [progressMessage, setProgressMessage] = useState<string | null>(null);
+  const [preliminary, setPreliminary] = useState<PreliminaryReport>({});
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleQuerySubmit = async (query: WeatherQuery) => {
     setLoadingState("loading");
     setError(null);
     setWeatherReport(null);
+    setRangeReport(null);
+    setVenueComparison(null);
+    setBestDates(null);
+    setAreaReport(null);
+    setForecast(null);
     setTemperatureTrend(null);
     setRainfallTrend(null);
     setSnowfallTrend(null);
     setLastQuery(query);
+    setProgressSteps(INITIAL_STEPS);
+    setProgressMessage(null);
+    setPreliminary({});
+
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     let isMounted = true;
 
     try {
-      console.log("[HomePage] Fetching weather report...");
-      const report = await fetchWeatherReport(query);
+      if (query.bestDateSearch) {
+        console.log("[HomePage] Ranking candidate dates...");
+        const result = await fetchBestDates(query, abortController.signal);
+        if (!isMounted) return;
+
+        setBestDates(result);
+        setLoadingState("success");
+        return;
+      }
+
+      if (query.endDate) {
+        console.log("[HomePage] Fetching range analysis...");
+        const report = await fetchRangeReport(query, abortController.signal);
+        if (!isMounted) return;
+
+        setRangeReport(report);
+        setLoadingState("success");
+        return;
+      }
+
+      if (query.venues) {
+        console.log("[HomePage] Comparing venues...");
+        const comparison = await fetchVenueComparison(
+          query,
+          abortController.signal
+        );
+        if (!isMounted) return;
+
+        setVenueComparison(comparison);
+        setLoadingState("success");
+        return;
+      }
+
+      if (query.location.type === "polygon") {
+        console.log("[HomePage] Fetching area analysis...");
+        const report = await fetchAreaReport(query, abortController.signal);
+        if (!isMounted) return;
+
+        setAreaReport(report);
+        setLoadingState("success");
+        return;
+      }
+
+      // The forecast strip is an extra; the report does not wait for it
+      if (isWithinForecastHorizon(query.date)) {
+        fetchForecast(query, abortController.signal)
+          .then((result) => {
+            if (isMounted && !abortController.signal.aborted) {
+              setForecast(result);
+            }
+          })
+          .catch((err: ApiError) => {
+            console.warn("[HomePage] Forecast unavailable:", err.message);
+          });
+      }
+
+      console.log("[HomePage] Starting analysis job...");
+      const report = await fetchWeatherReport(
+        query,
+        {
+          onProgress: (progress) => {
+            if (!isMounted) return;
+            setProgressSteps((steps) => applyProgress(steps, progress));
+            setProgressMessage(progress.message);
+          },
+          onData: (data) => {
+            if (!isMounted) return;
+            setPreliminary((previous) => ({ ...previous, ...data }));
+          },
+        },
+        abortController.signal
+      );
 
       if (!isMounted) return;
 
@@ -56,10 +232,7 @@ export function HomePage() {
 
       console.log("[HomePage] Extracting historical trends from response...");
       if (report.geminiData) {
-        const location =
-          report.query.location.type === "point"
-            ? report.query.location.coordinates
-            : report.query.location.coordinates[0];
+        const location = getQueryCoordinates(report.query.location);
 
         const tempTrend = createHistoricalTrendFromData(
           report.geminiData,
@@ -88,7 +261,8 @@ export function HomePage() {
 
       console.log("[HomePage] All data loaded successfully!");
     } catch (err) {
-      if (!isMounted) return;
+      // Cancelled by the user or superseded by a newer query
+      if (!isMounted || abortController.signal.aborted) return;
 
       setError(err as ApiError);
       setLoadingState("error");
@@ -99,6 +273,35 @@ export function HomePage() {
     };
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setLoadingState("idle");
+    setProgressMessage(null);
+    setPreliminary({});
+  };
+
+  const preliminaryConditions = createPreliminaryConditions(preliminary);
+  const preliminaryTrends = lastQuery
+    ? [
+        createHistoricalTrendFromData(
+          preliminary,
+          "temperature",
+          getQueryCoordinates(lastQuery.location)
+        ),
+        createHistoricalTrendFromData(
+          preliminary,
+          "rainfall",
+          getQueryCoordinates(lastQuery.location)
+        ),
+        createHistoricalTrendFromData(
+          preliminary,
+          "snowfall",
+          getQueryCoordinates(lastQuery.location)
+        ),
+      ].filter((trend): trend is HistoricalTrend => trend !== null)
+    : [];
+
   return (
     <div className="home-page">
       <header className="page-header">
@@ -124,11 +327,59 @@ export function HomePage() {
 
         {loadingState === "loading" && (
           <LoadingSpinner
-            message="Analyzing weather data (this may take up to 60 seconds)..."
+            message={
+              progressMessage ||
+              "Analyzing weather data (this may take up to 60 seconds)..."
+            }
             size="large"
+            steps={
+              lastQuery?.endDate ||
+              lastQuery?.venues ||
+              lastQuery?.location.type === "polygon"
+                ? undefined
+                : progressSteps
+            }
           />
         )}
 
+        {loadingState === "loading" && (
+          <div className="loading-actions">
+            <button onClick={handleCancel} className="btn-new-query">
+              ✕ Cancel
+            </button>
+          </div>
+        )}
+
+        {loadingState === "loading" &&
+          (preliminaryConditions.length > 0 ||
+            preliminaryTrends.length > 0) && (
+            <div className="results-section preliminary-section">
+              <div className="results-header">
+                <h2>Historical Record</h2>
+                <span className="preliminary-note">
+                  From observed data; the AI analysis is still running
+                </span>
+              </div>
+
+              {preliminaryConditions.length > 0 && (
+                <div className="preliminary-conditions">
+                  {preliminaryConditions.map((condition) => (
+                    <WeatherConditionCard
+                      key={condition.condition}
+                      condition={condition}
+                    />
+                  ))}
+                </div>
+              )}
+
+              {preliminaryTrends.map((trend) => (
+                <div key={trend.variable} className="trend-chart-wrapper">
+                  <HistoricalTrendChart trend={trend} />
+                </div>
+              ))}
+            </div>
+          )}
+
         {loadingState === "error" && error && (
           <ErrorMessage
             error={error}
@@ -140,6 +391,95 @@ export function HomePage() {
           />
         )}
 
+        {loadingState === "success" && rangeReport && lastQuery && (
+          <div className="results-section">
+            <div className="results-header">
+              <h2>Multi-Day Weather Outlook</h2>
+              <button
+                onClick={() => {
+                  setLoadingState("idle");
+                  setRangeReport(null);
+                  setError(null);
+                }}
+                className="btn-new-query"
+              >
+                🔄 New Query
+              </button>
+            </div>
+
+            <RangeReportDisplay
+              report={rangeReport}
+              location={lastQuery.location}
+            />
+          </div>
+        )}
+
+        {loadingState === "success" && bestDates && lastQuery && (
+          <div className="results-section">
+            <div className="results-header">
+              <h2>Best Dates</h2>
+              <button
+                onClick={() => {
+                  setLoadingState("idle");
+                  setBestDates(null);
+                  setError(null);
+                }}
+                className="btn-new-query"
+              >
+                🔄 New Query
+              </button>
+            </div>
+
+            <BestDatesCalendar
+              result={bestDates}
+              location={lastQuery.location}
+            />
+          </div>
+        )}
+
+        {loadingState === "success" && areaReport && lastQuery && (
+          <div className="results-section">
+            <div className="results-header">
+              <h2>Area Weather Outlook</h2>
+              <button
+                onClick={() => {
+                  setLoadingState("idle");
+                  setAreaReport(null);
+                  setError(null);
+                }}
+                className="btn-new-query"
+              >
+                🔄 New Query
+              </button>
+            </div>
+
+            <AreaReportDisplay
+              report={areaReport}
+              location={lastQuery.location}
+            />
+          </div>
+        )}
+
+        {loadingState === "success" && venueComparison && (
+          <div className="results-section">
+            <div className="results-header">
+              <h2>Venue Comparison</h2>
+              <button
+                onClick={() => {
+                  setLoadingState("idle");
+                  setVenueComparison(null);
+                  setError(null);
+                }}
+                className="btn-new-query"
+              >
+                🔄 New Query
+              </button>
+            </div>
+
+            <VenueComparisonDisplay comparison={venueComparison} />
+          </div>
+        )}
+
         {loadingState === "success" && weatherReport && (
           <div className="results-section">
             <div className="results-header">
@@ -148,6 +488,8 @@ export function HomePage() {
                 onClick={() => {
                   setLoadingState("idle");
                   setWeatherReport(null);
+                  setForecast(null);
+                  setRangeReport(null);
                   setTemperatureTrend(null);
                   setRainfallTrend(null);
                   setSnowfallTrend(null);
@@ -159,7 +501,7 @@ export function HomePage() {
               </button>
             </div>
 
-            <WeatherReportDisplay report={weatherReport} />
+            <WeatherReportDisplay report={weatherReport} forecast={forecast} />
 
             <div className="trends-section">
               <h2 className="trends-title">📊 Historical Trends (5 Years)</h2>
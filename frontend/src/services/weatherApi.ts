@@ -8,14 +8,29 @@ import type {
   GeminiWeatherResponse,
   WeatherCondition,
   GraphData,
+  DistributionVariable,
+  DataPoint,
+  AnalysisProgress,
+  PreliminaryReport,
+  ResponseMetadata,
+  AnalysisJob,
+  LlmInfo,
+  DateQuery,
+  RangeAnalysisResponse,
+  ComparisonResponse,
+  VenueComparisonReport,
+  BestDatesResponse,
+  AreaAnalysisResponse,
+  ForecastResponse,
 } from "../types/weather";
+import { formatQuantity, unitLabel } from "../utils/units";
 
 const API_BASE_URL =
   import.meta.env.VITE_API_BASE_URL || "http://localhost:3001";
 
 const apiClient = axios.create({
   baseURL: API_BASE_URL,
-  timeout: 75000,
+  timeout: 15000,
   headers: {
     "Content-Type": "application/json",
   },
@@ -45,7 +60,20 @@ apiClient.interceptors.response.use(
   }
 );
 
+function isApiError(error: unknown): error is ApiError {
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    !(error instanceof Error) &&
+    typeof (error as ApiError).error === "string" &&
+    typeof (error as ApiError).message === "string"
+  );
+}
+
 function transformError(error: unknown): ApiError {
+  // Errors raised by this module are already in ApiError form
+  if (isApiError(error)) return error;
+
   if (axios.isAxiosError(error)) {
     const axiosError = error as AxiosError<ApiError>;
 
@@ -86,69 +114,510 @@ function transformError(error: unknown): ApiError {
   };
 }
 
+function formatDate(date: DateQuery, year: number): string {
+  const day = String(date.day).padStart(2, "0");
+  const month = String(date.month).padStart(2, "0");
+  return `${day}-${month}-${year}`;
+}
+
+function toWeatherParams(query: WeatherQuery): Record<string, string> {
+  const coords =
+    query.location.type === "point"
+      ? query.location.coordinates
+      : query.location.coordinates[0];
+
+  return {
+    latitude: coords.lat.toString(),
+    longitude: coords.lon.toString(),
+    date: formatDate(query.date, query.date.year || new Date().getFullYear()),
+    ...(query.mode && { mode: query.mode }),
+    ...(query.eventTime && {
+      startTime: query.eventTime.start,
+      endTime: query.eventTime.end,
+    }),
+    ...(query.units && { units: query.units }),
+  };
+}
+
+// Historical-mode ranges have no years: they run from the current year,
+// ending in the next one when the end falls earlier in the calendar
+function toRangeParams(
+  query: WeatherQuery,
+  endDate: DateQuery
+): Record<string, string> {
+  const { latitude, longitude, date, units } = toWeatherParams(query);
+  const startYear = query.date.year || new Date().getFullYear();
+  const endsNextYear =
+    endDate.month < query.date.month ||
+    (endDate.month === query.date.month && endDate.day < query.date.day);
+
+  return {
+    latitude,
+    longitude,
+    start: date,
+    end: formatDate(
+      endDate,
+      endDate.year || startYear + (endsNextYear ? 1 : 0)
+    ),
+    ...(units && { units }),
+  };
+}
+
+// Reports from servers that predate metadata.llm were always written by Gemini
+function describeLlm(llm?: LlmInfo): string {
+  return llm ? `${llm.displayName} (${llm.model})` : "Google Gemini AI";
+}
+
+function describeNarrativeSource(metadata?: ResponseMetadata): string {
+  return metadata?.analysis?.degraded
+    ? "rule-based analysis of the weather data"
+    : describeLlm(metadata?.llm);
+}
+
+function buildWeatherReport(
+  query: WeatherQuery,
+  geminiData: GeminiWeatherResponse,
+  formattedDate: string
+): WeatherReport {
+  const historical = geminiData.metadata?.historical;
+
+  return {
+    reportId: `gemini-${Date.now()}`,
+    query: {
+      location: query.location,
+      date: query.date,
+    },
+    profile: {
+      conditions: transformGeminiToConditions(geminiData),
+      overallRisk: calculateRiskLevel(
+        geminiData.overall_comfortability_score.score
+      ),
+      riskFactors: geminiData.activities.warnings,
+      summary: geminiData.overall_comfortability_score.summary,
+    },
+    metadata: {
+      generatedAt: new Date().toISOString(),
+      dataSource: describeNarrativeSource(geminiData.metadata),
+      dateRange: `Historical analysis for ${formattedDate}`,
+      yearsAnalyzed: historical
+        ? historical.yearsRequested.length - historical.missingYears.length
+        : 5,
+      queryProcessingTimeMs: 0,
+    },
+    geminiData: geminiData,
+  };
+}
+
+export interface WeatherProgressHandlers {
+  onProgress?: (progress: AnalysisProgress) => void;
+  onData?: (data: PreliminaryReport) => void;
+}
+
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const cancelledError: ApiError = {
+  error: "Cancelled",
+  message: "The analysis was cancelled.",
+  statusCode: 0,
+};
+
+function waitForNextPoll(signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, JOB_POLL_INTERVAL_MS);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(cancelledError);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Starts an analysis job and polls it until it finishes, passing new
+ * progress events and preliminary data to `handlers` along the way.
+ * Aborting `signal` cancels the job on the server.
+ */
+async function runAnalysisJob(
+  params: Record<string, string>,
+  handlers: WeatherProgressHandlers = {},
+  signal?: AbortSignal
+): Promise<GeminiWeatherResponse> {
+  const { data: created } = await apiClient.post<AnalysisJob>(
+    "/api/analyses",
+    params,
+    { signal }
+  );
+
+  let job = created;
+  let progressSeen = 0;
+  let preliminarySeen = "{}";
+
+  try {
+    for (;;) {
+      job.progress
+        .slice(progressSeen)
+        .forEach((progress) => handlers.onProgress?.(progress));
+      progressSeen = job.progress.length;
+
+      const preliminary = JSON.stringify(job.preliminary);
+      if (preliminary !== preliminarySeen) {
+        handlers.onData?.(job.preliminary);
+        preliminarySeen = preliminary;
+      }
+
+      if (job.status === "completed" && job.result) return job.result;
+      if (job.status === "failed" && job.error) {
+        throw {
+          error: job.error.error,
+          message: job.error.message,
+          statusCode: job.error.status,
+        } as ApiError;
+      }
+      if (job.status === "cancelled") throw cancelledError;
+
+      await waitForNextPoll(signal);
+      const { data } = await apiClient.get<AnalysisJob>(
+        `/api/analyses/${job.id}`,
+        { signal }
+      );
+      job = data;
+    }
+  } catch (error) {
+    if (signal?.aborted) {
+      // Best effort: free the server's queue slot
+      apiClient.delete(`/api/analyses/${job.id}`).catch(() => undefined);
+      throw cancelledError;
+    }
+    throw error;
+  }
+}
+
 export async function fetchWeatherReport(
-  query: WeatherQuery
+  query: WeatherQuery,
+  handlers: WeatherProgressHandlers = {},
+  signal?: AbortSignal
 ): Promise<WeatherReport> {
   try {
-    const coords =
-      query.location.type === "point"
-        ? query.location.coordinates
-        : query.location.coordinates[0];
-
-    const day = String(query.date.day).padStart(2, "0");
-    const month = String(query.date.month).padStart(2, "0");
-    const year = query.date.year || new Date().getFullYear();
-    const formattedDate = `${day}-${month}-${year}`;
-
-    const response = await apiClient.get<GeminiWeatherResponse>(
-      "/api/weather",
+    const params = toWeatherParams(query);
+
+    const geminiData = await runAnalysisJob(params, handlers, signal);
+
+    return buildWeatherReport(query, geminiData, params.date);
+  } catch (error) {
+    throw transformError(error);
+  }
+}
+
+/**
+ * Per-day and summary statistics for a multi-day event. Computed from
+ * weather data alone, so it returns in one request without a job.
+ */
+export async function fetchRangeReport(
+  query: WeatherQuery,
+  signal?: AbortSignal
+): Promise<RangeAnalysisResponse> {
+  if (!query.endDate) {
+    throw new Error("A range report needs an end date");
+  }
+
+  try {
+    const { data } = await apiClient.get<RangeAnalysisResponse>(
+      "/api/weather/range",
+      {
+        params: toRangeParams(query, query.endDate),
+        signal,
+        // One provider call per historical year; slower than the job API's polls
+        timeout: 120000,
+      }
+    );
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw cancelledError;
+    throw transformError(error);
+  }
+}
+
+// Matches the backend's default FORECAST_HORIZON_DAYS
+const FORECAST_HORIZON_DAYS = 15;
+
+/** Whether the provider's forecast reaches the date, counting today */
+export function isWithinForecastHorizon(date: DateQuery): boolean {
+  const now = new Date();
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const day = Date.UTC(
+    date.year || now.getFullYear(),
+    date.month - 1,
+    date.day
+  );
+  const offset = Math.round((day - today) / 86_400_000);
+  return offset >= 0 && offset < FORECAST_HORIZON_DAYS;
+}
+
+/** The provider's day-by-day forecast for the week around the query's date */
+export async function fetchForecast(
+  query: WeatherQuery,
+  signal?: AbortSignal
+): Promise<ForecastResponse> {
+  const { latitude, longitude, date, units } = toWeatherParams(query);
+
+  try {
+    const { data } = await apiClient.get<ForecastResponse>(
+      "/api/weather/forecast",
+      { params: { latitude, longitude, date, units }, signal }
+    );
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw cancelledError;
+    throw transformError(error);
+  }
+}
+
+const WEEKDAY_PARAMS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * Ranks the days between the query's date and end date, optionally only
+ * those on the search's weekdays, by their historical weather.
+ */
+export async function fetchBestDates(
+  query: WeatherQuery,
+  signal?: AbortSignal
+): Promise<BestDatesResponse> {
+  if (!query.endDate || !query.bestDateSearch) {
+    throw new Error("A best-date search needs an end date and weekdays");
+  }
+
+  const { weekdays } = query.bestDateSearch;
+
+  try {
+    const { data } = await apiClient.get<BestDatesResponse>(
+      "/api/weather/best-dates",
       {
         params: {
-          latitude: coords.lat.toString(),
-          longitude: coords.lon.toString(),
-          date: formattedDate,
+          ...toRangeParams(query, query.endDate),
+          ...(weekdays.length > 0 && {
+            weekdays: weekdays
+              .map((weekday) => WEEKDAY_PARAMS[weekday])
+              .join(","),
+          }),
         },
+        signal,
+        timeout: 120000,
       }
     );
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw cancelledError;
+    throw transformError(error);
+  }
+}
 
-    const geminiData = response.data;
+/**
+ * Aggregated statistics for a grid of points inside the query's polygon.
+ * Like the range report, it is computed from weather data alone.
+ */
+export async function fetchAreaReport(
+  query: WeatherQuery,
+  signal?: AbortSignal
+): Promise<AreaAnalysisResponse> {
+  if (query.location.type !== "polygon") {
+    throw new Error("An area report needs a polygon location");
+  }
 
-    const weatherReport: WeatherReport = {
-      reportId: `gemini-${Date.now()}`,
-      query: {
-        location: query.location,
-        date: query.date,
-      },
-      profile: {
-        conditions: transformGeminiToConditions(geminiData),
-        overallRisk: calculateRiskLevel(
-          geminiData.overall_comfortability_score.score
+  try {
+    const { data } = await apiClient.post<AreaAnalysisResponse>(
+      "/api/weather/area",
+      {
+        date: formatDate(
+          query.date,
+          query.date.year || new Date().getFullYear()
         ),
-        riskFactors: geminiData.activities.warnings,
-        summary: geminiData.overall_comfortability_score.summary,
+        polygon: query.location.coordinates.map(({ lat, lon }) => ({
+          latitude: lat,
+          longitude: lon,
+        })),
+        units: query.units,
       },
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        dataSource: "Google Gemini AI",
-        dateRange: `Historical analysis for ${formattedDate}`,
-        yearsAnalyzed: 5,
-        queryProcessingTimeMs: 0,
+      // Every grid point's historical years share one provider budget
+      { signal, timeout: 120000 }
+    );
+    return data;
+  } catch (error) {
+    if (signal?.aborted) throw cancelledError;
+    throw transformError(error);
+  }
+}
+
+/**
+ * Ranks the query's candidate venues for its date. Each venue gets a
+ * data-only report, converted to the shape WeatherReportDisplay renders.
+ */
+export async function fetchVenueComparison(
+  query: WeatherQuery,
+  signal?: AbortSignal
+): Promise<VenueComparisonReport> {
+  if (!query.venues || query.venues.length === 0) {
+    throw new Error("A venue comparison needs venues");
+  }
+
+  const date = formatDate(
+    query.date,
+    query.date.year || new Date().getFullYear()
+  );
+
+  try {
+    const { data } = await apiClient.post<ComparisonResponse>(
+      "/api/weather/compare",
+      {
+        date,
+        venues: query.venues.map((venue) => ({
+          latitude: venue.coordinates.lat,
+          longitude: venue.coordinates.lon,
+          name: venue.name,
+        })),
+        units: query.units,
       },
-      geminiData: geminiData,
-    };
+      // Every venue's historical years share one provider budget
+      { signal, timeout: 120000 }
+    );
 
-    return weatherReport;
+    return {
+      date: query.date,
+      venues: data.venues.map(({ report, ...ranking }) => ({
+        ...ranking,
+        report: buildWeatherReport(
+          {
+            ...query,
+            location: {
+              type: "point",
+              coordinates: {
+                lat: Number(ranking.venue.latitude),
+                lon: Number(ranking.venue.longitude),
+              },
+              name: ranking.venue.name,
+            },
+          },
+          report,
+          date
+        ),
+      })),
+      failed: data.failed,
+    };
   } catch (error) {
+    if (signal?.aborted) throw cancelledError;
     throw transformError(error);
   }
 }
 
+/**
+ * Condition cards computed from historical frequencies alone, shown while
+ * the AI analysis is still running. Only conditions that occurred in the
+ * historical record are included.
+ */
+export function createPreliminaryConditions(
+  preliminary: PreliminaryReport
+): WeatherCondition[] {
+  if (!preliminary.weather_conditions) return [];
+  const { general_conditions, thresholds } = preliminary.weather_conditions;
+  const units = preliminary.metadata?.units;
+
+  const candidates: (WeatherCondition | null)[] = [
+    general_conditions.is_very_hot_percentage
+      ? {
+          condition: "Very Hot",
+          likelihood: general_conditions.is_very_hot_percentage,
+          description: `Days reaching ${formatQuantity(
+            thresholds.very_hot,
+            "temperature",
+            units
+          )} or more`,
+          threshold: thresholds.very_hot,
+          unit: unitLabel("temperature", units),
+        }
+      : null,
+    general_conditions.is_very_cold_percentage
+      ? {
+          condition: "Very Cold",
+          likelihood: general_conditions.is_very_cold_percentage,
+          description: `Days falling to ${formatQuantity(
+            thresholds.very_cold,
+            "temperature",
+            units
+          )} or less`,
+          threshold: thresholds.very_cold,
+          unit: unitLabel("temperature", units),
+        }
+      : null,
+    general_conditions.is_very_wet_percentage
+      ? {
+          condition: "Heavy Rainfall",
+          likelihood: general_conditions.is_very_wet_percentage,
+          description: `Days with ${formatQuantity(
+            thresholds.very_wet,
+            "precipitation",
+            units
+          )} of rain or more`,
+          threshold: thresholds.very_wet,
+          unit: unitLabel("precipitation", units),
+        }
+      : null,
+    general_conditions.is_very_windy_percentage
+      ? {
+          condition: "Very Windy",
+          likelihood: general_conditions.is_very_windy_percentage,
+          description: `Days with wind of ${formatQuantity(
+            thresholds.very_windy,
+            "windSpeed",
+            units
+          )} or more`,
+          threshold: thresholds.very_windy,
+          unit: unitLabel("windSpeed", units),
+        }
+      : null,
+  ];
+
+  return candidates.filter(
+    (condition): condition is WeatherCondition => condition !== null
+  );
+}
+
+/**
+ * Historical range, percentile and confidence for a variable, taken from the
+ * empirical distribution the backend computed. Left out entirely when the
+ * backend had no historical samples for the variable.
+ */
+function distributionFields(
+  geminiData: GeminiWeatherResponse,
+  variable: DistributionVariable
+): Pick<
+  WeatherCondition,
+  "historicalRange" | "percentile" | "confidence" | "sampleSize"
+> {
+  const statistics =
+    geminiData.weather_conditions.variable_statistics?.[variable];
+  if (!statistics) return {};
+
+  return {
+    historicalRange: {
+      min: statistics.min,
+      max: statistics.max,
+      median: statistics.median,
+    },
+    percentile: statistics.percentile,
+    confidence: statistics.confidence,
+    sampleSize: statistics.sample_size,
+  };
+}
+
 function transformGeminiToConditions(
   geminiData: GeminiWeatherResponse
 ): WeatherCondition[] {
   const conditions: WeatherCondition[] = [];
   const { general_conditions, specific_variables } =
     geminiData.weather_conditions;
+  const units = geminiData.metadata?.units;
 
   if (
     general_conditions.is_very_hot_percentage > 0 ||
@@ -164,20 +633,14 @@ function transformGeminiToConditions(
         general_conditions.is_very_hot_percentage,
         general_conditions.is_very_cold_percentage
       ),
-      description: `Temperature is expected to be ${specific_variables.temperature_celsius}°C`,
-      threshold: specific_variables.temperature_celsius,
-      unit: "°C",
-      historicalRange: {
-        min: specific_variables.temperature_celsius - 5,
-        max: specific_variables.temperature_celsius + 5,
-        median: specific_variables.temperature_celsius,
-      },
-      percentile:
-        general_conditions.is_very_hot_percentage >
-        general_conditions.is_very_cold_percentage
-          ? 90
-          : 10,
-      confidence: "high",
+      description: `Temperature is expected to be ${formatQuantity(
+        specific_variables.temperature,
+        "temperature",
+        units
+      )}`,
+      threshold: specific_variables.temperature,
+      unit: unitLabel("temperature", units),
+      ...distributionFields(geminiData, "temperature"),
     });
   }
 
@@ -186,50 +649,42 @@ function transformGeminiToConditions(
     conditions.push({
       condition: "Heavy Rainfall",
       likelihood: general_conditions.is_very_wet_percentage,
-      description: `Expected rainfall: ${specific_variables.rainfall_mm}mm`,
-      threshold: specific_variables.rainfall_mm,
-      unit: "mm",
-      historicalRange: {
-        min: 0,
-        max: specific_variables.rainfall_mm * 2,
-        median: specific_variables.rainfall_mm,
-      },
-      percentile: 90,
-      confidence: "high",
+      description: `Expected rainfall: ${formatQuantity(
+        specific_variables.rainfall,
+        "precipitation",
+        units
+      )}`,
+      threshold: specific_variables.rainfall,
+      unit: unitLabel("precipitation", units),
+      ...distributionFields(geminiData, "rainfall"),
     });
   }
 
-  if (general_conditions.is_very_windy_percentage > 0) {
+  const windSpeed = specific_variables.windspeed;
+  if (general_conditions.is_very_windy_percentage > 0 && windSpeed !== null) {
     conditions.push({
       condition: "Very Windy",
       likelihood: general_conditions.is_very_windy_percentage,
-      description: `Wind speed: ${specific_variables.windspeed_kph} km/h`,
-      threshold: specific_variables.windspeed_kph,
-      unit: "km/h",
-      historicalRange: {
-        min: 0,
-        max: specific_variables.windspeed_kph * 1.5,
-        median: specific_variables.windspeed_kph,
-      },
-      percentile: 90,
-      confidence: "high",
+      description: `Wind speed: ${formatQuantity(
+        windSpeed,
+        "windSpeed",
+        units
+      )}`,
+      threshold: windSpeed,
+      unit: unitLabel("windSpeed", units),
+      ...distributionFields(geminiData, "windspeed"),
     });
   }
 
-  if (specific_variables.humidity_percent > 70) {
+  const humidity = specific_variables.humidity_percent;
+  if (humidity !== null && humidity > 70) {
     conditions.push({
       condition: "High Humidity",
-      likelihood: specific_variables.humidity_percent,
-      description: `Humidity: ${specific_variables.humidity_percent}%`,
-      threshold: specific_variables.humidity_percent,
+      likelihood: humidity,
+      description: `Humidity: ${humidity}%`,
+      threshold: humidity,
       unit: "%",
-      historicalRange: {
-        min: 30,
-        max: 100,
-        median: specific_variables.humidity_percent,
-      },
-      percentile: 75,
-      confidence: "high",
+      ...distributionFields(geminiData, "humidity"),
     });
   }
 
@@ -242,30 +697,42 @@ function calculateRiskLevel(score: number): "low" | "medium" | "high" {
   return "high";
 }
 
+// Either a full response or the graphs streamed ahead of it
+type TrendSource = {
+  temperature_graph_data?: GraphData;
+  rain_graph_data?: GraphData;
+  snow_graph_data?: GraphData;
+  metadata?: ResponseMetadata;
+};
+
 export function createHistoricalTrendFromData(
-  geminiData: GeminiWeatherResponse,
+  geminiData: TrendSource,
   variable: "temperature" | "rainfall" | "snowfall",
   location: Coordinates
-): HistoricalTrend {
-  let graphData: GraphData;
+): HistoricalTrend | null {
+  let graphData: GraphData | undefined;
   let unit: string;
   let variableName: string;
+  const units = geminiData.metadata?.units;
 
   if (variable === "temperature") {
     graphData = geminiData.temperature_graph_data;
-    unit = "°C";
+    unit = unitLabel("temperature", units);
     variableName = "Temperature";
   } else if (variable === "rainfall") {
     graphData = geminiData.rain_graph_data;
-    unit = "mm";
+    unit = unitLabel("precipitation", units);
     variableName = "Rainfall";
   } else {
     graphData = geminiData.snow_graph_data;
-    unit = "cm";
+    unit = unitLabel("snow", units);
     variableName = "Snowfall";
   }
 
-  const dataPoints = transformQuarterlyToDataPoints(graphData, unit);
+  if (!graphData || graphData.source === "none") return null;
+
+  const dataPoints = transformGraphDataToDataPoints(graphData, unit);
+  if (dataPoints.length === 0) return null;
 
   const values = dataPoints.map((dp) => dp.value);
   const statistics = calculateStatistics(values);
@@ -288,15 +755,26 @@ export function createHistoricalTrendFromData(
       ? "weak"
       : "none";
 
-  const interpretation = `${variableName} shows a ${trendDirection} trend over the past 5 years with ${trendMagnitude} magnitude.`;
+  const years = dataPoints.map((dp) => dp.year);
+  const firstYear = Math.min(...years);
+  const lastYear = Math.max(...years);
+  const yearCount = lastYear - firstYear + 1;
+
+  const interpretation = `${variableName} shows a ${trendDirection} trend over the past ${yearCount} years with ${trendMagnitude} magnitude.`;
+
+  const source = graphData.source || "model";
+  const dataSource =
+    source === "observed"
+      ? geminiData.metadata?.provider?.displayName || "Observed data"
+      : describeNarrativeSource(geminiData.metadata);
 
   return {
     location,
     variable: variableName,
-    timeframe: "5yr",
+    timeframe: `${yearCount}yr`,
     dateRange: {
-      start: `${new Date().getFullYear() - 5}-01-01`,
-      end: `${new Date().getFullYear() - 1}-12-31`,
+      start: `${firstYear}-01-01`,
+      end: `${lastYear}-12-31`,
     },
     dataPoints,
     regression,
@@ -304,9 +782,10 @@ export function createHistoricalTrendFromData(
     trendDirection,
     trendMagnitude,
     interpretation,
+    source,
     metadata: {
       generatedAt: new Date().toISOString(),
-      dataSource: "Google Gemini AI",
+      dataSource,
       pointsCount: dataPoints.length,
     },
   };
@@ -324,90 +803,62 @@ export async function fetchHistoricalTrend(
       .toLocaleDateString("en-GB")
       .replace(/\//g, "-");
 
-    const response = await apiClient.get<GeminiWeatherResponse>(
-      "/api/weather",
-      {
-        params: {
-          latitude: location.lat.toString(),
-          longitude: location.lon.toString(),
-          date: formattedDate,
-        },
-      }
-    );
-
-    const geminiData = response.data;
+    const geminiData = await runAnalysisJob({
+      latitude: location.lat.toString(),
+      longitude: location.lon.toString(),
+      date: formattedDate,
+    });
 
     // Select the appropriate graph data based on variable
-    let graphData = geminiData.temperature_graph_data;
-    let unit = "°C";
-    let variableName = "Temperature";
-
-    if (variable.includes("PREC") || variable.toLowerCase().includes("rain")) {
-      graphData = geminiData.rain_graph_data;
-      unit = "mm";
-      variableName = "Rainfall";
-    } else if (variable.toLowerCase().includes("snow")) {
-      graphData = geminiData.snow_graph_data;
-      unit = "cm";
-      variableName = "Snowfall";
+    const trendVariable =
+      variable.includes("PREC") || variable.toLowerCase().includes("rain")
+        ? "rainfall"
+        : variable.toLowerCase().includes("snow")
+        ? "snowfall"
+        : "temperature";
+
+    const trend = createHistoricalTrendFromData(
+      geminiData,
+      trendVariable,
+      location
+    );
+    if (!trend) {
+      throw new Error(`No ${trendVariable} graph data in the response`);
     }
-
-    // Transform quarterly data to data points
-    const dataPoints = transformQuarterlyToDataPoints(graphData, unit);
-
-    // Calculate statistics
-    const values = dataPoints.map((dp) => dp.value);
-    const statistics = calculateStatistics(values);
-
-    // Calculate regression
-    const regression = calculateRegression(dataPoints);
-
-    // Determine trend
-    const trendDirection =
-      regression.slope > 0.1
-        ? "increasing"
-        : regression.slope < -0.1
-        ? "decreasing"
-        : "stable";
-
-    const trendMagnitude =
-      Math.abs(regression.slope) > 1
-        ? "strong"
-        : Math.abs(regression.slope) > 0.5
-        ? "moderate"
-        : Math.abs(regression.slope) > 0.1
-        ? "weak"
-        : "none";
-
-    const interpretation = `${variableName} shows a ${trendDirection} trend over the past 5 years with ${trendMagnitude} magnitude.`;
-
-    const historicalTrend: HistoricalTrend = {
-      location,
-      variable: variableName,
-      timeframe: "5yr",
-      dateRange: {
-        start: `${new Date().getFullYear() - 5}-01-01`,
-        end: `${new Date().getFullYear() - 1}-12-31`,
-      },
-      dataPoints,
-      regression,
-      statistics,
-      trendDirection,
-      trendMagnitude,
-      interpretation,
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        dataSource: "Google Gemini AI",
-        pointsCount: dataPoints.length,
-      },
-    };
-
-    return historicalTrend;
+    return trend;
   } catch (error) {
     throw transformError(error);
   }
 }
 
+// Observed series carry explicit years and either 4 quarterly or 12 monthly
+// values; each value is plotted at the middle of its period
+function transformGraphDataToDataPoints(
+  graphData: GraphData,
+  unit: string
+): DataPoint[] {
+  if (!graphData.series) {
+    return transformQuarterlyToDataPoints(graphData, unit);
+  }
+
+  const monthly = graphData.granularity === "monthly";
+  return graphData.series.flatMap(({ year, values }) =>
+    values.flatMap((value, index) =>
+      value === null
+        ? []
+        : [
+            {
+              year,
+              month: monthly ? index + 1 : index * 3 + 2,
+              day: 15,
+              value,
+              unit,
+            },
+          ]
+    )
+  );
+}
+
 function transformQuarterlyToDataPoints(
   graphData: {
     year_minus_5: number[];
@@ -417,20 +868,8 @@ function transformQuarterlyToDataPoints(
     year_minus_1: number[];
   },
   unit: string
-): Array<{
-  year: number;
-  month: number;
-  day: number;
-  value: number;
-  unit: string;
-}> {
-  const dataPoints: Array<{
-    year: number;
-    month: number;
-    day: number;
-    value: number;
-    unit: string;
-  }> = [];
+): DataPoint[] {
+  const dataPoints: DataPoint[] = [];
   const currentYear = new Date().getFullYear();
   const years = [
     { data: graphData.year_minus_5, year: currentYear - 5 },
@@ -0,0 +1,2 @@
+// Stylesheets imported by components mean nothing outside the bundler
+export default {};
@@ -24,10 +24,42 @@ export interface DateQuery {
   year?: number;
 }
 
+export type AnalysisMode = "full" | "data-only";
+
 export interface WeatherQuery {
   location: Location;
   date: DateQuery;
   queryId?: string;
+  mode?: AnalysisMode;
+  /** Set for multi-day events; `date` is then the first day */
+  endDate?: DateQuery;
+  /** Set to compare candidate venues; `location` is then ignored */
+  venues?: PointLocation[];
+  /** Set to rank the days from `date` to `endDate` instead of analyzing one */
+  bestDateSearch?: BestDateSearch;
+  /** HH:MM local times the event runs; the score then covers only these */
+  eventTime?: EventTime;
+  units?: UnitSystem;
+}
+
+/**
+ * Fields with a metric suffix (`temperature_celsius`) always hold metric
+ * values and are deprecated; each has a unit-neutral sibling
+ * (`temperature`) in the units the response names in `metadata.units`
+ */
+export type UnitSystem = "metric" | "imperial";
+
+export interface EventTime {
+  start: string;
+  end: string;
+}
+
+/** 0 for Sunday through 6 for Saturday, as in Date.getDay() */
+export type Weekday = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface BestDateSearch {
+  /** Only these weekdays are candidates; every day when empty */
+  weekdays: Weekday[];
 }
 
 export interface RequestParameters {
@@ -54,21 +86,73 @@ export interface GeneralConditions {
   is_very_wet_percentage: number;
 }
 
+// Null when the analysis was built from a provider that does not report
+// the variable (data-only reports)
 export interface SpecificVariables {
+  temperature: number;
+  rainfall: number;
+  windspeed: number | null;
+  dust_concentration_ug_m3: number | null;
+  snowfall: number | null;
+  snow_depth: number | null;
+  cloud_cover_percent: number | null;
+  air_quality_index: number | null;
+  humidity_percent: number | null;
+  // Deprecated metric aliases
   temperature_celsius: number;
   rainfall_mm: number;
-  windspeed_kph: number;
-  dust_concentration_ug_m3: number;
-  snowfall_cm: number;
-  snow_depth_cm: number;
-  cloud_cover_percent: number;
-  air_quality_index: number;
-  humidity_percent: number;
+  windspeed_kph: number | null;
+  snowfall_cm: number | null;
+  snow_depth_cm: number | null;
 }
 
+export type ValueSource = "computed" | "model";
+
+export type GeneralConditionsSources = Record<
+  keyof GeneralConditions,
+  ValueSource
+>;
+
+export interface ConditionThresholds {
+  very_hot: number;
+  very_cold: number;
+  very_windy: number;
+  very_wet: number;
+  // Deprecated metric aliases
+  very_hot_celsius: number;
+  very_cold_celsius: number;
+  very_windy_kph: number;
+  very_wet_mm: number;
+}
+
+export type Confidence = "low" | "medium" | "high";
+
+export interface VariableStatistics {
+  unit: string;
+  min: number;
+  median: number;
+  max: number;
+  expected_value: number;
+  /** Percentile rank (0-100) of expected_value among the historical samples */
+  percentile: number;
+  sample_size: number;
+  confidence: Confidence;
+}
+
+export type DistributionVariable =
+  | "temperature"
+  | "rainfall"
+  | "windspeed"
+  | "humidity";
+
 export interface WeatherConditions {
   general_conditions: GeneralConditions;
   specific_variables: SpecificVariables;
+  general_conditions_sources?: GeneralConditionsSources;
+  thresholds?: ConditionThresholds;
+  variable_statistics?: Partial<
+    Record<DistributionVariable, VariableStatistics>
+  >;
 }
 
 export interface ThresholdProbability {
@@ -93,13 +177,75 @@ export interface StatisticalAnalysis {
   trend_estimation: TrendEstimation;
 }
 
+/** `none` marks a graph with no data from the provider or the model */
+export type GraphSource = "observed" | "model" | "none";
+
+export type GraphGranularity = "quarterly" | "monthly";
+
+export interface GraphSeriesYear {
+  year: number;
+  /** One value per month or quarter; null where the provider had too few days */
+  values: (number | null)[];
+}
+
 export interface GraphData {
   description: string;
+  /** Legacy quarterly values, left empty by observed graphs in window mode */
   year_minus_5: number[];
   year_minus_4: number[];
   year_minus_3: number[];
   year_minus_2: number[];
   year_minus_1: number[];
+  source?: GraphSource;
+  granularity?: GraphGranularity;
+  series?: GraphSeriesYear[];
+}
+
+export interface CacheMetadata {
+  hits: number;
+  misses: number;
+  queryCost: number;
+  queryCostSaved: number;
+}
+
+export interface HistoricalCoverage {
+  yearsRequested: number[];
+  missingYears: number[];
+  windowDays: number;
+  sampleSize: number;
+}
+
+export interface ProviderInfo {
+  name: string;
+  displayName: string;
+}
+
+export interface LlmInfo {
+  provider: string;
+  displayName: string;
+  model: string;
+}
+
+export interface PromptInfo {
+  version: string;
+  hash: string;
+}
+
+export interface AnalysisInfo {
+  mode: AnalysisMode;
+  /** True when the narrative parts come from the rule-based analyzer */
+  degraded: boolean;
+  fallbackReason?: string;
+}
+
+export interface ResponseMetadata {
+  analysis?: AnalysisInfo;
+  provider?: ProviderInfo;
+  llm?: LlmInfo;
+  prompt?: PromptInfo;
+  cache?: CacheMetadata;
+  historical?: HistoricalCoverage;
+  units?: UnitSystem;
 }
 
 export interface GeminiWeatherResponse {
@@ -111,6 +257,315 @@ export interface GeminiWeatherResponse {
   temperature_graph_data: GraphData;
   rain_graph_data: GraphData;
   snow_graph_data: GraphData;
+  /** Present when the query had event times and the provider has hours */
+  event_window?: EventWindowAnalysis;
+  metadata?: ResponseMetadata;
+}
+
+export type AnalysisStage =
+  | "target_day"
+  | "historical_year"
+  | "statistics"
+  | "gemini_started"
+  | "gemini_finished";
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  year?: number;
+  completed?: number;
+  total?: number;
+  ok?: boolean;
+}
+
+// Data-driven parts of a report, streamed before the AI analysis arrives
+export interface PreliminaryReport {
+  weather_conditions?: {
+    general_conditions: Partial<GeneralConditions>;
+    thresholds: ConditionThresholds;
+  };
+  temperature_graph_data?: GraphData;
+  rain_graph_data?: GraphData;
+  snow_graph_data?: GraphData;
+  metadata?: ResponseMetadata;
+}
+
+export type ConditionsBasis = "observation" | "forecast" | "climatology";
+
+export interface RangeDayConditions {
+  temperature: number;
+  temperature_max: number;
+  temperature_min: number;
+  rainfall: number;
+  precipitation_probability: number | null;
+  windspeed: number | null;
+  humidity_percent: number | null;
+  uv_index: number | null;
+  // Deprecated metric aliases
+  temperature_celsius: number;
+  temperature_max_celsius: number;
+  temperature_min_celsius: number;
+  rainfall_mm: number;
+  windspeed_kph: number | null;
+}
+
+export interface RangeDay {
+  date: string;
+  basis: ConditionsBasis;
+  comfortability_score: ComfortabilityScore;
+  expected_conditions: RangeDayConditions;
+  general_conditions: Partial<GeneralConditions>;
+  wet_day_probability: number;
+  sample_size: number;
+}
+
+export interface RangeDayReference {
+  date: string;
+  score: number;
+  summary: string;
+}
+
+export interface RangeSummary {
+  day_count: number;
+  average_comfort_score: number;
+  best_day: RangeDayReference;
+  worst_day: RangeDayReference;
+  /** Chance that at least one day in the range is wet */
+  wet_day_probability: number;
+  expected_wet_days: number;
+}
+
+export interface RangeAnalysisResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    start_date: string;
+    end_date: string;
+  };
+  days: RangeDay[];
+  summary: RangeSummary;
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+export interface BestDateCandidate {
+  rank: number;
+  date: string;
+  weekday: string;
+  comfortability_score: ComfortabilityScore;
+  expected_conditions: RangeDayConditions;
+  general_conditions: Partial<GeneralConditions>;
+  wet_day_probability: number;
+  reasons: string[];
+  sample_size: number;
+}
+
+export interface BestDatesResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    start_date: string;
+    end_date: string;
+    weekdays: string[];
+  };
+  /** Ranked best first */
+  candidates: BestDateCandidate[];
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+export interface EventHour {
+  /** Local hour of day, 0-23 */
+  hour: number;
+  in_event_window: boolean;
+  in_setup_window: boolean;
+  temperature: number | null;
+  precipitation_probability: number | null;
+  rainfall: number | null;
+  windspeed: number | null;
+  gust: number | null;
+  humidity_percent: number | null;
+  uv_index: number | null;
+  comfort_score: number | null;
+  // Deprecated metric aliases
+  temperature_celsius: number | null;
+  rainfall_mm: number | null;
+  windspeed_kph: number | null;
+  gust_kph: number | null;
+}
+
+export interface EventWindowAnalysis {
+  start_time: string;
+  end_time: string;
+  basis: ConditionsBasis;
+  comfortability_score: ComfortabilityScore;
+  /** The whole-day score the event score replaces */
+  day_comfortability_score: ComfortabilityScore;
+  rain_probability: number | null;
+  expected_rainfall: number | null;
+  peak_temperature: number | null;
+  peak_hour: number | null;
+  min_temperature: number | null;
+  windspeed: number | null;
+  setup: {
+    start_hour: number;
+    end_hour: number;
+    windspeed: number | null;
+    gust: number | null;
+    // Deprecated metric aliases
+    windspeed_kph: number | null;
+    gust_kph: number | null;
+  } | null;
+  /** One entry per hour of the day */
+  hourly: EventHour[];
+  sample_size: number;
+  // Deprecated metric aliases
+  expected_rainfall_mm: number | null;
+  peak_temperature_celsius: number | null;
+  min_temperature_celsius: number | null;
+  windspeed_kph: number | null;
+}
+
+export interface ForecastDay extends RangeDayConditions {
+  date: string;
+  /** True for the requested date */
+  is_target: boolean;
+  conditions: string | null;
+  description: string | null;
+}
+
+export interface ForecastResponse {
+  request_parameters: {
+    latitude: string;
+    longitude: string;
+    date: string;
+    start_date: string;
+    end_date: string;
+  };
+  days: ForecastDay[];
+  metadata: ResponseMetadata;
+}
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface AreaCell extends GeoPoint {
+  comfortability_score: ComfortabilityScore;
+  basis: ConditionsBasis;
+  expected_conditions: RangeDayConditions;
+  general_conditions: Partial<GeneralConditions>;
+  sample_size: number;
+}
+
+// Responses also carry the deprecated metric keys (temperature_celsius, ...)
+export type AreaVariable =
+  | "comfort_score"
+  | "temperature"
+  | "rainfall"
+  | "windspeed";
+
+export interface SpatialSpread {
+  min: number;
+  max: number;
+  range: number;
+  standard_deviation: number;
+}
+
+export interface AreaAggregate {
+  area_mean: Partial<Record<AreaVariable, number>>;
+  area_general_conditions: Partial<GeneralConditions>;
+  /** The sampled point with the lowest comfort score */
+  worst_cell: GeoPoint & { score: number; summary: string };
+  spatial_spread: Partial<Record<AreaVariable, SpatialSpread>>;
+}
+
+export interface AreaAnalysisResponse {
+  request_parameters: {
+    date: string;
+    polygon: GeoPoint[];
+    area_sq_km: number;
+  };
+  /** Grid points whose data went into the aggregate */
+  sample_points: GeoPoint[];
+  failed_points: (GeoPoint & { error: string })[];
+  cells: AreaCell[];
+  aggregate: AreaAggregate;
+  thresholds: ConditionThresholds;
+  metadata: ResponseMetadata;
+}
+
+export interface VenueQuery {
+  latitude: string;
+  longitude: string;
+  name?: string;
+}
+
+export interface VenueComparison {
+  rank: number;
+  venue: VenueQuery;
+  ranking_score: number;
+  comfort_score: number;
+  rain_probability: number;
+  heat_risk: number;
+  cold_risk: number;
+  report: GeminiWeatherResponse;
+}
+
+export interface FailedVenue {
+  venue: VenueQuery;
+  error: string;
+}
+
+export interface ComparisonResponse {
+  request_parameters: {
+    date: string;
+    venues: VenueQuery[];
+  };
+  venues: VenueComparison[];
+  failed: FailedVenue[];
+  ranking_weights: {
+    comfort: number;
+    rain: number;
+    temperature_risk: number;
+  };
+}
+
+/** A compared venue with its report in the shape WeatherReportDisplay uses */
+export interface RankedVenue extends Omit<VenueComparison, "report"> {
+  report: WeatherReport;
+}
+
+export interface VenueComparisonReport {
+  date: DateQuery;
+  venues: RankedVenue[];
+  failed: FailedVenue[];
+}
+
+export type AnalysisJobStatus =
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export interface AnalysisJob {
+  id: string;
+  status: AnalysisJobStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  queuePosition: number | null;
+  progress: AnalysisProgress[];
+  preliminary: PreliminaryReport;
+  result: GeminiWeatherResponse | null;
+  error: {
+    status: number;
+    error: string;
+    message: string;
+    details: string;
+  } | null;
 }
 
 export interface WeatherCondition {
@@ -119,13 +574,14 @@ export interface WeatherCondition {
   description: string;
   threshold: number;
   unit: string;
-  historicalRange: {
+  historicalRange?: {
     min: number;
     max: number;
     median: number;
   };
-  percentile: number;
-  confidence: "low" | "medium" | "high";
+  percentile?: number;
+  confidence?: Confidence;
+  sampleSize?: number;
 }
 
 export interface WeatherReport {
@@ -186,6 +642,7 @@ export interface HistoricalTrend {
   trendDirection: "increasing" | "decreasing" | "stable";
   trendMagnitude: "none" | "weak" | "moderate" | "strong";
   interpretation: string;
+  source?: GraphSource;
   metadata: {
     generatedAt: string;
     dataSource: string;
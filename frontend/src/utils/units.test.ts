@@ -0,0 +1,59 @@
+/**
+ * @jest-environment jsdom
+ */
+import { afterEach, describe, expect, it, jest } from "@jest/globals";
+import {
+  formatQuantity,
+  formatWithUnit,
+  loadUnitPreference,
+  saveUnitPreference,
+  unitLabel,
+} from "./units";
+
+describe("units", () => {
+  afterEach(() => {
+    localStorage.clear();
+    jest.restoreAllMocks();
+  });
+
+  it("labels each quantity in both systems", () => {
+    expect(unitLabel("temperature", "imperial")).toBe("°F");
+    expect(unitLabel("windSpeed", "imperial")).toBe("mph");
+    expect(unitLabel("snow", "metric")).toBe("cm");
+  });
+
+  it("treats responses without units as metric", () => {
+    expect(unitLabel("precipitation")).toBe("mm");
+    expect(formatQuantity(5, "precipitation")).toBe("5 mm");
+  });
+
+  it("puts degrees and percentages against the number", () => {
+    expect(formatWithUnit(68, "°F")).toBe("68°F");
+    expect(formatWithUnit(45, "%")).toBe("45%");
+    expect(formatWithUnit("N/A", "")).toBe("N/A");
+    expect(formatWithUnit(12, "km/h")).toBe("12 km/h");
+    expect(formatQuantity(0.5, "precipitation", "imperial")).toBe("0.5 in");
+  });
+
+  it("remembers the unit preference", () => {
+    expect(loadUnitPreference()).toBe("metric");
+
+    saveUnitPreference("imperial");
+    expect(loadUnitPreference()).toBe("imperial");
+
+    saveUnitPreference("metric");
+    expect(loadUnitPreference()).toBe("metric");
+  });
+
+  it("falls back to metric when storage is unavailable", () => {
+    jest.spyOn(Storage.prototype, "getItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+    jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
+      throw new Error("SecurityError");
+    });
+
+    expect(() => saveUnitPreference("imperial")).not.toThrow();
+    expect(loadUnitPreference()).toBe("metric");
+  });
+});
@@ -0,0 +1,67 @@
+import type { UnitSystem } from "../types/weather";
+
+export type Quantity = "temperature" | "precipitation" | "snow" | "windSpeed";
+
+const UNIT_LABELS: Record<UnitSystem, Record<Quantity, string>> = {
+  metric: {
+    temperature: "°C",
+    precipitation: "mm",
+    snow: "cm",
+    windSpeed: "km/h",
+  },
+  imperial: {
+    temperature: "°F",
+    precipitation: "in",
+    snow: "in",
+    windSpeed: "mph",
+  },
+};
+
+export const UNIT_SYSTEM_OPTIONS: { value: UnitSystem; label: string }[] = [
+  { value: "metric", label: "°C, mm, km/h" },
+  { value: "imperial", label: "°F, in, mph" },
+];
+
+// Responses from servers that predate metadata.units are metric
+export function unitLabel(
+  quantity: Quantity,
+  units: UnitSystem = "metric"
+): string {
+  return UNIT_LABELS[units][quantity];
+}
+
+/** "68°F", "5 mm", "45%": degrees and percentages sit against the number */
+export function formatWithUnit(value: number | string, unit: string): string {
+  return unit.startsWith("°") || unit === "%" || unit === ""
+    ? `${value}${unit}`
+    : `${value} ${unit}`;
+}
+
+export function formatQuantity(
+  value: number,
+  quantity: Quantity,
+  units?: UnitSystem
+): string {
+  return formatWithUnit(value, unitLabel(quantity, units));
+}
+
+const STORAGE_KEY = "weathersense.units";
+
+export function loadUnitPreference(): UnitSystem {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === "imperial"
+      ? "imperial"
+      : "metric";
+  } catch {
+    // Storage can be disabled, e.g. in some private browsing modes
+    return "metric";
+  }
+}
+
+export function saveUnitPreference(units: UnitSystem): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, units);
+  } catch {
+    // The preference then lasts only as long as the page
+  }
+}